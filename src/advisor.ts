@@ -0,0 +1,52 @@
+/**
+ * Shared pieces of the security and performance advisors
+ */
+
+import type { AdvisorFinding, AdvisorReport, LintSeverity } from './types.js';
+
+// Schemas created and maintained by the Supabase stack itself
+export const MANAGED_SCHEMAS = [
+  'auth', 'storage', 'realtime', '_realtime', 'extensions', 'graphql', 'graphql_public',
+  'vault', 'pgsodium', 'pgsodium_masks', 'supabase_functions', 'supabase_migrations',
+  'net', 'cron', 'pgbouncer', 'pgtle', 'pgmq', '_analytics', '_supavisor',
+  'information_schema', 'pg_catalog',
+];
+
+const SEVERITY_ORDER: LintSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Sort findings by severity and summarize them
+ */
+export function buildReport(
+  findings: AdvisorFinding[],
+  skipped: AdvisorReport['skipped_checks'] = []
+): AdvisorReport {
+  const sorted = [...findings].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+
+  return {
+    findings: sorted,
+    summary: {
+      errors: sorted.filter((f) => f.severity === 'error').length,
+      warnings: sorted.filter((f) => f.severity === 'warning').length,
+      info: sorted.filter((f) => f.severity === 'info').length,
+    },
+    skipped_checks: skipped,
+    generated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Drop findings below a severity and recount the summary
+ */
+export function filterReport(report: AdvisorReport, minSeverity: LintSeverity): AdvisorReport {
+  const allowed = SEVERITY_ORDER.slice(0, SEVERITY_ORDER.indexOf(minSeverity) + 1);
+  return {
+    ...buildReport(
+      report.findings.filter((finding) => allowed.includes(finding.severity)),
+      report.skipped_checks
+    ),
+    generated_at: report.generated_at,
+  };
+}
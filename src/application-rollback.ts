@@ -0,0 +1,181 @@
+/**
+ * Rollback of Coolify applications to their last known-good build
+ * Picks the commit (or image tag) to return to from the deployment history,
+ * pins the application to it, redeploys and waits for it to come back
+ */
+
+import { CoolifyClient } from './coolify-client.js';
+import { DeploymentWaiter } from './deployment-waiter.js';
+import type { ApplicationRollbackResult, CoolifyDeployment, ToolContext, ToolResponse } from './types.js';
+
+export interface RollbackOptions {
+  /**
+   * Commit to return to instead of the one found in the deployment history
+   */
+  commit?: string;
+  /**
+   * Image tag to return to; required for applications deployed from a registry image
+   */
+  imageTag?: string;
+  /**
+   * Report the target without changing anything
+   */
+  dryRun?: boolean;
+  waitForReady?: boolean;
+  timeoutSeconds?: number;
+  context?: ToolContext;
+}
+
+// Deployments scanned for a known-good commit
+const HISTORY_DEPTH = 50;
+
+export class ApplicationRollback {
+  private waiter: DeploymentWaiter;
+
+  constructor(private coolify: CoolifyClient) {
+    this.waiter = new DeploymentWaiter(coolify);
+  }
+
+  /**
+   * Redeploy the last known-good commit or image tag of an application
+   */
+  async rollback(uuid: string, options: RollbackOptions = {}): Promise<ToolResponse<ApplicationRollbackResult>> {
+    const appResult = await this.coolify.getApplication(uuid);
+    if (!appResult.success || !appResult.data) {
+      return {
+        success: false,
+        error: appResult.error || `Application ${uuid} not found`,
+      };
+    }
+    const application = appResult.data;
+    const fromImage = application.build_pack === 'dockerimage';
+
+    let plan: Omit<ApplicationRollbackResult, 'dry_run' | 'pinned'>;
+    if (fromImage) {
+      // Image deployments do not record the tag they ran, so the target has to be given
+      if (!options.imageTag) {
+        return {
+          success: false,
+          error: `Application ${uuid} is deployed from a registry image; pass image_tag to roll back`,
+        };
+      }
+      plan = {
+        application_uuid: uuid,
+        strategy: 'image_tag',
+        from: application.docker_registry_image_tag,
+        to: options.imageTag,
+      };
+    } else {
+      const historyResult = await this.coolify.listApplicationDeployments(uuid, 0, HISTORY_DEPTH);
+      if (!historyResult.success || !historyResult.data) {
+        return {
+          success: false,
+          error: historyResult.error || `Failed to read the deployment history of ${uuid}`,
+        };
+      }
+      const target = findRollbackTarget(historyResult.data.deployments, options.commit);
+      if (!target.to) {
+        return {
+          success: false,
+          error: target.error,
+        };
+      }
+      plan = {
+        application_uuid: uuid,
+        strategy: 'commit',
+        from: target.from,
+        to: target.to,
+        source_deployment_uuid: target.source?.deployment_uuid,
+      };
+    }
+
+    if (options.dryRun) {
+      return {
+        success: true,
+        data: { ...plan, pinned: false, dry_run: true },
+        message: `Would roll back ${uuid} from ${plan.from || 'unknown'} to ${plan.to}`,
+      };
+    }
+
+    const updateResult = await this.coolify.updateApplication(
+      uuid,
+      fromImage ? { docker_registry_image_tag: plan.to } : { git_commit_sha: plan.to }
+    );
+    if (!updateResult.success) {
+      return {
+        success: false,
+        error: updateResult.error || `Failed to pin ${uuid} to ${plan.to}`,
+      };
+    }
+
+    const deployResult = await this.coolify.deployApplication(uuid);
+    if (!deployResult.success) {
+      return {
+        success: false,
+        error: deployResult.error || `Failed to deploy ${uuid}`,
+        data: { ...plan, pinned: true, dry_run: false },
+      };
+    }
+
+    const result: ApplicationRollbackResult = {
+      ...plan,
+      deployment_uuid: deployResult.data?.deployment_uuid,
+      pinned: true,
+      dry_run: false,
+    };
+    const unpin = fromImage
+      ? 'Deploy a new image tag to move forward again.'
+      : 'Set git_commit_sha back to HEAD to resume deploying the branch.';
+
+    if (options.waitForReady === false) {
+      return {
+        success: true,
+        data: result,
+        message: `Rollback of ${uuid} to ${plan.to} started. ${unpin}`,
+      };
+    }
+
+    result.readiness = await this.waiter.waitForApplication(uuid, {
+      deploymentUuid: result.deployment_uuid,
+      timeoutSeconds: options.timeoutSeconds,
+      context: options.context,
+    });
+
+    return {
+      success: result.readiness.ready,
+      data: result,
+      ...(result.readiness.ready
+        ? { message: `Rolled back ${uuid} to ${plan.to}; the application is healthy. ${unpin}` }
+        : { error: `Rolled back ${uuid} to ${plan.to} but it did not become healthy: ${result.readiness.error}` }),
+    };
+  }
+}
+
+/**
+ * Choose the commit to return to from a newest-first deployment history.
+ * The newest finished deployment is what production runs; the target is the
+ * newest finished deployment before it that built a different commit.
+ */
+export function findRollbackTarget(
+  deployments: CoolifyDeployment[],
+  commit?: string
+): { from?: string; to?: string; source?: CoolifyDeployment; error?: string } {
+  const finished = deployments.filter(
+    (deployment) => deployment.status === 'finished' && deployment.commit && deployment.commit !== 'HEAD'
+  );
+  const from = finished[0]?.commit || undefined;
+
+  if (commit) {
+    const source = finished.find((deployment) => deployment.commit?.startsWith(commit));
+    return { from, to: source?.commit || commit, source };
+  }
+  if (!from) {
+    return { error: 'No successful deployment with a recorded commit was found' };
+  }
+
+  const source = finished.find((deployment) => deployment.commit !== from);
+  if (!source) {
+    return { from, error: `No earlier successful deployment of a commit other than ${from} was found` };
+  }
+  return { from, to: source.commit!, source };
+}
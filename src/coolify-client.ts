@@ -8,12 +8,30 @@ import type {
   CoolifyApplication,
   CoolifyDatabase,
   CoolifyService,
+  CreateCoolifyServiceInput,
+  CreateCoolifyApplicationInput,
+  CreateCoolifyDatabaseInput,
+  UpdateCoolifyDatabaseInput,
+  CoolifyDeployment,
+  CoolifyTeam,
+  CoolifyProject,
+  CoolifyEnvironment,
+  CoolifyServer,
+  CoolifyServerResource,
+  CoolifyEnvVar,
+  CoolifyEnvVarInput,
+  CoolifyBackupSettings,
+  CoolifyScheduledBackup,
+  CoolifyBackupExecution,
   ToolResponse,
 } from './types.js';
 
+const CURRENT_TEAM_PATH = '/api/v1/teams/current';
+
 export class CoolifyClient {
   private client: AxiosInstance;
   private config: CoolifyConfig;
+  private teamCheck?: Promise<void>;
 
   constructor(config: CoolifyConfig) {
     this.config = config;
@@ -24,6 +42,31 @@ export class CoolifyClient {
         'Content-Type': 'application/json',
       },
     });
+
+    // API tokens belong to a single team, so scoping means refusing tokens of any other team
+    if (config.teamId) {
+      this.client.interceptors.request.use(async (request) => {
+        if (request.url !== CURRENT_TEAM_PATH) {
+          await this.verifyTeam();
+        }
+        return request;
+      });
+    }
+  }
+
+  /**
+   * Get the team the API token belongs to
+   */
+  async getCurrentTeam(): Promise<ToolResponse<CoolifyTeam>> {
+    try {
+      const response = await this.client.get(CURRENT_TEAM_PATH);
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to get current team');
+    }
   }
 
   /**
@@ -57,11 +100,15 @@ export class CoolifyClient {
   }
 
   /**
-   * Create a new application
+   * Create an application from a public git repository or a registry image
    */
-  async createApplication(data: Partial<CoolifyApplication>): Promise<ToolResponse<CoolifyApplication>> {
+  async createApplication(input: CreateCoolifyApplicationInput): Promise<ToolResponse<{ uuid: string; domains?: string }>> {
     try {
-      const response = await this.client.post('/api/v1/applications', data);
+      const { source, ...body } = input;
+      const response = await this.client.post(`/api/v1/applications/${source}`, {
+        ...body,
+        instant_deploy: input.instant_deploy ?? false,
+      });
       return {
         success: true,
         data: response.data,
@@ -73,11 +120,82 @@ export class CoolifyClient {
   }
 
   /**
-   * Update application environment variables
+   * Create or update application environment variables by key
    */
   async updateApplicationEnv(uuid: string, env: Record<string, string>): Promise<ToolResponse<void>> {
+    return this.upsertApplicationEnvs(
+      uuid,
+      Object.entries(env).map(([key, value]) => ({ key, value, is_preview: false }))
+    );
+  }
+
+  /**
+   * List application environment variables, including preview ones
+   */
+  async listApplicationEnvs(uuid: string): Promise<ToolResponse<CoolifyEnvVar[]>> {
+    try {
+      const response = await this.client.get(`/api/v1/applications/${uuid}/envs`);
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to list environment variables for ${uuid}`);
+    }
+  }
+
+  /**
+   * Create one application environment variable
+   */
+  async createApplicationEnv(uuid: string, variable: CoolifyEnvVarInput): Promise<ToolResponse<{ uuid: string }>> {
+    try {
+      const response = await this.client.post(`/api/v1/applications/${uuid}/envs`, variable);
+      return {
+        success: true,
+        data: response.data,
+        message: `Environment variable ${variable.key} created`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to create environment variable ${variable.key} for ${uuid}`);
+    }
+  }
+
+  /**
+   * Update the value and flags of one application environment variable, matched by key
+   */
+  async updateApplicationEnvVar(uuid: string, variable: CoolifyEnvVarInput): Promise<ToolResponse<void>> {
+    try {
+      await this.client.patch(`/api/v1/applications/${uuid}/envs`, variable);
+      return {
+        success: true,
+        message: `Environment variable ${variable.key} updated`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to update environment variable ${variable.key} for ${uuid}`);
+    }
+  }
+
+  /**
+   * Delete one application environment variable by its UUID
+   */
+  async deleteApplicationEnv(uuid: string, envUuid: string): Promise<ToolResponse<void>> {
     try {
-      await this.client.patch(`/api/v1/applications/${uuid}/env`, { environment: env });
+      await this.client.delete(`/api/v1/applications/${uuid}/envs/${envUuid}`);
+      return {
+        success: true,
+        message: `Environment variable ${envUuid} deleted`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to delete environment variable ${envUuid} for ${uuid}`);
+    }
+  }
+
+  /**
+   * Create or update several application environment variables in one request
+   */
+  async upsertApplicationEnvs(uuid: string, variables: CoolifyEnvVarInput[]): Promise<ToolResponse<void>> {
+    try {
+      await this.client.patch(`/api/v1/applications/${uuid}/envs/bulk`, { data: variables });
       return {
         success: true,
         message: 'Environment variables updated successfully',
@@ -88,14 +206,35 @@ export class CoolifyClient {
   }
 
   /**
-   * Deploy an application
+   * Update application settings
    */
-  async deployApplication(uuid: string): Promise<ToolResponse<void>> {
+  async updateApplication(uuid: string, data: Partial<CoolifyApplication>): Promise<ToolResponse<void>> {
     try {
-      await this.client.post(`/api/v1/applications/${uuid}/deploy`);
+      await this.client.patch(`/api/v1/applications/${uuid}`, data);
       return {
         success: true,
-        message: `Deployment started for application ${uuid}`,
+        message: `Application ${uuid} updated`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to update application ${uuid}`);
+    }
+  }
+
+  /**
+   * Deploy an application and return the UUID of the queued deployment
+   */
+  async deployApplication(uuid: string, force: boolean = false): Promise<ToolResponse<{ deployment_uuid?: string }>> {
+    try {
+      const response = await this.client.get('/api/v1/deploy', {
+        params: { uuid, force },
+      });
+      const deploymentUuid = response.data?.deployments?.[0]?.deployment_uuid;
+      return {
+        success: true,
+        data: { deployment_uuid: deploymentUuid },
+        message: deploymentUuid
+          ? `Deployment ${deploymentUuid} started for application ${uuid}`
+          : `Deployment started for application ${uuid}`,
       };
     } catch (error) {
       return this.handleError(error, `Failed to deploy application ${uuid}`);
@@ -177,6 +316,329 @@ export class CoolifyClient {
     }
   }
 
+  /**
+   * Create a standalone database of the given type
+   */
+  async createDatabase(
+    type: 'postgresql' | 'redis',
+    input: CreateCoolifyDatabaseInput
+  ): Promise<ToolResponse<{ uuid: string; internal_db_url?: string; external_db_url?: string }>> {
+    try {
+      const response = await this.client.post(`/api/v1/databases/${type}`, {
+        ...input,
+        instant_deploy: input.instant_deploy ?? false,
+      });
+      return {
+        success: true,
+        data: response.data,
+        message: `Database ${input.name || type} created`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to create ${type} database`);
+    }
+  }
+
+  /**
+   * Update database settings; most changes apply on the next restart
+   */
+  async updateDatabase(uuid: string, data: UpdateCoolifyDatabaseInput): Promise<ToolResponse<void>> {
+    try {
+      await this.client.patch(`/api/v1/databases/${uuid}`, data);
+      return {
+        success: true,
+        message: `Database ${uuid} updated`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to update database ${uuid}`);
+    }
+  }
+
+  /**
+   * Start a database
+   */
+  async startDatabase(uuid: string): Promise<ToolResponse<void>> {
+    try {
+      await this.client.post(`/api/v1/databases/${uuid}/start`);
+      return {
+        success: true,
+        message: `Database ${uuid} started`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to start database ${uuid}`);
+    }
+  }
+
+  /**
+   * Stop a database
+   */
+  async stopDatabase(uuid: string): Promise<ToolResponse<void>> {
+    try {
+      await this.client.post(`/api/v1/databases/${uuid}/stop`);
+      return {
+        success: true,
+        message: `Database ${uuid} stopped`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to stop database ${uuid}`);
+    }
+  }
+
+  /**
+   * Restart a database
+   */
+  async restartDatabase(uuid: string): Promise<ToolResponse<void>> {
+    try {
+      await this.client.post(`/api/v1/databases/${uuid}/restart`);
+      return {
+        success: true,
+        message: `Database ${uuid} restarted`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to restart database ${uuid}`);
+    }
+  }
+
+  /**
+   * Delete a database; its data volumes are only removed when deleteVolumes is set
+   */
+  async deleteDatabase(uuid: string, deleteVolumes: boolean = false): Promise<ToolResponse<void>> {
+    try {
+      await this.client.delete(`/api/v1/databases/${uuid}`, {
+        params: {
+          delete_configurations: true,
+          delete_volumes: deleteVolumes,
+          docker_cleanup: true,
+          delete_connected_networks: true,
+        },
+      });
+      return {
+        success: true,
+        message: `Database ${uuid} deleted${deleteVolumes ? ' with its volumes' : '; its volumes were kept'}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to delete database ${uuid}`);
+    }
+  }
+
+  /**
+   * List the scheduled backups of a database
+   */
+  async listDatabaseBackups(uuid: string): Promise<ToolResponse<CoolifyScheduledBackup[]>> {
+    try {
+      const response = await this.client.get(`/api/v1/databases/${uuid}/backups`);
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to list backups of database ${uuid}`);
+    }
+  }
+
+  /**
+   * Create a scheduled backup for a database
+   */
+  async createDatabaseBackup(uuid: string, settings: CoolifyBackupSettings): Promise<ToolResponse<{ uuid: string }>> {
+    try {
+      const response = await this.client.post(`/api/v1/databases/${uuid}/backups`, settings);
+      return {
+        success: true,
+        data: response.data,
+        message: `Scheduled backup created for database ${uuid}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to create a scheduled backup for database ${uuid}`);
+    }
+  }
+
+  /**
+   * Update a scheduled backup; backup_now also runs it right away
+   */
+  async updateDatabaseBackup(
+    uuid: string,
+    backupUuid: string,
+    settings: CoolifyBackupSettings
+  ): Promise<ToolResponse<void>> {
+    try {
+      await this.client.patch(`/api/v1/databases/${uuid}/backups/${backupUuid}`, settings);
+      return {
+        success: true,
+        message: `Scheduled backup ${backupUuid} updated`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to update scheduled backup ${backupUuid}`);
+    }
+  }
+
+  /**
+   * List the executions of a scheduled backup, newest first
+   */
+  async listBackupExecutions(uuid: string, backupUuid: string): Promise<ToolResponse<CoolifyBackupExecution[]>> {
+    try {
+      const response = await this.client.get(`/api/v1/databases/${uuid}/backups/${backupUuid}/executions`);
+      return {
+        success: true,
+        data: response.data?.executions ?? response.data,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to list executions of scheduled backup ${backupUuid}`);
+    }
+  }
+
+  /**
+   * List all projects
+   */
+  async listProjects(): Promise<ToolResponse<CoolifyProject[]>> {
+    try {
+      const response = await this.client.get('/api/v1/projects');
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to list projects');
+    }
+  }
+
+  /**
+   * Get project by UUID, with its environments
+   */
+  async getProject(uuid: string): Promise<ToolResponse<CoolifyProject>> {
+    try {
+      const response = await this.client.get(`/api/v1/projects/${uuid}`);
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to get project ${uuid}`);
+    }
+  }
+
+  /**
+   * Create a project; Coolify adds a production environment to it
+   */
+  async createProject(name: string, description?: string): Promise<ToolResponse<{ uuid: string }>> {
+    try {
+      const response = await this.client.post('/api/v1/projects', { name, description });
+      return {
+        success: true,
+        data: response.data,
+        message: `Project ${name} created`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to create project ${name}`);
+    }
+  }
+
+  /**
+   * List the environments of a project
+   */
+  async listEnvironments(projectUuid: string): Promise<ToolResponse<CoolifyEnvironment[]>> {
+    try {
+      const response = await this.client.get(`/api/v1/projects/${projectUuid}/environments`);
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to list environments of project ${projectUuid}`);
+    }
+  }
+
+  /**
+   * Get an environment by name or UUID, with the resources it contains
+   */
+  async getEnvironment(projectUuid: string, environment: string): Promise<ToolResponse<CoolifyEnvironment>> {
+    try {
+      const response = await this.client.get(
+        `/api/v1/projects/${projectUuid}/${encodeURIComponent(environment)}`
+      );
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to get environment ${environment} of project ${projectUuid}`);
+    }
+  }
+
+  /**
+   * Create an environment in a project
+   */
+  async createEnvironment(projectUuid: string, name: string): Promise<ToolResponse<{ uuid: string }>> {
+    try {
+      const response = await this.client.post(`/api/v1/projects/${projectUuid}/environments`, { name });
+      return {
+        success: true,
+        data: response.data,
+        message: `Environment ${name} created in project ${projectUuid}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to create environment ${name} in project ${projectUuid}`);
+    }
+  }
+
+  /**
+   * List all servers
+   */
+  async listServers(): Promise<ToolResponse<CoolifyServer[]>> {
+    try {
+      const response = await this.client.get('/api/v1/servers');
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to list servers');
+    }
+  }
+
+  /**
+   * Get server by UUID
+   */
+  async getServer(uuid: string): Promise<ToolResponse<CoolifyServer>> {
+    try {
+      const response = await this.client.get(`/api/v1/servers/${uuid}`);
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to get server ${uuid}`);
+    }
+  }
+
+  /**
+   * List the applications, services and databases running on a server
+   */
+  async listServerResources(uuid: string): Promise<ToolResponse<CoolifyServerResource[]>> {
+    try {
+      const response = await this.client.get(`/api/v1/servers/${uuid}/resources`);
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to list resources of server ${uuid}`);
+    }
+  }
+
+  /**
+   * Start validating a server; the outcome lands in is_reachable, is_usable and validation_logs
+   */
+  async validateServer(uuid: string): Promise<ToolResponse<void>> {
+    try {
+      await this.client.get(`/api/v1/servers/${uuid}/validate`);
+      return {
+        success: true,
+        message: `Validation started for server ${uuid}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to validate server ${uuid}`);
+    }
+  }
+
   /**
    * List all services
    */
@@ -207,14 +669,90 @@ export class CoolifyClient {
     }
   }
 
+  /**
+   * Create a service from a docker-compose definition
+   */
+  async createService(input: CreateCoolifyServiceInput): Promise<ToolResponse<{ uuid: string; domains?: string[] }>> {
+    try {
+      const response = await this.client.post('/api/v1/services', {
+        name: input.name,
+        description: input.description,
+        project_uuid: input.project_uuid,
+        server_uuid: input.server_uuid,
+        environment_name: input.environment_name,
+        environment_uuid: input.environment_uuid,
+        destination_uuid: input.destination_uuid,
+        docker_compose_raw: Buffer.from(input.docker_compose).toString('base64'),
+        instant_deploy: input.instant_deploy ?? false,
+      });
+      return {
+        success: true,
+        data: response.data,
+        message: 'Service created successfully',
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to create service');
+    }
+  }
+
+  /**
+   * Replace the docker-compose definition of a service; it applies on the next start or restart
+   */
+  async updateServiceCompose(uuid: string, dockerCompose: string): Promise<ToolResponse<void>> {
+    try {
+      await this.client.patch(`/api/v1/services/${uuid}`, {
+        docker_compose_raw: Buffer.from(dockerCompose).toString('base64'),
+      });
+      return {
+        success: true,
+        message: `Service ${uuid} updated`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to update service ${uuid}`);
+    }
+  }
+
+  /**
+   * List service environment variables
+   */
+  async listServiceEnvs(uuid: string): Promise<ToolResponse<CoolifyEnvVar[]>> {
+    try {
+      const response = await this.client.get(`/api/v1/services/${uuid}/envs`);
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to list environment variables for service ${uuid}`);
+    }
+  }
+
+  /**
+   * Create or update service environment variables
+   */
+  async updateServiceEnv(uuid: string, env: Record<string, string>): Promise<ToolResponse<void>> {
+    try {
+      await this.client.patch(`/api/v1/services/${uuid}/envs/bulk`, {
+        data: Object.entries(env).map(([key, value]) => ({ key, value, is_preview: false })),
+      });
+      return {
+        success: true,
+        message: 'Environment variables updated successfully',
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to update environment variables for service ${uuid}`);
+    }
+  }
+
   /**
    * Start a service
    */
-  async startService(uuid: string): Promise<ToolResponse<void>> {
+  async startService(uuid: string): Promise<ToolResponse<{ deployment_uuid?: string }>> {
     try {
-      await this.client.post(`/api/v1/services/${uuid}/start`);
+      const response = await this.client.post(`/api/v1/services/${uuid}/start`);
       return {
         success: true,
+        data: { deployment_uuid: response.data?.deployment_uuid },
         message: `Service ${uuid} started`,
       };
     } catch (error) {
@@ -222,6 +760,22 @@ export class CoolifyClient {
     }
   }
 
+  /**
+   * Restart a service, recreating its containers from the current compose definition
+   */
+  async restartService(uuid: string): Promise<ToolResponse<{ deployment_uuid?: string }>> {
+    try {
+      const response = await this.client.post(`/api/v1/services/${uuid}/restart`);
+      return {
+        success: true,
+        data: { deployment_uuid: response.data?.deployment_uuid },
+        message: `Service ${uuid} restarted`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to restart service ${uuid}`);
+    }
+  }
+
   /**
    * Stop a service
    */
@@ -237,6 +791,77 @@ export class CoolifyClient {
     }
   }
 
+  /**
+   * Get a deployment by UUID
+   */
+  async getDeployment(uuid: string): Promise<ToolResponse<CoolifyDeployment>> {
+    try {
+      const response = await this.client.get(`/api/v1/deployments/${uuid}`);
+      return {
+        success: true,
+        data: response.data,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to get deployment ${uuid}`);
+    }
+  }
+
+  /**
+   * List the deployments of an application, newest first
+   */
+  async listApplicationDeployments(
+    uuid: string,
+    skip: number = 0,
+    take: number = 20
+  ): Promise<ToolResponse<{ count: number; deployments: CoolifyDeployment[] }>> {
+    try {
+      const response = await this.client.get(`/api/v1/deployments/applications/${uuid}`, {
+        params: { skip, take },
+      });
+      return {
+        success: true,
+        data: {
+          count: response.data?.count ?? 0,
+          deployments: response.data?.deployments ?? [],
+        },
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to list deployments for application ${uuid}`);
+    }
+  }
+
+  /**
+   * Cancel a queued or running deployment
+   */
+  async cancelDeployment(uuid: string): Promise<ToolResponse<void>> {
+    try {
+      await this.client.post(`/api/v1/deployments/${uuid}/cancel`);
+      return {
+        success: true,
+        message: `Deployment ${uuid} cancelled`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to cancel deployment ${uuid}`);
+    }
+  }
+
+  /**
+   * Get the container logs of a service
+   */
+  async getServiceLogs(uuid: string, lines: number = 100): Promise<ToolResponse<string>> {
+    try {
+      const response = await this.client.get(`/api/v1/services/${uuid}/logs`, {
+        params: { lines },
+      });
+      return {
+        success: true,
+        data: typeof response.data === 'string' ? response.data : response.data?.logs ?? '',
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to get logs for service ${uuid}`);
+    }
+  }
+
   /**
    * Get application logs
    */
@@ -247,13 +872,34 @@ export class CoolifyClient {
       });
       return {
         success: true,
-        data: response.data,
+        data: typeof response.data === 'string' ? response.data : response.data?.logs ?? '',
       };
     } catch (error) {
       return this.handleError(error, `Failed to get logs for application ${uuid}`);
     }
   }
 
+  /**
+   * Check once that the API token belongs to the configured team
+   */
+  private verifyTeam(): Promise<void> {
+    if (!this.teamCheck) {
+      this.teamCheck = this.client.get(CURRENT_TEAM_PATH).then((response) => {
+        const team = response.data as CoolifyTeam;
+        if (String(team?.id) !== this.config.teamId) {
+          throw new Error(
+            `API token belongs to team ${team?.id} (${team?.name}), not COOLIFY_TEAM_ID ${this.config.teamId}`
+          );
+        }
+      });
+      // Retry on the next request after network errors; a team mismatch fails the same way again
+      this.teamCheck.catch(() => {
+        this.teamCheck = undefined;
+      });
+    }
+    return this.teamCheck;
+  }
+
   /**
    * Handle errors uniformly
    */
@@ -271,3 +917,19 @@ export class CoolifyClient {
   }
 }
 
+/**
+ * Extract the visible output lines of a deployment's JSON-encoded build log
+ */
+export function parseDeploymentLogs(logs?: string | null): string[] {
+  if (!logs) {
+    return [];
+  }
+  try {
+    const entries = JSON.parse(logs) as { output?: string; hidden?: boolean }[];
+    return entries
+      .filter((entry) => !entry.hidden && entry.output)
+      .flatMap((entry) => entry.output!.split('\n'));
+  } catch {
+    return logs.split('\n');
+  }
+}
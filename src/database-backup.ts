@@ -0,0 +1,394 @@
+/**
+ * Coolify scheduled backups of the Supabase Postgres, with restore tooling
+ * Configures and triggers backups through the Coolify API and restores a
+ * chosen execution into the same or a new database with pg_restore or psql
+ */
+
+import { stat } from 'fs/promises';
+import pg from 'pg';
+import { CoolifyClient } from './coolify-client.js';
+import { SupabaseManager } from './supabase-client.js';
+import { databaseErrorResponse, databaseUnavailable } from './database.js';
+import { restoreDumpFile } from './database-dump.js';
+import type {
+  BackupExecutionSummary,
+  CoolifyBackupSettings,
+  CoolifyScheduledBackup,
+  DumpRestoreResult,
+  ToolContext,
+  ToolResponse,
+} from './types.js';
+
+export interface TriggerBackupOptions {
+  backupUuid?: string;
+  /**
+   * Wait for the execution to finish instead of returning once it is queued
+   */
+  wait?: boolean;
+  timeoutSeconds?: number;
+  context?: ToolContext;
+}
+
+export interface RestoreBackupOptions {
+  backupUuid?: string;
+  executionUuid: string;
+  /**
+   * Local copy of the execution's dump file; Coolify keeps backups on the server or in S3
+   */
+  filePath: string;
+  target: 'same' | 'new';
+  newDatabaseName?: string;
+  /**
+   * Back up the current database before restoring over it
+   */
+  backupFirst?: boolean;
+  context?: ToolContext;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+export class DatabaseBackups {
+  constructor(
+    private coolify: CoolifyClient,
+    private supabase: SupabaseManager,
+    private defaultDatabaseUuid?: string
+  ) {}
+
+  /**
+   * Create the database's scheduled backup, or update it when one exists
+   */
+  async configure(
+    databaseUuid: string | undefined,
+    settings: CoolifyBackupSettings,
+    backupUuid?: string
+  ): Promise<ToolResponse<{ uuid: string; created: boolean }>> {
+    const database = this.resolveDatabase(databaseUuid);
+    if (!database) {
+      return this.databaseUuidMissing();
+    }
+
+    const existing = await this.coolify.listDatabaseBackups(database);
+    if (!existing.success || !existing.data) {
+      return { success: false, error: existing.error };
+    }
+    if (!backupUuid && existing.data.length > 1) {
+      return {
+        success: false,
+        error: `Database ${database} has ${existing.data.length} scheduled backups; pass backup_uuid to pick one`,
+      };
+    }
+
+    const schedule = backupUuid
+      ? existing.data.find((candidate) => candidate.uuid === backupUuid)
+      : existing.data[0];
+    if (backupUuid && !schedule) {
+      return { success: false, error: `Scheduled backup ${backupUuid} not found on database ${database}` };
+    }
+
+    if (schedule) {
+      const result = await this.coolify.updateDatabaseBackup(database, schedule.uuid, settings);
+      return result.success
+        ? { success: true, data: { uuid: schedule.uuid, created: false }, message: result.message }
+        : { success: false, error: result.error };
+    }
+
+    const result = await this.coolify.createDatabaseBackup(database, settings);
+    return result.success && result.data
+      ? { success: true, data: { uuid: result.data.uuid, created: true }, message: result.message }
+      : { success: false, error: result.error };
+  }
+
+  /**
+   * List the scheduled backups of a database with their latest execution
+   */
+  async list(
+    databaseUuid?: string
+  ): Promise<ToolResponse<(Omit<CoolifyScheduledBackup, 'executions'> & { last_execution?: BackupExecutionSummary })[]>> {
+    const database = this.resolveDatabase(databaseUuid);
+    if (!database) {
+      return this.databaseUuidMissing();
+    }
+
+    const result = await this.coolify.listDatabaseBackups(database);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return {
+      success: true,
+      data: result.data.map(({ executions, ...schedule }) => ({
+        ...schedule,
+        last_execution: executions?.[0]
+          ? { ...executions[0], database_uuid: database, backup_uuid: schedule.uuid }
+          : undefined,
+      })),
+    };
+  }
+
+  /**
+   * List backup executions newest first, across all scheduled backups unless one is given
+   */
+  async listExecutions(
+    databaseUuid?: string,
+    backupUuid?: string,
+    limit: number = 20
+  ): Promise<ToolResponse<BackupExecutionSummary[]>> {
+    const database = this.resolveDatabase(databaseUuid);
+    if (!database) {
+      return this.databaseUuidMissing();
+    }
+
+    let scheduleUuids = backupUuid ? [backupUuid] : [];
+    if (!backupUuid) {
+      const schedules = await this.coolify.listDatabaseBackups(database);
+      if (!schedules.success || !schedules.data) {
+        return { success: false, error: schedules.error };
+      }
+      scheduleUuids = schedules.data.map((schedule) => schedule.uuid);
+    }
+
+    const executions: BackupExecutionSummary[] = [];
+    for (const scheduleUuid of scheduleUuids) {
+      const result = await this.coolify.listBackupExecutions(database, scheduleUuid);
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error };
+      }
+      executions.push(
+        ...result.data.map((execution) => ({ ...execution, database_uuid: database, backup_uuid: scheduleUuid }))
+      );
+    }
+
+    executions.sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''));
+    return {
+      success: true,
+      data: executions.slice(0, limit),
+    };
+  }
+
+  /**
+   * Run a scheduled backup now and, by default, wait for its execution to finish
+   */
+  async trigger(
+    databaseUuid: string | undefined,
+    options: TriggerBackupOptions = {}
+  ): Promise<ToolResponse<BackupExecutionSummary>> {
+    const database = this.resolveDatabase(databaseUuid);
+    if (!database) {
+      return this.databaseUuidMissing();
+    }
+
+    const schedule = await this.resolveSchedule(database, options.backupUuid);
+    if (!schedule.success || !schedule.data) {
+      return { success: false, error: schedule.error };
+    }
+    const backupUuid = schedule.data.uuid;
+
+    const before = await this.coolify.listBackupExecutions(database, backupUuid);
+    if (!before.success || !before.data) {
+      return { success: false, error: before.error };
+    }
+    const known = new Set(before.data.map((execution) => execution.uuid));
+
+    const started = await this.coolify.updateDatabaseBackup(database, backupUuid, { backup_now: true });
+    if (!started.success) {
+      return { success: false, error: started.error };
+    }
+    if (options.wait === false) {
+      return {
+        success: true,
+        message: `Backup ${backupUuid} of database ${database} started`,
+      };
+    }
+
+    const deadline = Date.now() + (options.timeoutSeconds ?? 900) * 1000;
+    let polls = 0;
+    for (;;) {
+      await sleep(POLL_INTERVAL_MS);
+      const current = await this.coolify.listBackupExecutions(database, backupUuid);
+      const execution = current.data?.find((candidate) => !known.has(candidate.uuid));
+
+      if (execution && execution.status !== 'running') {
+        const summary = { ...execution, database_uuid: database, backup_uuid: backupUuid };
+        return execution.status === 'success'
+          ? { success: true, data: summary, message: `Backup ${execution.filename || execution.uuid} finished` }
+          : { success: false, data: summary, error: `Backup failed: ${execution.message || execution.status}` };
+      }
+      if (Date.now() + POLL_INTERVAL_MS > deadline) {
+        return {
+          success: false,
+          error: `Timed out waiting for backup ${backupUuid} (${execution ? execution.status : 'not started'})`,
+        };
+      }
+      await options.context?.reportProgress(++polls, undefined, `Backup ${execution ? execution.status : 'queued'}`);
+    }
+  }
+
+  /**
+   * Take a backup ahead of a destructive operation; fails when no backup could be taken
+   */
+  async backupBeforeChange(
+    databaseUuid: string | undefined,
+    operation: string,
+    context?: ToolContext
+  ): Promise<ToolResponse<BackupExecutionSummary>> {
+    await context?.reportProgress(0, undefined, `Backing up before ${operation}`);
+    const result = await this.trigger(databaseUuid, { context });
+    return result.success
+      ? result
+      : { ...result, error: `Refusing to run ${operation} without a backup: ${result.error}` };
+  }
+
+  /**
+   * Restore a backup execution into the configured database or a new database next to it
+   */
+  async restore(databaseUuid: string | undefined, options: RestoreBackupOptions): Promise<ToolResponse<DumpRestoreResult>> {
+    const connection = this.supabase.databaseConfig;
+    const db = this.supabase.database;
+    if (!connection || !db) {
+      return databaseUnavailable('Backup restore');
+    }
+    const database = this.resolveDatabase(databaseUuid);
+    if (!database) {
+      return this.databaseUuidMissing();
+    }
+
+    const schedule = await this.resolveSchedule(database, options.backupUuid);
+    if (!schedule.success || !schedule.data) {
+      return { success: false, error: schedule.error };
+    }
+    const executions = await this.coolify.listBackupExecutions(database, schedule.data.uuid);
+    const execution = executions.data?.find((candidate) => candidate.uuid === options.executionUuid);
+    if (!execution) {
+      return {
+        success: false,
+        error: executions.error || `Backup execution ${options.executionUuid} not found`,
+      };
+    }
+    if (execution.status !== 'success') {
+      return { success: false, error: `Backup execution ${execution.uuid} is ${execution.status}, not success` };
+    }
+
+    // The size recorded by Coolify guards against restoring the wrong or a truncated file
+    let fileSize: number;
+    try {
+      fileSize = (await stat(options.filePath)).size;
+    } catch {
+      return { success: false, error: `Dump file ${options.filePath} does not exist` };
+    }
+    if (execution.size && execution.size !== fileSize) {
+      return {
+        success: false,
+        error: `Dump file is ${fileSize} bytes but execution ${execution.uuid} (${execution.filename}) recorded ${execution.size}`,
+      };
+    }
+
+    const started = Date.now();
+    const context = sequentialProgress(options.context);
+    let preRestoreBackup: BackupExecutionSummary | undefined;
+    if (options.target === 'same' && options.backupFirst !== false) {
+      const backup = await this.backupBeforeChange(database, 'the restore', context);
+      if (!backup.success) {
+        return { success: false, error: backup.error };
+      }
+      preRestoreBackup = backup.data;
+    }
+
+    const targetDatabase = options.target === 'new' ? options.newDatabaseName! : connection.database;
+    if (options.target === 'new') {
+      try {
+        const exists = await db.rows('SELECT 1 FROM pg_database WHERE datname = $1', [targetDatabase]);
+        if (exists.length > 0) {
+          return { success: false, error: `Database ${targetDatabase} already exists` };
+        }
+        await db.query(`CREATE DATABASE ${pg.escapeIdentifier(targetDatabase)}`);
+      } catch (error) {
+        return databaseErrorResponse(error, `Failed to create database ${targetDatabase}`);
+      }
+    }
+
+    await context?.reportProgress(1, undefined, `Restoring ${execution.filename || execution.uuid} into ${targetDatabase}`);
+    try {
+      const restored = await restoreDumpFile({ ...connection, database: targetDatabase }, options.filePath, {
+        clean: options.target === 'same',
+        singleTransaction: true,
+      });
+      await context?.reportProgress(2, undefined, 'Restore finished');
+
+      return {
+        success: true,
+        data: {
+          file_path: options.filePath,
+          format: restored.format,
+          target_database: targetDatabase,
+          created_database: options.target === 'new',
+          duration_ms: Date.now() - started,
+          output: restored.output,
+          pre_restore_backup: preRestoreBackup,
+        },
+        message: `Restored ${execution.filename || execution.uuid} into ${targetDatabase}`,
+      };
+    } catch (error) {
+      // A new database only holds the failed restore, so it is removed again
+      if (options.target === 'new') {
+        await db.query(`DROP DATABASE IF EXISTS ${pg.escapeIdentifier(targetDatabase)}`).catch(() => undefined);
+      }
+      const backupNote = preRestoreBackup ? `; the backup taken first is ${preRestoreBackup.filename || preRestoreBackup.uuid}` : '';
+      return {
+        success: false,
+        error: `Restore failed: ${error instanceof Error ? error.message : 'Unknown error'}${backupNote}`,
+      };
+    }
+  }
+
+  private resolveDatabase(databaseUuid?: string): string | undefined {
+    return databaseUuid || this.defaultDatabaseUuid;
+  }
+
+  private databaseUuidMissing(): ToolResponse<never> {
+    return {
+      success: false,
+      error: 'No Coolify database given; pass database_uuid or set COOLIFY_SUPABASE_DB_UUID',
+    };
+  }
+
+  /**
+   * Pick the given scheduled backup, or the database's only one
+   */
+  private async resolveSchedule(database: string, backupUuid?: string): Promise<ToolResponse<CoolifyScheduledBackup>> {
+    const schedules = await this.coolify.listDatabaseBackups(database);
+    if (!schedules.success || !schedules.data) {
+      return { success: false, error: schedules.error };
+    }
+
+    const schedule = backupUuid
+      ? schedules.data.find((candidate) => candidate.uuid === backupUuid)
+      : schedules.data.length === 1
+        ? schedules.data[0]
+        : undefined;
+    if (schedule) {
+      return { success: true, data: schedule };
+    }
+    return {
+      success: false,
+      error: backupUuid
+        ? `Scheduled backup ${backupUuid} not found on database ${database}`
+        : schedules.data.length === 0
+          ? `Database ${database} has no scheduled backup; create one with configure_database_backup`
+          : `Database ${database} has ${schedules.data.length} scheduled backups; pass backup_uuid to pick one`,
+    };
+  }
+}
+
+/**
+ * A context whose notifications count up one by one, whatever progress the caller
+ * reports, so a backup followed by a restore never goes backwards
+ */
+function sequentialProgress(context?: ToolContext): ToolContext | undefined {
+  let progress = 0;
+  return context && {
+    reportProgress: (_progress, _total, message) => context.reportProgress(++progress, undefined, message),
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
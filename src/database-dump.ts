@@ -0,0 +1,406 @@
+/**
+ * Logical dumps and restores through the pg_dump, pg_restore and psql binaries
+ * Custom-format archives go through pg_restore, plain and gzipped SQL scripts through psql
+ */
+
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import { createReadStream, existsSync } from 'fs';
+import { mkdir, open, stat } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { createGunzip } from 'zlib';
+import { Readable } from 'stream';
+import { APPLICATION_NAME } from './database.js';
+import type { SupabaseDatabaseConfig, DumpSummary, ToolResponse } from './types.js';
+
+// Schemas owned by Supabase services; they are recreated by the services themselves
+export const SUPABASE_MANAGED_SCHEMAS = ['auth', 'storage', 'realtime'];
+
+export interface DumpOptions {
+  outputPath: string;
+  /**
+   * pg_dump, or the Supabase CLI's db dump which writes plain SQL
+   */
+  engine?: 'pg_dump' | 'supabase';
+  format?: 'custom' | 'plain';
+  schemaOnly?: boolean;
+  dataOnly?: boolean;
+  schemas?: string[];
+  excludeSchemas?: string[];
+  tables?: string[];
+  excludeTables?: string[];
+  /**
+   * Keep auth, storage and realtime in the dump
+   */
+  includeManagedSchemas?: boolean;
+  overwrite?: boolean;
+  databaseUrl?: string;
+  timeoutMs?: number;
+}
+
+export interface DumpRestoreOptions extends RestoreOptions {
+  filePath: string;
+  /**
+   * Refuse to restore unless the file has this SHA-256 checksum
+   */
+  expectedSha256?: string;
+  databaseUrl?: string;
+}
+
+export interface RestoreOptions {
+  /**
+   * Drop existing objects before recreating them (custom-format archives only)
+   */
+  clean?: boolean;
+  /**
+   * Restore in one transaction, so a failure leaves the database untouched
+   */
+  singleTransaction?: boolean;
+  // Archive filters, supported by pg_restore only
+  schemaOnly?: boolean;
+  dataOnly?: boolean;
+  schemas?: string[];
+  tables?: string[];
+  timeoutMs?: number;
+}
+
+export interface DumpFormat {
+  format: 'custom' | 'sql';
+  gzipped: boolean;
+}
+
+// Output lines kept from the client binaries
+const OUTPUT_LINES = 200;
+const DEFAULT_TIMEOUT_MS = 60 * 60 * 1000;
+
+/**
+ * Tell custom-format archives from plain and gzipped SQL by their first bytes
+ */
+export async function detectDumpFormat(filePath: string): Promise<DumpFormat> {
+  const handle = await open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(5);
+    await handle.read(header, 0, 5, 0);
+    if (header.toString('latin1') === 'PGDMP') {
+      return { format: 'custom', gzipped: false };
+    }
+    return { format: 'sql', gzipped: header[0] === 0x1f && header[1] === 0x8b };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Restore a dump file into a database and return the client's warnings and errors
+ */
+export async function restoreDumpFile(
+  connection: SupabaseDatabaseConfig,
+  filePath: string,
+  options: RestoreOptions = {}
+): Promise<{ format: DumpFormat['format']; output: string[] }> {
+  const { format, gzipped } = await detectDumpFormat(filePath);
+  const target = connectionArgs(connection);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  if (format === 'custom') {
+    const output = await runClient(
+      'pg_restore',
+      [
+        ...target,
+        '--no-owner',
+        '--no-acl',
+        '--exit-on-error',
+        ...(options.clean ? ['--clean', '--if-exists'] : []),
+        ...(options.singleTransaction ? ['--single-transaction'] : []),
+        ...(options.schemaOnly ? ['--schema-only'] : []),
+        ...(options.dataOnly ? ['--data-only'] : []),
+        ...(options.schemas || []).map((schema) => `--schema=${schema}`),
+        ...(options.tables || []).map((table) => `--table=${table}`),
+        filePath,
+      ],
+      connection.password,
+      timeoutMs
+    );
+    return { format, output };
+  }
+
+  if (options.schemaOnly || options.dataOnly || options.schemas?.length || options.tables?.length) {
+    throw new Error('Schema, table and schema-only/data-only filters need a custom-format archive; SQL scripts restore as a whole');
+  }
+
+  const script = gzipped ? createReadStream(filePath).pipe(createGunzip()) : createReadStream(filePath);
+  const output = await runClient(
+    'psql',
+    [
+      ...target,
+      '--no-psqlrc',
+      '--quiet',
+      '--set',
+      'ON_ERROR_STOP=1',
+      ...(options.singleTransaction ? ['--single-transaction'] : []),
+    ],
+    connection.password,
+    timeoutMs,
+    script
+  );
+  return { format, output };
+}
+
+export class DatabaseDumps {
+  constructor(
+    private config?: SupabaseDatabaseConfig,
+    private databaseUrl?: string
+  ) {}
+
+  /**
+   * Dump the database to a local file and report its size and checksum
+   */
+  async dump(options: DumpOptions): Promise<ToolResponse<DumpSummary>> {
+    const connection = this.connection(options.databaseUrl);
+    if (!connection) {
+      return { success: false, error: `Database dumps need SUPABASE_DB_HOST and related SUPABASE_DB_* variables, SUPABASE_DB_URL or a database_url` };
+    }
+
+    const outputPath = resolve(options.outputPath);
+    if (existsSync(outputPath) && !options.overwrite) {
+      return { success: false, error: `${outputPath} already exists; pass overwrite to replace it` };
+    }
+
+    const engine = options.engine || 'pg_dump';
+    const format = engine === 'supabase' ? 'plain' : options.format || 'custom';
+    // supabase db dump writes the schema by default, so schema_only needs no flag
+    if (engine === 'supabase' && (options.tables?.length || options.excludeSchemas?.length)) {
+      return {
+        success: false,
+        error: 'supabase db dump cannot filter tables or exclude schemas; use the pg_dump engine',
+      };
+    }
+
+    // Schemas asked for by name are dumped even when they are managed by Supabase
+    const excludeSchemas = [
+      ...(options.excludeSchemas || []),
+      ...(options.includeManagedSchemas
+        ? []
+        : SUPABASE_MANAGED_SCHEMAS.filter((schema) => !options.schemas?.includes(schema))),
+    ];
+
+    const started = Date.now();
+    try {
+      await mkdir(dirname(outputPath), { recursive: true });
+      const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+      const output = engine === 'supabase'
+        ? await runClient(
+          'supabase',
+          [
+            'db', 'dump',
+            '--db-url', connectionUrl(connection),
+            '--file', outputPath,
+            ...(options.dataOnly ? ['--data-only'] : []),
+            ...(options.schemas?.length ? ['--schema', options.schemas.join(',')] : []),
+            ...(options.excludeTables || []).flatMap((table) => ['--exclude', table]),
+          ],
+          connection.password,
+          timeoutMs
+        )
+        : await runClient(
+          'pg_dump',
+          [
+            ...connectionArgs(connection),
+            '--format', format,
+            '--file', outputPath,
+            '--no-owner',
+            ...(options.schemaOnly ? ['--schema-only'] : []),
+            ...(options.dataOnly ? ['--data-only'] : []),
+            ...(options.schemas || []).map((schema) => `--schema=${schema}`),
+            ...excludeSchemas.map((schema) => `--exclude-schema=${schema}`),
+            ...(options.tables || []).map((table) => `--table=${table}`),
+            ...(options.excludeTables || []).map((table) => `--exclude-table=${table}`),
+          ],
+          connection.password,
+          timeoutMs
+        );
+
+      return {
+        success: true,
+        data: {
+          file_path: outputPath,
+          engine,
+          format,
+          database: connection.database,
+          size_bytes: (await stat(outputPath)).size,
+          sha256: await fileChecksum(outputPath),
+          duration_ms: Date.now() - started,
+          excluded_schemas: engine === 'pg_dump' ? excludeSchemas : [],
+          output,
+        },
+        message: `Dumped ${connection.database} to ${outputPath}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Dump failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Restore a dump file into the configured database or the one given by URL
+   */
+  async restore(options: DumpRestoreOptions): Promise<ToolResponse<DumpSummary>> {
+    const connection = this.connection(options.databaseUrl);
+    if (!connection) {
+      return { success: false, error: `Database restores need SUPABASE_DB_HOST and related SUPABASE_DB_* variables, SUPABASE_DB_URL or a database_url` };
+    }
+
+    const filePath = resolve(options.filePath);
+    const started = Date.now();
+    try {
+      const sizeBytes = (await stat(filePath)).size;
+      const sha256 = await fileChecksum(filePath);
+      if (options.expectedSha256 && options.expectedSha256.toLowerCase() !== sha256) {
+        return {
+          success: false,
+          error: `Checksum mismatch: ${filePath} has sha256 ${sha256}, expected ${options.expectedSha256}`,
+        };
+      }
+
+      const restored = await restoreDumpFile(connection, filePath, options);
+      return {
+        success: true,
+        data: {
+          file_path: filePath,
+          engine: restored.format === 'custom' ? 'pg_restore' : 'psql',
+          format: restored.format === 'custom' ? 'custom' : 'plain',
+          database: connection.database,
+          size_bytes: sizeBytes,
+          sha256,
+          duration_ms: Date.now() - started,
+          output: restored.output,
+        },
+        message: `Restored ${filePath} into ${connection.database}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * A URL given with the call wins over SupabaseDatabaseConfig, which wins over SUPABASE_DB_URL
+   */
+  private connection(databaseUrl?: string): SupabaseDatabaseConfig | undefined {
+    if (databaseUrl) {
+      return parseDatabaseUrl(databaseUrl);
+    }
+    return this.config || (this.databaseUrl ? parseDatabaseUrl(this.databaseUrl) : undefined);
+  }
+}
+
+/**
+ * Split a postgres:// URL into connection settings
+ */
+export function parseDatabaseUrl(url: string): SupabaseDatabaseConfig {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'postgres:' && parsed.protocol !== 'postgresql:') {
+    throw new Error(`Not a Postgres URL: ${parsed.protocol}`);
+  }
+  return {
+    host: decodeURIComponent(parsed.hostname),
+    port: parsed.port ? parseInt(parsed.port) : 5432,
+    database: decodeURIComponent(parsed.pathname.replace(/^\//, '')) || 'postgres',
+    user: decodeURIComponent(parsed.username) || 'postgres',
+    password: decodeURIComponent(parsed.password),
+  };
+}
+
+function connectionUrl(connection: SupabaseDatabaseConfig): string {
+  const credentials = `${encodeURIComponent(connection.user)}:${encodeURIComponent(connection.password)}`;
+  return `postgresql://${credentials}@${connection.host}:${connection.port}/${encodeURIComponent(connection.database)}`;
+}
+
+/**
+ * SHA-256 of a file, streamed so large dumps are not read into memory
+ */
+export function fileChecksum(filePath: string): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('error', reject)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolvePromise(hash.digest('hex')));
+  });
+}
+
+/**
+ * Connection flags shared by the Postgres client binaries; the password goes through PGPASSWORD
+ */
+export function connectionArgs(connection: SupabaseDatabaseConfig): string[] {
+  return [
+    '--host', connection.host,
+    '--port', String(connection.port),
+    '--username', connection.user,
+    '--dbname', connection.database,
+  ];
+}
+
+/**
+ * Run a Postgres client binary, resolving with its stderr lines and rejecting on a non-zero exit
+ */
+export function runClient(
+  command: string,
+  args: string[],
+  password: string,
+  timeoutMs: number,
+  stdin?: Readable
+): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      env: { ...process.env, PGPASSWORD: password, PGAPPNAME: APPLICATION_NAME },
+      stdio: [stdin ? 'pipe' : 'ignore', 'ignore', 'pipe'],
+    });
+    const output: string[] = [];
+    let partial = '';
+
+    const timer = setTimeout(() => {
+      child.kill('SIGTERM');
+      reject(new Error(`${command} did not finish within ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+
+    child.stderr?.on('data', (chunk: Buffer) => {
+      const lines = (partial + chunk.toString()).split('\n');
+      partial = lines.pop() ?? '';
+      output.push(...lines.filter((line) => line.trim() !== ''));
+      output.splice(0, Math.max(0, output.length - OUTPUT_LINES));
+    });
+
+    if (stdin && child.stdin) {
+      stdin.on('error', (error) => child.stdin?.destroy(error));
+      // psql exits early on errors; the broken pipe is reported through its exit code
+      child.stdin.on('error', () => undefined);
+      stdin.pipe(child.stdin);
+    }
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(
+        error.code === 'ENOENT'
+          ? new Error(`${command} is not installed or not on PATH; install ${command === 'supabase' ? 'the Supabase CLI' : 'the PostgreSQL client tools'}`)
+          : error
+      );
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (partial.trim() !== '') {
+        output.push(partial);
+      }
+      if (code === 0) {
+        resolve(output);
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${output.slice(-10).join('\n')}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,356 @@
+/**
+ * Live database activity inspection
+ * Reads pg_stat_activity and pg_locks to explain hangs, and cancels or
+ * terminates backends with guards against hitting the wrong process
+ */
+
+import { PostgresClient, APPLICATION_NAME, databaseErrorResponse, databaseUnavailable } from './database.js';
+import type {
+  DatabaseBackend,
+  WaitingLock,
+  BlockingNode,
+  ConnectionGroup,
+  ConnectionStats,
+  ToolResponse,
+} from './types.js';
+
+export interface ActivityOptions {
+  /**
+   * Include idle connections
+   */
+  includeIdle?: boolean;
+  /**
+   * Include autovacuum, WAL and other non-client backends
+   */
+  includeSystem?: boolean;
+}
+
+const MAX_QUERY_LENGTH = 1000;
+
+// $1: include idle, $2: include non-client backends
+const ACTIVITY_SQL = `
+  SELECT pid,
+         datname AS database,
+         usename AS role,
+         application_name,
+         client_addr::text AS client_addr,
+         backend_type,
+         state,
+         wait_event_type,
+         wait_event,
+         round(EXTRACT(EPOCH FROM now() - query_start)::numeric, 1)::float8 AS query_seconds,
+         round(EXTRACT(EPOCH FROM now() - xact_start)::numeric, 1)::float8 AS transaction_seconds,
+         round(EXTRACT(EPOCH FROM now() - state_change)::numeric, 1)::float8 AS state_seconds,
+         left(query, ${MAX_QUERY_LENGTH}) AS query,
+         pg_blocking_pids(pid) AS blocked_by
+  FROM pg_stat_activity
+  WHERE pid <> pg_backend_pid()
+    AND ($1 OR state IS DISTINCT FROM 'idle')
+    AND ($2 OR backend_type = 'client backend')
+  ORDER BY query_start NULLS LAST`;
+
+const WAITING_LOCKS_SQL = `
+  SELECT pid, locktype, mode, relation::regclass::text AS relation
+  FROM pg_locks
+  WHERE NOT granted`;
+
+const CONNECTION_LIMITS_SQL = `
+  SELECT current_setting('max_connections')::int AS max_connections,
+         current_setting('superuser_reserved_connections')::int AS reserved_connections`;
+
+const CONNECTIONS_BY_SQL = (column: string) => `
+  SELECT COALESCE(NULLIF(${column}, ''), '(none)') AS name,
+         count(*)::int AS total,
+         count(*) FILTER (WHERE state = 'active')::int AS active,
+         count(*) FILTER (WHERE state = 'idle')::int AS idle,
+         count(*) FILTER (WHERE state LIKE 'idle in transaction%')::int AS idle_in_transaction
+  FROM pg_stat_activity
+  WHERE backend_type = 'client backend'
+  GROUP BY 1
+  ORDER BY total DESC`;
+
+export class DatabaseMonitor {
+  constructor(private db?: PostgresClient) {}
+
+  /**
+   * List backends with what they are running and waiting on
+   */
+  async listActivity(options: ActivityOptions = {}): Promise<ToolResponse<DatabaseBackend[]>> {
+    if (!this.db) {
+      return databaseUnavailable('Activity inspection');
+    }
+
+    try {
+      const backends = await this.db.rows<DatabaseBackend>(ACTIVITY_SQL, [
+        options.includeIdle ?? false,
+        options.includeSystem ?? false,
+      ]);
+      const waiting = backends.filter((backend) => backend.blocked_by.length > 0).length;
+
+      return {
+        success: true,
+        data: backends,
+        message: `${backends.length} backend(s)${waiting > 0 ? `, ${waiting} blocked by locks` : ''}`,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to list database activity');
+    }
+  }
+
+  /**
+   * Build trees of blocked backends rooted at the sessions holding the locks.
+   * A backend blocked by several others appears under each of them.
+   */
+  async getBlockingTree(): Promise<ToolResponse<BlockingNode[]>> {
+    if (!this.db) {
+      return databaseUnavailable('Activity inspection');
+    }
+
+    try {
+      const backends = await this.db.rows<DatabaseBackend>(ACTIVITY_SQL, [true, true]);
+      const locks = await this.db.rows<WaitingLock & { pid: number }>(WAITING_LOCKS_SQL);
+
+      const byPid = new Map(backends.map((backend) => [backend.pid, backend]));
+      const blockedBy = new Map<number, number[]>();
+      for (const backend of backends) {
+        for (const blocker of backend.blocked_by) {
+          blockedBy.set(blocker, [...(blockedBy.get(blocker) || []), backend.pid]);
+        }
+      }
+
+      const build = (pid: number, path: Set<number>): BlockingNode => ({
+        backend: byPid.get(pid) || unknownBackend(pid),
+        waiting_for: locks
+          .filter((lock) => lock.pid === pid)
+          .map(({ locktype, mode, relation }) => ({ locktype, mode, relation })),
+        // Deadlocks form cycles until the detector resolves them
+        blocking: (blockedBy.get(pid) || [])
+          .filter((child) => !path.has(child))
+          .map((child) => build(child, new Set([...path, child]))),
+      });
+
+      const roots = Array.from(blockedBy.keys()).filter((pid) => !byPid.get(pid)?.blocked_by.length);
+      const trees = roots.map((pid) => build(pid, new Set([pid])));
+
+      // Every backend in a deadlock is waiting, so a cycle has no root; one of its members stands in
+      const covered = new Set<number>();
+      const cover = (node: BlockingNode) => {
+        covered.add(node.backend.pid);
+        node.blocking.forEach(cover);
+      };
+      trees.forEach(cover);
+      let deadlocks = 0;
+      for (const pid of blockedBy.keys()) {
+        if (covered.has(pid)) continue;
+        const cycle = findCycle(pid, byPid);
+        const root = Math.min(...cycle);
+        const tree: BlockingNode = { ...build(root, new Set([root])), deadlock_cycle: cycle };
+        cover(tree);
+        trees.push(tree);
+        deadlocks++;
+      }
+
+      return {
+        success: true,
+        data: trees,
+        message: trees.length > 0
+          ? `${trees.length} blocking session(s) holding up ${countBlocked(trees)} backend(s)` +
+            (deadlocks > 0 ? `, including ${deadlocks} deadlock cycle(s)` : '')
+          : 'No backends are waiting on locks',
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to build blocking tree');
+    }
+  }
+
+  /**
+   * Queries running longer than the threshold and transactions left idle
+   */
+  async listLongRunning(minSeconds: number = 60): Promise<ToolResponse<{
+    long_running: DatabaseBackend[];
+    idle_in_transaction: DatabaseBackend[];
+  }>> {
+    if (!this.db) {
+      return databaseUnavailable('Activity inspection');
+    }
+
+    try {
+      const backends = await this.db.rows<DatabaseBackend>(ACTIVITY_SQL, [false, false]);
+      const longRunning = backends.filter(
+        (backend) => backend.state === 'active' && (backend.query_seconds ?? 0) >= minSeconds
+      );
+      // Idle transactions hold locks and block vacuum however short their last query was
+      const idleInTransaction = backends.filter(
+        (backend) => backend.state?.startsWith('idle in transaction') && (backend.state_seconds ?? 0) >= minSeconds
+      );
+
+      return {
+        success: true,
+        data: { long_running: longRunning, idle_in_transaction: idleInTransaction },
+        message: `${longRunning.length} query(ies) running and ${idleInTransaction.length} transaction(s) idle for ${minSeconds}s or more`,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to list long-running sessions');
+    }
+  }
+
+  /**
+   * Connection counts per role and application against max_connections
+   */
+  async getConnectionStats(): Promise<ToolResponse<ConnectionStats>> {
+    if (!this.db) {
+      return databaseUnavailable('Activity inspection');
+    }
+
+    try {
+      const [limits] = await this.db.rows<{ max_connections: number; reserved_connections: number }>(
+        CONNECTION_LIMITS_SQL
+      );
+      const byRole = await this.db.rows<ConnectionGroup>(CONNECTIONS_BY_SQL('usename'));
+      const byApplication = await this.db.rows<ConnectionGroup>(CONNECTIONS_BY_SQL('application_name'));
+      const roleLimits = new Map(
+        (await this.db.rows<{ name: string; limit: number }>(
+          'SELECT rolname AS name, rolconnlimit AS limit FROM pg_roles'
+        )).map((role) => [role.name, role.limit])
+      );
+
+      const total = byRole.reduce((sum, group) => sum + group.total, 0);
+      const usable = limits.max_connections - limits.reserved_connections;
+      const stats: ConnectionStats = {
+        ...limits,
+        total,
+        available: Math.max(usable - total, 0),
+        percent_used: Math.round((total / usable) * 1000) / 10,
+        by_role: byRole.map((group) => ({ ...group, limit: roleLimits.get(group.name) })),
+        by_application: byApplication,
+      };
+
+      return {
+        success: true,
+        data: stats,
+        message: `${total} of ${usable} usable connections in use (${stats.percent_used}%)` +
+                 (stats.percent_used >= 80 ? '. Consider a connection pooler or lowering pool sizes' : ''),
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to get connection statistics');
+    }
+  }
+
+  /**
+   * Cancel the running query of a backend, leaving its connection open
+   */
+  async cancelBackend(pid: number): Promise<ToolResponse<DatabaseBackend>> {
+    return this.signalBackend(pid, 'pg_cancel_backend', 'Cancelled the query of');
+  }
+
+  /**
+   * Terminate a backend, closing its connection and rolling back its transaction
+   */
+  async terminateBackend(pid: number): Promise<ToolResponse<DatabaseBackend>> {
+    return this.signalBackend(pid, 'pg_terminate_backend', 'Terminated');
+  }
+
+  /**
+   * Signal a client backend after checking it exists and is not one of this server's own connections
+   */
+  private async signalBackend(
+    pid: number,
+    fn: 'pg_cancel_backend' | 'pg_terminate_backend',
+    verb: string
+  ): Promise<ToolResponse<DatabaseBackend>> {
+    if (!this.db) {
+      return databaseUnavailable('Backend control');
+    }
+
+    try {
+      const backend = (await this.db.rows<DatabaseBackend>(ACTIVITY_SQL, [true, true]))
+        .find((candidate) => candidate.pid === pid);
+
+      if (!backend) {
+        return {
+          success: false,
+          error: `No backend with pid ${pid}`,
+        };
+      }
+      if (backend.backend_type !== 'client backend') {
+        return {
+          success: false,
+          error: `Backend ${pid} is a ${backend.backend_type} process; only client backends can be signalled`,
+          data: backend,
+        };
+      }
+      if (backend.application_name === APPLICATION_NAME) {
+        return {
+          success: false,
+          error: `Backend ${pid} is a connection of this MCP server`,
+          data: backend,
+        };
+      }
+
+      const [{ signalled }] = await this.db.rows<{ signalled: boolean }>(`SELECT ${fn}($1) AS signalled`, [pid]);
+      if (!signalled) {
+        return {
+          success: false,
+          error: `Backend ${pid} could not be signalled; it may have exited or belong to a role you cannot signal`,
+          data: backend,
+        };
+      }
+
+      return {
+        success: true,
+        data: backend,
+        message: `${verb} backend ${pid} (${backend.role || 'unknown role'}, ${backend.application_name || 'no application name'})`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to signal backend ${pid}`);
+    }
+  }
+
+  private handleError(error: unknown, message: string): ToolResponse<never> {
+    return databaseErrorResponse(error, message);
+  }
+}
+
+function unknownBackend(pid: number): DatabaseBackend {
+  return {
+    pid,
+    database: null,
+    role: null,
+    application_name: '',
+    client_addr: null,
+    backend_type: 'unknown',
+    state: null,
+    wait_event_type: null,
+    wait_event: null,
+    query_seconds: null,
+    transaction_seconds: null,
+    state_seconds: null,
+    query: '',
+    blocked_by: [],
+  };
+}
+
+/**
+ * Backends waiting on each other in a cycle, found by following blockers from a
+ * backend no root reaches. Such a backend's blockers are all unreached and waiting
+ * too, so the walk has to come back to a backend it passed.
+ */
+function findCycle(pid: number, byPid: Map<number, DatabaseBackend>): number[] {
+  const path: number[] = [];
+  let current: number | undefined = pid;
+  while (current !== undefined && !path.includes(current)) {
+    path.push(current);
+    current = byPid.get(current)?.blocked_by[0];
+  }
+  return current === undefined ? path : path.slice(path.indexOf(current));
+}
+
+function countBlocked(trees: BlockingNode[]): number {
+  const pids = new Set<number>();
+  const visit = (node: BlockingNode) => node.blocking.forEach((child) => {
+    pids.add(child.backend.pid);
+    visit(child);
+  });
+  trees.forEach(visit);
+  return pids.size;
+}
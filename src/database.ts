@@ -0,0 +1,186 @@
+/**
+ * Direct PostgreSQL access for self-hosted Supabase
+ * Wraps a pooled pg connection built from SupabaseDatabaseConfig
+ */
+
+import pg from 'pg';
+import type { FieldDef, PoolClient, QueryResult } from 'pg';
+import type {
+  SupabaseDatabaseConfig,
+  SQLColumn,
+  SQLStatementResult,
+  DatabaseErrorDetails,
+  ToolResponse,
+} from './types.js';
+
+// Reverse lookup of built-in type OIDs, used to label result columns
+const builtinTypeNames = new Map<number, string>(
+  Object.entries(pg.types.builtins).map(([name, oid]) => [oid as number, name.toLowerCase()])
+);
+
+// Identifies this server's connections in pg_stat_activity
+export const APPLICATION_NAME = 'supabase-coolify-mcp';
+
+export class PostgresClient {
+  private pool: pg.Pool;
+
+  constructor(config: SupabaseDatabaseConfig) {
+    this.pool = new pg.Pool({
+      host: config.host,
+      port: config.port,
+      database: config.database,
+      user: config.user,
+      password: config.password,
+      application_name: APPLICATION_NAME,
+      max: 5,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 10000,
+    });
+
+    // Idle clients can error when the server restarts; the pool replaces them
+    this.pool.on('error', (error) => {
+      console.error('PostgreSQL pool error:', error.message);
+    });
+  }
+
+  /**
+   * Execute SQL on a pooled connection.
+   * Without parameters the simple query protocol is used, so scripts
+   * containing several statements are accepted and yield one result each.
+   */
+  async query(sql: string, params?: unknown[]): Promise<SQLStatementResult[]> {
+    return this.withClient((client) => runQuery(client, sql, params));
+  }
+
+  /**
+   * Execute SQL and return the rows of the last statement
+   */
+  async rows<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<T[]> {
+    const results = await this.query(sql, params);
+    return (results[results.length - 1]?.rows || []) as T[];
+  }
+
+  /**
+   * Run a callback inside a transaction.
+   * Commits when the callback resolves and rolls back when it throws.
+   */
+  async transaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    return this.withClient(async (client) => {
+      await client.query('BEGIN');
+      try {
+        const result = await fn(client);
+        await client.query('COMMIT');
+        return result;
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => undefined);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Borrow a client from the pool for the duration of the callback
+   */
+  async withClient<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      return await fn(client);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Close all pooled connections
+   */
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+/**
+ * Execute SQL on an already-acquired client and normalize the results
+ */
+export async function runQuery(
+  client: PoolClient,
+  sql: string,
+  params?: unknown[]
+): Promise<SQLStatementResult[]> {
+  const raw = params && params.length > 0
+    ? await client.query(sql, params)
+    : await client.query(sql);
+
+  // pg returns an array of results for multi-statement scripts
+  const results: QueryResult[] = Array.isArray(raw) ? raw : [raw];
+  return results.map(toStatementResult);
+}
+
+/**
+ * Extract the structured fields of a PostgreSQL error, if it is one
+ */
+export function describeDatabaseError(error: unknown): DatabaseErrorDetails | undefined {
+  if (!(error instanceof pg.DatabaseError)) {
+    return undefined;
+  }
+
+  return {
+    code: error.code,
+    severity: error.severity,
+    position: error.position ? parseInt(error.position, 10) : undefined,
+    detail: error.detail,
+    hint: error.hint,
+    where: error.where,
+    schema: error.schema,
+    table: error.table,
+    column: error.column,
+    constraint: error.constraint,
+  };
+}
+
+/**
+ * Build a failed ToolResponse, keeping the SQLSTATE, position and other
+ * structured fields when the error came from PostgreSQL
+ */
+export function databaseErrorResponse(error: unknown, message: string): ToolResponse<never> {
+  const details = describeDatabaseError(error);
+  if (details) {
+    const location = details.position !== undefined ? ` at position ${details.position}` : '';
+    return {
+      success: false,
+      error: `${message}: ${(error as Error).message} (SQLSTATE ${details.code}${location})`,
+      details,
+    };
+  }
+  return {
+    success: false,
+    error: `${message}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+  };
+}
+
+/**
+ * Response for features that need SUPABASE_DB_* connection details
+ */
+export function databaseUnavailable(feature: string): ToolResponse<never> {
+  return {
+    success: false,
+    error: `${feature} requires direct database access. Configure SUPABASE_DB_HOST and related SUPABASE_DB_* variables.`,
+  };
+}
+
+function toStatementResult(result: QueryResult): SQLStatementResult {
+  return {
+    command: result.command,
+    rows: result.rows || [],
+    columns: (result.fields || []).map(toColumn),
+    row_count: result.rowCount ?? null,
+  };
+}
+
+function toColumn(field: FieldDef): SQLColumn {
+  return {
+    name: field.name,
+    data_type: builtinTypeNames.get(field.dataTypeID) || `oid:${field.dataTypeID}`,
+    data_type_id: field.dataTypeID,
+    table_id: field.tableID || undefined,
+  };
+}
@@ -0,0 +1,335 @@
+/**
+ * Wait-for-ready orchestration for deployments on Coolify
+ * Follows the Coolify deployment, waits for the containers to run and
+ * probes the deployed endpoints, reporting progress
+ */
+
+import axios from 'axios';
+import { CoolifyClient, parseDeploymentLogs } from './coolify-client.js';
+import type {
+  SupabaseComponent,
+  EndpointProbe,
+  DeploymentReadiness,
+  ApplicationReadiness,
+  ToolContext,
+} from './types.js';
+
+export interface WaitOptions {
+  /**
+   * Public URL of the API gateway
+   */
+  url: string;
+  serviceRoleKey: string;
+  dashboard?: { username: string; password: string };
+  components: SupabaseComponent[];
+  /**
+   * Coolify deployment to follow before checking the containers
+   */
+  deploymentUuid?: string;
+  timeoutSeconds?: number;
+  context?: ToolContext;
+}
+
+export interface ApplicationWaitOptions {
+  deploymentUuid?: string;
+  timeoutSeconds?: number;
+  context?: ToolContext;
+}
+
+interface ProbeDefinition {
+  component: SupabaseComponent;
+  path: string;
+  auth: 'key' | 'basic';
+}
+
+// Kong answers 502/503 until the upstream container accepts connections
+const ENDPOINT_PROBES: ProbeDefinition[] = [
+  { component: 'auth', path: '/auth/v1/health', auth: 'key' },
+  { component: 'rest', path: '/rest/v1/', auth: 'key' },
+  { component: 'realtime', path: '/realtime/v1/api/ping', auth: 'key' },
+  { component: 'storage', path: '/storage/v1/status', auth: 'key' },
+  { component: 'meta', path: '/pg/schemas', auth: 'key' },
+  { component: 'functions', path: '/functions/v1/', auth: 'key' },
+  { component: 'studio', path: '/', auth: 'basic' },
+];
+
+const FAILED_DEPLOYMENT_STATUSES = ['failed', 'cancelled-by-user', 'cancelled'];
+
+const POLL_INTERVAL_MS = 5000;
+const REQUEST_TIMEOUT_MS = 10000;
+const LOG_TAIL_LINES = 50;
+
+export class DeploymentWaiter {
+  constructor(private coolify: CoolifyClient) {}
+
+  /**
+   * Block until a Supabase service is serving every deployed component, or the timeout passes
+   */
+  async waitForService(serviceUuid: string, options: WaitOptions): Promise<DeploymentReadiness> {
+    const started = Date.now();
+    const deadline = started + (options.timeoutSeconds ?? 600) * 1000;
+    const url = options.url.replace(/\/+$/, '');
+    const probes = ENDPOINT_PROBES.filter((probe) => options.components.includes(probe.component));
+    const total = (options.deploymentUuid ? 1 : 0) + 1 + probes.length;
+    const results = new Map<SupabaseComponent, EndpointProbe>();
+    let completed = 0;
+    let notifications = 0;
+    let deploymentStatus: string | undefined;
+    let serviceStatus: string | undefined;
+
+    // Progress must increase with every notification, so polls count rather than finished stages
+    const report = (message: string) =>
+      options.context?.reportProgress(++notifications, undefined, `${message} (${completed}/${total} checks passed)`);
+    const finish = async (ready: boolean, error?: string): Promise<DeploymentReadiness> => ({
+      ready,
+      elapsed_seconds: Math.round((Date.now() - started) / 1000),
+      deployment_status: deploymentStatus,
+      service_status: serviceStatus,
+      endpoints: Array.from(results.values()),
+      ...(!ready && {
+        log_tail: options.deploymentUuid
+          ? await this.logTail(options.deploymentUuid)
+          : await this.serviceLogTail(serviceUuid),
+        error,
+      }),
+    });
+
+    // Stage 1: the Coolify deployment itself
+    if (options.deploymentUuid) {
+      const followed = await this.followDeployment(options.deploymentUuid, deadline, report);
+      deploymentStatus = followed.status;
+      if (followed.error) {
+        return finish(false, followed.error);
+      }
+      completed++;
+      await report('Coolify deployment finished');
+    }
+
+    // Stage 2: the containers
+    for (;;) {
+      const service = await this.coolify.getService(serviceUuid);
+      serviceStatus = service.data?.status;
+      if (serviceStatus?.startsWith('running')) {
+        break;
+      }
+      if (Date.now() + POLL_INTERVAL_MS > deadline) {
+        return finish(false, `Timed out waiting for the containers to run (${serviceStatus || 'unknown'})`);
+      }
+      await report(`Containers ${serviceStatus || 'starting'}`);
+      await sleep(POLL_INTERVAL_MS);
+    }
+    completed++;
+    await report(`Containers ${serviceStatus}`);
+
+    // Stage 3: each component through the gateway
+    let pending = probes;
+    for (;;) {
+      const stillPending: ProbeDefinition[] = [];
+      for (const definition of pending) {
+        const result = await probe(url, definition, options);
+        results.set(definition.component, result);
+        if (result.healthy) {
+          completed++;
+          await report(`${definition.component} is healthy`);
+        } else {
+          stillPending.push(definition);
+        }
+      }
+      pending = stillPending;
+
+      if (pending.length === 0) {
+        return finish(true);
+      }
+      if (Date.now() + POLL_INTERVAL_MS > deadline) {
+        return finish(false, `Timed out waiting for ${pending.map((definition) => definition.component).join(', ')}`);
+      }
+      await report(`Waiting for ${pending.map((definition) => definition.component).join(', ')}`);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Block until an application's deployment finishes, its containers run and its
+   * health check path answers, or the timeout passes
+   */
+  async waitForApplication(applicationUuid: string, options: ApplicationWaitOptions = {}): Promise<ApplicationReadiness> {
+    const started = Date.now();
+    const deadline = started + (options.timeoutSeconds ?? 600) * 1000;
+    const total = (options.deploymentUuid ? 1 : 0) + 2;
+    let completed = 0;
+    let notifications = 0;
+    let deploymentStatus: string | undefined;
+    let applicationStatus: string | undefined;
+    let healthCheck: ApplicationReadiness['health_check'];
+
+    const report = (message: string) =>
+      options.context?.reportProgress(++notifications, undefined, `${message} (${completed}/${total} checks passed)`);
+    const finish = async (ready: boolean, error?: string): Promise<ApplicationReadiness> => ({
+      ready,
+      elapsed_seconds: Math.round((Date.now() - started) / 1000),
+      deployment_status: deploymentStatus,
+      application_status: applicationStatus,
+      health_check: healthCheck,
+      ...(!ready && {
+        log_tail: await this.logTail(options.deploymentUuid),
+        runtime_log_tail: await this.runtimeLogTail(applicationUuid),
+        error,
+      }),
+    });
+
+    if (options.deploymentUuid) {
+      const followed = await this.followDeployment(options.deploymentUuid, deadline, report);
+      deploymentStatus = followed.status;
+      if (followed.error) {
+        return finish(false, followed.error);
+      }
+      completed++;
+      await report('Coolify deployment finished');
+    }
+
+    // Coolify reports running:unhealthy while the container's own health check fails
+    let healthUrl: string | undefined;
+    for (;;) {
+      const application = await this.coolify.getApplication(applicationUuid);
+      applicationStatus = application.data?.status;
+      if (applicationStatus?.startsWith('running') && applicationStatus !== 'running:unhealthy') {
+        healthUrl = healthCheckUrl(application.data?.fqdn, application.data?.health_check_path);
+        break;
+      }
+      if (Date.now() + POLL_INTERVAL_MS > deadline) {
+        return finish(false, `Timed out waiting for the application to run (${applicationStatus || 'unknown'})`);
+      }
+      await report(`Application ${applicationStatus || 'starting'}`);
+      await sleep(POLL_INTERVAL_MS);
+    }
+    completed++;
+    await report(`Application ${applicationStatus}`);
+
+    // Applications without a domain have nothing to probe from here
+    if (!healthUrl) {
+      completed++;
+      return finish(true);
+    }
+    for (;;) {
+      healthCheck = await probeUrl(healthUrl, {});
+      if (healthCheck.healthy) {
+        completed++;
+        await report(`${healthUrl} answered ${healthCheck.status}`);
+        return finish(true);
+      }
+      if (Date.now() + POLL_INTERVAL_MS > deadline) {
+        return finish(false, `Timed out waiting for ${healthUrl} (${healthCheck.status ?? healthCheck.error})`);
+      }
+      await report(`Waiting for ${healthUrl}`);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Poll a Coolify deployment until it finishes, fails or the deadline passes
+   */
+  private async followDeployment(
+    deploymentUuid: string,
+    deadline: number,
+    report: (message: string) => Promise<void> | undefined
+  ): Promise<{ status?: string; error?: string }> {
+    for (;;) {
+      const deployment = await this.coolify.getDeployment(deploymentUuid);
+      const status = deployment.data?.status;
+      if (status === 'finished') {
+        return { status };
+      }
+      if (status && FAILED_DEPLOYMENT_STATUSES.includes(status)) {
+        return { status, error: `Coolify deployment ${status}` };
+      }
+      if (Date.now() + POLL_INTERVAL_MS > deadline) {
+        return { status, error: `Timed out waiting for the Coolify deployment (${status || 'unknown'})` };
+      }
+      await report(`Coolify deployment ${status || 'pending'}`);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Last lines of the container output
+   */
+  private async runtimeLogTail(applicationUuid: string): Promise<string[] | undefined> {
+    const logs = await this.coolify.getApplicationLogs(applicationUuid, LOG_TAIL_LINES);
+    return logs.success && logs.data ? logs.data.split('\n').slice(-LOG_TAIL_LINES) : undefined;
+  }
+
+  /**
+   * Last lines of the service's container output. Coolify versions without the
+   * service logs endpoint get the status of each container instead.
+   */
+  private async serviceLogTail(serviceUuid: string): Promise<string[] | undefined> {
+    const logs = await this.coolify.getServiceLogs(serviceUuid, LOG_TAIL_LINES);
+    if (logs.success && logs.data) {
+      return logs.data.split('\n').slice(-LOG_TAIL_LINES);
+    }
+    const service = await this.coolify.getService(serviceUuid);
+    return service.data?.services?.map((container) => `${container.name}: ${container.status}`);
+  }
+
+  /**
+   * Last lines of the build log, when there is a Coolify deployment to read it from
+   */
+  private async logTail(deploymentUuid?: string): Promise<string[] | undefined> {
+    if (!deploymentUuid) {
+      return undefined;
+    }
+    const deployment = await this.coolify.getDeployment(deploymentUuid);
+    return parseDeploymentLogs(deployment.data?.logs).slice(-LOG_TAIL_LINES);
+  }
+}
+
+async function probe(url: string, definition: ProbeDefinition, options: WaitOptions): Promise<EndpointProbe> {
+  const headers: Record<string, string> = definition.auth === 'key'
+    ? { apikey: options.serviceRoleKey, Authorization: `Bearer ${options.serviceRoleKey}` }
+    : options.dashboard
+      ? { Authorization: `Basic ${Buffer.from(`${options.dashboard.username}:${options.dashboard.password}`).toString('base64')}` }
+      : {};
+
+  return {
+    component: definition.component,
+    ...(await probeUrl(`${url}${definition.path}`, headers)),
+  };
+}
+
+async function probeUrl(
+  target: string,
+  headers: Record<string, string>
+): Promise<{ url: string; healthy: boolean; status?: number; error?: string }> {
+  try {
+    const response = await axios.get(target, {
+      headers,
+      timeout: REQUEST_TIMEOUT_MS,
+      maxRedirects: 0,
+      validateStatus: () => true,
+    });
+    // Any answer from the upstream itself counts; 5xx comes from the proxy or a crashing service
+    return { url: target, healthy: response.status < 500, status: response.status };
+  } catch (error) {
+    return {
+      url: target,
+      healthy: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * First configured domain of an application joined with its health check path
+ */
+function healthCheckUrl(fqdn?: string, path?: string): string | undefined {
+  const domain = fqdn?.split(',')[0]?.trim().replace(/\/+$/, '');
+  if (!domain) {
+    return undefined;
+  }
+  const suffix = path && path !== '/' ? (path.startsWith('/') ? path : `/${path}`) : '/';
+  return `${domain}${suffix}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,120 @@
+/**
+ * Comparison of desired and current Coolify environment variables
+ * Variables are identified by key and preview flag, as Coolify stores them
+ */
+
+import type { CoolifyEnvVar, CoolifyEnvVarInput, CoolifyEnvVarFlags, EnvDiff, EnvDiffEntry } from './types.js';
+
+const COMPARED_FLAGS: (keyof CoolifyEnvVarFlags)[] = ['is_build_time', 'is_literal', 'is_multiline', 'is_shown_once'];
+
+const SECRET_KEY_PATTERN = /SECRET|PASSWORD|PASSWD|TOKEN|PRIVATE|CREDENTIAL|(^|_)KEY($|_)|DSN|DATABASE_URL|CONNECTION_STRING/i;
+
+/**
+ * Whether a variable name looks like it holds a secret
+ */
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key);
+}
+
+/**
+ * Hide a secret value; diffs report value_changed, so no hash of it is exposed either
+ */
+export function maskValue(key: string, value: string): string {
+  if (!isSecretKey(key) || value === '') {
+    return value;
+  }
+  return `****** (${value.length} chars)`;
+}
+
+/**
+ * A variable with its value masked. Fields are copied by name: Coolify also
+ * returns the value unmasked under other keys, e.g. real_value.
+ */
+export function maskEnvVar(variable: CoolifyEnvVar): CoolifyEnvVar {
+  return {
+    uuid: variable.uuid,
+    key: variable.key,
+    value: maskValue(variable.key, variable.value),
+    is_build_time: variable.is_build_time,
+    is_preview: variable.is_preview,
+    is_literal: variable.is_literal,
+    is_multiline: variable.is_multiline,
+    is_shown_once: variable.is_shown_once,
+  };
+}
+
+/**
+ * Values of the variables used by the main (non-preview) deployment, by key
+ */
+export function envToRecord(variables: CoolifyEnvVar[]): Record<string, string> {
+  return Object.fromEntries(
+    variables.filter((variable) => !variable.is_preview).map((variable) => [variable.key, variable.value])
+  );
+}
+
+/**
+ * Compare desired variables with the current ones. Flags left out of a desired
+ * variable keep their current value and do not count as changes.
+ */
+export function diffEnv(current: CoolifyEnvVar[], desired: CoolifyEnvVarInput[], includeRemoved = false): EnvDiff {
+  const identity = (key: string, preview?: boolean) => `${key}\u0000${preview ? 'preview' : 'main'}`;
+  const currentByKey = new Map(current.map((variable) => [identity(variable.key, variable.is_preview), variable]));
+  const desiredKeys = new Set<string>();
+  const entries: EnvDiffEntry[] = [];
+
+  for (const variable of desired) {
+    const id = identity(variable.key, variable.is_preview);
+    desiredKeys.add(id);
+    const existing = currentByKey.get(id);
+
+    if (!existing) {
+      entries.push({
+        key: variable.key,
+        is_preview: !!variable.is_preview,
+        change: 'added',
+        desired: maskValue(variable.key, variable.value),
+        value_changed: true,
+        flags_changed: [],
+      });
+      continue;
+    }
+
+    const valueChanged = existing.value !== variable.value;
+    const flagsChanged = COMPARED_FLAGS.filter(
+      (flag) => variable[flag] !== undefined && !!variable[flag] !== !!existing[flag]
+    );
+    entries.push({
+      key: variable.key,
+      is_preview: !!variable.is_preview,
+      change: valueChanged || flagsChanged.length > 0 ? 'changed' : 'unchanged',
+      current: maskValue(existing.key, existing.value),
+      desired: maskValue(variable.key, variable.value),
+      value_changed: valueChanged,
+      flags_changed: flagsChanged,
+    });
+  }
+
+  if (includeRemoved) {
+    for (const variable of current) {
+      if (!desiredKeys.has(identity(variable.key, variable.is_preview))) {
+        entries.push({
+          key: variable.key,
+          is_preview: !!variable.is_preview,
+          change: 'removed',
+          current: maskValue(variable.key, variable.value),
+          value_changed: true,
+          flags_changed: [],
+        });
+      }
+    }
+  }
+
+  const count = (change: EnvDiffEntry['change']) => entries.filter((entry) => entry.change === change).length;
+  return {
+    entries,
+    added: count('added'),
+    changed: count('changed'),
+    unchanged: count('unchanged'),
+    removed: count('removed'),
+  };
+}
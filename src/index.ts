@@ -15,12 +15,26 @@ import dotenv from 'dotenv';
 import { CoolifyClient } from './coolify-client.js';
 import { SupabaseManager } from './supabase-client.js';
 import { SupabaseCLI } from './supabase-cli.js';
+import { SchemaInspector } from './schema-inspector.js';
+import { RLSManager } from './rls-manager.js';
+import { StoragePolicies } from './storage-policies.js';
+import { StorageUsageReporter } from './storage-usage.js';
+import { SecurityAdvisor } from './security-advisor.js';
+import { PerformanceAdvisor } from './performance-advisor.js';
+import { DatabaseMonitor } from './database-monitor.js';
+import { DatabaseBackups } from './database-backup.js';
+import { DatabaseDumps } from './database-dump.js';
 import { registerSupabaseTools } from './tools/supabase-tools.js';
 import { registerSupabaseCLITools } from './tools/supabase-cli-tools.js';
 import { registerCoolifyTools } from './tools/coolify-tools.js';
 import { registerDeploymentTools } from './tools/deployment-tools.js';
+import { registerSchemaTools } from './tools/schema-tools.js';
+import { registerRLSTools } from './tools/rls-tools.js';
+import { registerAdvisorTools } from './tools/advisor-tools.js';
+import { registerBackupTools } from './tools/backup-tools.js';
 import { registerResources } from './resources.js';
 import { runStartupHealthCheck, createVerificationReport } from './health-check.js';
+import type { ToolContext } from './types.js';
 
 // Load environment variables with priority:
 // 1. MCP config env vars (HIGHEST - if provided by MCP client) - Already in process.env
@@ -71,6 +85,7 @@ const supabaseManager = new SupabaseManager(
     projectId: process.env.SUPABASE_PROJECT_ID,
     projectRef: process.env.SUPABASE_PROJECT_REF,
     functionsUrl: process.env.SUPABASE_FUNCTIONS_URL,
+    migrationsDir: process.env.SUPABASE_MIGRATIONS_DIR,
   },
   process.env.SUPABASE_DB_HOST
     ? {
@@ -90,6 +105,16 @@ const supabaseCLI = new SupabaseCLI({
   dbUrl: process.env.SUPABASE_DB_URL,
 });
 
+const schemaInspector = new SchemaInspector(supabaseManager.database);
+const rlsManager = new RLSManager(supabaseManager.database);
+const storagePolicies = new StoragePolicies(supabaseManager.database);
+const storageUsage = new StorageUsageReporter(supabaseManager.database);
+const securityAdvisor = new SecurityAdvisor(supabaseManager.database);
+const performanceAdvisor = new PerformanceAdvisor(supabaseManager.database);
+const databaseMonitor = new DatabaseMonitor(supabaseManager.database);
+const databaseBackups = new DatabaseBackups(coolifyClient, supabaseManager, process.env.COOLIFY_SUPABASE_DB_UUID);
+const databaseDumps = new DatabaseDumps(supabaseManager.databaseConfig, process.env.SUPABASE_DB_URL);
+
 // Create MCP server
 const server = new Server(
   {
@@ -105,13 +130,17 @@ const server = new Server(
 );
 
 // Register all tools and resources
-const toolHandlers = new Map<string, (args: any) => Promise<any>>();
+const toolHandlers = new Map<string, (args: any, context?: ToolContext) => Promise<any>>();
 
-registerSupabaseTools(server, supabaseManager, toolHandlers);
-registerSupabaseCLITools(server, supabaseCLI, toolHandlers);
+registerSupabaseTools(server, supabaseManager, databaseMonitor, databaseBackups, storageUsage, toolHandlers);
+registerSupabaseCLITools(server, supabaseCLI, databaseBackups, toolHandlers);
 registerCoolifyTools(server, coolifyClient, toolHandlers);
 registerDeploymentTools(server, coolifyClient, supabaseManager, toolHandlers);
-registerResources(server, coolifyClient, supabaseManager);
+registerSchemaTools(server, schemaInspector, toolHandlers);
+registerRLSTools(server, rlsManager, storagePolicies, toolHandlers);
+registerAdvisorTools(server, securityAdvisor, performanceAdvisor, toolHandlers);
+registerBackupTools(server, databaseBackups, databaseDumps, toolHandlers);
+registerResources(server, coolifyClient, supabaseManager, schemaInspector);
 
 // Register verification tool
 toolHandlers.set('verify_setup', async () => {
@@ -129,7 +158,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 });
 
 // Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: args } = request.params;
 
   const handler = toolHandlers.get(name);
@@ -137,8 +166,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     throw new Error(`Unknown tool: ${name}`);
   }
 
+  // Long-running tools stream progress when the client asked for it
+  const progressToken = request.params._meta?.progressToken;
+  const context: ToolContext = {
+    reportProgress: async (progress, total, message) => {
+      if (progressToken === undefined) {
+        return;
+      }
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message },
+      });
+    },
+  };
+
   try {
-    const result = await handler(args || {});
+    const result = await handler(args || {}, context);
     
     return {
       content: [
@@ -174,7 +217,7 @@ function getToolMetadata(toolName: string) {
     // Supabase Migration Tools
     list_migrations: {
       name: 'list_migrations',
-      description: 'List all database migrations with their status',
+      description: 'List migrations from the supabase/migrations directory and the applied history. Status is pending (new on disk), applied, modified (file changed after apply) or missing_on_disk, with checksums and down SQL availability',
       inputSchema: {
         type: 'object',
         properties: {},
@@ -182,19 +225,33 @@ function getToolMetadata(toolName: string) {
     },
     deploy_migration: {
       name: 'deploy_migration',
-      description: 'Deploy a new database migration. NOTE: For self-hosted Supabase, consider using supabase_migration_new + supabase_db_push instead for better reliability.',
+      description: 'Deploy a new database migration. Runs over the direct Postgres connection when SUPABASE_DB_HOST is configured; otherwise consider using supabase_migration_new + supabase_db_push instead for better reliability.',
       inputSchema: {
         type: 'object',
         properties: {
           sql: { type: 'string', description: 'SQL migration code' },
           name: { type: 'string', description: 'Migration name' },
+          dry_run: { type: 'boolean', description: 'Preview in a transaction that is always rolled back', default: false },
+          allow_unsafe: { type: 'boolean', description: 'Apply even if lint_migration reports errors', default: false },
         },
         required: ['sql', 'name'],
       },
     },
+    lint_migration: {
+      name: 'lint_migration',
+      description: 'Check migration SQL for risky statements before running it: DROP TABLE/COLUMN, table-rewriting ALTER COLUMN TYPE, CREATE INDEX without CONCURRENTLY, NOT NULL columns without a default, TRUNCATE and new exposed tables without RLS. deploy_migration runs the same checks and refuses errors unless allow_unsafe is set',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          sql: { type: 'string', description: 'Migration SQL to lint' },
+          exposed_schemas: { type: 'array', items: { type: 'string' }, description: 'Schemas exposed through the API (default: ["public"])' },
+        },
+        required: ['sql'],
+      },
+    },
     execute_sql: {
       name: 'execute_sql',
-      description: 'Execute raw SQL query on Supabase database. NOTE: For self-hosted Supabase, use supabase_cli_execute with "db execute" for better reliability.',
+      description: 'Execute raw SQL query on Supabase database. Returns rows, column metadata and affected-row counts when SUPABASE_DB_HOST is configured; otherwise use supabase_cli_execute with "db execute" for better reliability.',
       inputSchema: {
         type: 'object',
         properties: {
@@ -224,28 +281,39 @@ function getToolMetadata(toolName: string) {
         properties: {
           version: { type: 'string', description: 'Migration version to rollback' },
           down_sql: { type: 'string', description: 'SQL to execute for rollback (optional)' },
+          dry_run: { type: 'boolean', description: 'Preview in a transaction that is always rolled back', default: false },
+          backup_first: { type: 'boolean', description: 'Run the Coolify scheduled backup and wait for it before rolling back', default: false },
+          backup_database_uuid: { type: 'string', description: 'Coolify database to back up (default: COOLIFY_SUPABASE_DB_UUID)' },
         },
         required: ['version'],
       },
     },
     rollback_to_version: {
       name: 'rollback_to_version',
-      description: 'Rollback all migrations after a specific version',
+      description: 'Rollback all migrations after a specific version by running their down SQL newest first in one transaction. Refuses if any version lacks down SQL unless allow_missing_down_sql is set',
       inputSchema: {
         type: 'object',
         properties: {
           version: { type: 'string', description: 'Target version to rollback to' },
+          dry_run: { type: 'boolean', description: 'Preview in a transaction that is always rolled back', default: false },
+          allow_missing_down_sql: { type: 'boolean', description: 'Remove history rows of versions without down SQL instead of refusing', default: false },
+          backup_first: { type: 'boolean', description: 'Run the Coolify scheduled backup and wait for it before rolling back', default: false },
+          backup_database_uuid: { type: 'string', description: 'Coolify database to back up (default: COOLIFY_SUPABASE_DB_UUID)' },
         },
         required: ['version'],
       },
     },
     rollback_last_migrations: {
       name: 'rollback_last_migrations',
-      description: 'Rollback the last N migrations',
+      description: 'Rollback the last N migrations by running their down SQL newest first in one transaction. Refuses if any version lacks down SQL unless allow_missing_down_sql is set',
       inputSchema: {
         type: 'object',
         properties: {
           count: { type: 'number', description: 'Number of migrations to rollback', default: 1 },
+          dry_run: { type: 'boolean', description: 'Preview in a transaction that is always rolled back', default: false },
+          allow_missing_down_sql: { type: 'boolean', description: 'Remove history rows of versions without down SQL instead of refusing', default: false },
+          backup_first: { type: 'boolean', description: 'Run the Coolify scheduled backup and wait for it before rolling back', default: false },
+          backup_database_uuid: { type: 'string', description: 'Coolify database to back up (default: COOLIFY_SUPABASE_DB_UUID)' },
         },
       },
     },
@@ -258,22 +326,256 @@ function getToolMetadata(toolName: string) {
           name: { type: 'string', description: 'Migration name' },
           up_sql: { type: 'string', description: 'SQL to apply the migration' },
           down_sql: { type: 'string', description: 'SQL to rollback the migration' },
+          dry_run: { type: 'boolean', description: 'Preview in a transaction that is always rolled back', default: false },
+          allow_unsafe: { type: 'boolean', description: 'Apply even if lint_migration reports errors', default: false },
         },
         required: ['name', 'up_sql', 'down_sql'],
       },
     },
     rollback_migration_with_down_sql: {
       name: 'rollback_migration_with_down_sql',
-      description: 'Rollback a migration using its stored down SQL',
+      description: 'Rollback a migration using its paired .down.sql file or stored down SQL',
       inputSchema: {
         type: 'object',
         properties: {
           version: { type: 'string', description: 'Migration version' },
+          dry_run: { type: 'boolean', description: 'Preview in a transaction that is always rolled back', default: false },
+          backup_first: { type: 'boolean', description: 'Run the Coolify scheduled backup and wait for it before rolling back', default: false },
+          backup_database_uuid: { type: 'string', description: 'Coolify database to back up (default: COOLIFY_SUPABASE_DB_UUID)' },
         },
         required: ['version'],
       },
     },
 
+    // Schema Introspection Tools
+    list_schemas: {
+      name: 'list_schemas',
+      description: 'List database schemas with their owner and table count (requires SUPABASE_DB_HOST)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          include_system: { type: 'boolean', description: 'Include pg_catalog, information_schema and other pg_* schemas', default: false },
+        },
+      },
+    },
+    inspect_schema: {
+      name: 'inspect_schema',
+      description: 'Read the tables (columns with types, defaults and nullability, constraints, indexes, triggers, RLS status), views, functions, enums and sequences of a schema from pg_catalog. Use format "ddl" for a compact DDL-like rendering (requires SUPABASE_DB_HOST)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          schema: { type: 'string', description: 'Schema name', default: 'public' },
+          objects: {
+            type: 'array',
+            items: { type: 'string', enum: ['tables', 'views', 'functions', 'enums', 'sequences'] },
+            description: 'Object kinds to include (default: all)',
+          },
+          include_definitions: { type: 'boolean', description: 'Include full view and function bodies', default: false },
+          format: { type: 'string', enum: ['json', 'ddl'], description: 'Structured JSON or compact DDL text', default: 'json' },
+        },
+      },
+    },
+    describe_table: {
+      name: 'describe_table',
+      description: 'Describe one table: columns, constraints, indexes, triggers and RLS status (requires SUPABASE_DB_HOST)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          schema: { type: 'string', description: 'Schema name', default: 'public' },
+          table: { type: 'string', description: 'Table name' },
+          format: { type: 'string', enum: ['json', 'ddl'], description: 'Structured JSON or compact DDL text', default: 'json' },
+        },
+        required: ['table'],
+      },
+    },
+
+    // Row Level Security Tools
+    list_rls_tables: {
+      name: 'list_rls_tables',
+      description: 'List tables with their Row Level Security status (enabled, forced) and policy count (requires SUPABASE_DB_HOST)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          schemas: { type: 'array', items: { type: 'string' }, description: 'Schemas to list (default: ["public"])' },
+        },
+      },
+    },
+    set_table_rls: {
+      name: 'set_table_rls',
+      description: 'Enable or disable Row Level Security and FORCE ROW LEVEL SECURITY on a table',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          schema: { type: 'string', description: 'Schema name', default: 'public' },
+          table: { type: 'string', description: 'Table name' },
+          enabled: { type: 'boolean', description: 'Enable (true) or disable (false) RLS' },
+          forced: { type: 'boolean', description: 'Apply policies to the table owner as well' },
+        },
+        required: ['table'],
+      },
+    },
+    list_rls_policies: {
+      name: 'list_rls_policies',
+      description: 'List RLS policies with their command, roles, USING and WITH CHECK expressions',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          schemas: { type: 'array', items: { type: 'string' }, description: 'Schemas to list (default: ["public"])' },
+          table: { type: 'string', description: 'Only list policies of this table' },
+        },
+      },
+    },
+    create_rls_policy: {
+      name: 'create_rls_policy',
+      description: 'Create an RLS policy on a table',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          schema: { type: 'string', description: 'Schema name', default: 'public' },
+          table: { type: 'string', description: 'Table name' },
+          name: { type: 'string', description: 'Policy name' },
+          command: { type: 'string', enum: ['ALL', 'SELECT', 'INSERT', 'UPDATE', 'DELETE'], description: 'Command the policy applies to', default: 'ALL' },
+          permissive: { type: 'boolean', description: 'Permissive (true) or restrictive (false) policy', default: true },
+          roles: { type: 'array', items: { type: 'string' }, description: 'Roles the policy applies to, e.g. ["authenticated"] (default: ["public"])' },
+          using: { type: 'string', description: 'USING expression, e.g. auth.uid() = user_id' },
+          with_check: { type: 'string', description: 'WITH CHECK expression for inserted and updated rows' },
+        },
+        required: ['table', 'name'],
+      },
+    },
+    alter_rls_policy: {
+      name: 'alter_rls_policy',
+      description: 'Change the roles, USING or WITH CHECK expression, or name of an RLS policy. To change its command, drop and recreate it',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          schema: { type: 'string', description: 'Schema name', default: 'public' },
+          table: { type: 'string', description: 'Table name' },
+          name: { type: 'string', description: 'Current policy name' },
+          new_name: { type: 'string', description: 'New policy name' },
+          roles: { type: 'array', items: { type: 'string' }, description: 'New roles' },
+          using: { type: 'string', description: 'New USING expression' },
+          with_check: { type: 'string', description: 'New WITH CHECK expression' },
+        },
+        required: ['table', 'name'],
+      },
+    },
+    drop_rls_policy: {
+      name: 'drop_rls_policy',
+      description: 'Drop an RLS policy',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          schema: { type: 'string', description: 'Schema name', default: 'public' },
+          table: { type: 'string', description: 'Table name' },
+          name: { type: 'string', description: 'Policy name' },
+        },
+        required: ['table', 'name'],
+      },
+    },
+    test_rls_policy: {
+      name: 'test_rls_policy',
+      description: 'Run a query as the anon or authenticated role with chosen JWT claims, as PostgREST would, to check what policies allow. Always rolled back, so writes can be tested safely',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          role: { type: 'string', enum: ['anon', 'authenticated'], description: 'Database role to run as' },
+          claims: { type: 'object', description: 'JWT claims, e.g. { "sub": "<user uuid>", "email": "a@b.c" }. role defaults to the chosen role' },
+          sql: { type: 'string', description: 'Query to run, e.g. SELECT * FROM todos' },
+          params: { type: 'array', description: 'Query parameters for $1, $2, ...' },
+        },
+        required: ['role', 'sql'],
+      },
+    },
+    list_storage_policies: {
+      name: 'list_storage_policies',
+      description: 'List the RLS policies on storage.objects that refer to a bucket (requires SUPABASE_DB_HOST)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Bucket ID' },
+        },
+        required: ['bucket'],
+      },
+    },
+    apply_storage_policy_template: {
+      name: 'apply_storage_policy_template',
+      description: 'Create storage.objects RLS policies for a bucket from a template: owner_folder (users read and write their own <user id>/ folder), authenticated_read or public_read. dry_run returns the SQL without executing it',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Bucket ID' },
+          template: { type: 'string', enum: ['owner_folder', 'authenticated_read', 'public_read'], description: 'Policy template' },
+          dry_run: { type: 'boolean', description: 'Only return the generated SQL', default: false },
+          replace: { type: 'boolean', description: 'Drop and recreate policies with the same names', default: false },
+        },
+        required: ['bucket', 'template'],
+      },
+    },
+    drop_storage_policies: {
+      name: 'drop_storage_policies',
+      description: 'Drop storage.objects RLS policies of a bucket by name',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Bucket ID' },
+          names: { type: 'array', items: { type: 'string' }, description: 'Policy names from list_storage_policies' },
+        },
+        required: ['bucket', 'names'],
+      },
+    },
+
+    // Advisor Tools
+    run_security_advisor: {
+      name: 'run_security_advisor',
+      description: 'Audit the database for security issues: exposed tables without RLS, always-true policies, SECURITY DEFINER functions without a fixed search_path, extensions in public, views that bypass RLS, roles with BYPASSRLS and write grants to anon. Each finding includes remediation SQL for deploy_migration (requires SUPABASE_DB_HOST)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          exposed_schemas: { type: 'array', items: { type: 'string' }, description: 'Schemas exposed through PostgREST (default: ["public"])' },
+          min_severity: { type: 'string', enum: ['error', 'warning', 'info'], description: 'Only report findings at or above this severity', default: 'info' },
+        },
+      },
+    },
+
+    run_performance_advisor: {
+      name: 'run_performance_advisor',
+      description: 'Check for unused and duplicate indexes, foreign keys without a covering index, large tables read mostly by sequential scans and tables bloated with dead tuples. Findings include remediation SQL (requires SUPABASE_DB_HOST)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          min_rows: { type: 'number', description: 'Ignore tables with fewer live rows in the scan and bloat checks', default: 10000 },
+          seq_scan_ratio: { type: 'number', description: 'Share of sequential scans (0-1) before a table is flagged', default: 0.5 },
+          dead_tuple_ratio: { type: 'number', description: 'Share of dead tuples (0-1) before a table is flagged as bloated', default: 0.2 },
+          min_severity: { type: 'string', enum: ['error', 'warning', 'info'], description: 'Only report findings at or above this severity', default: 'info' },
+        },
+      },
+    },
+    get_top_queries: {
+      name: 'get_top_queries',
+      description: 'List the most expensive statements from pg_stat_statements by total time, mean time or calls',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          order_by: { type: 'string', enum: ['total_time', 'mean_time', 'calls'], description: 'Sort order', default: 'total_time' },
+          limit: { type: 'number', description: 'Number of statements to return', default: 20 },
+        },
+      },
+    },
+    explain_query: {
+      name: 'explain_query',
+      description: 'Run EXPLAIN (ANALYZE, BUFFERS, FORMAT JSON) on one statement inside a transaction that is rolled back, and summarize the plan: timings, slowest nodes, buffer hit ratio, misestimates, disk sorts and filtered sequential scans',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          sql: { type: 'string', description: 'Statement to explain' },
+          params: { type: 'array', description: 'Query parameters for $1, $2, ...' },
+          analyze: { type: 'boolean', description: 'Execute the statement to get actual timings (writes are rolled back)', default: true },
+        },
+        required: ['sql'],
+      },
+    },
+
     // Edge Functions Tools
     list_edge_functions: {
       name: 'list_edge_functions',
@@ -350,10 +652,37 @@ function getToolMetadata(toolName: string) {
           id: { type: 'string', description: 'Bucket ID' },
           public: { type: 'boolean', description: 'Make bucket public', default: false },
           file_size_limit: { type: 'number', description: 'Max file size in bytes' },
+          allowed_mime_types: { type: 'array', items: { type: 'string' }, description: 'Accepted MIME types, e.g. ["image/png", "image/*"] (default: any)' },
+        },
+        required: ['id'],
+      },
+    },
+    update_storage_bucket: {
+      name: 'update_storage_bucket',
+      description: 'Change whether a bucket is public, its file size limit and its allowed MIME types. Settings left out keep their value; null removes a limit',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Bucket ID' },
+          public: { type: 'boolean', description: 'Make bucket public' },
+          file_size_limit: { type: ['number', 'null'], description: 'Max file size in bytes; null removes the limit' },
+          allowed_mime_types: { type: ['array', 'null'], items: { type: 'string' }, description: 'Accepted MIME types; null accepts any' },
         },
         required: ['id'],
       },
     },
+    empty_storage_bucket: {
+      name: 'empty_storage_bucket',
+      description: 'Delete every object in a bucket, keeping the bucket and its settings',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Bucket ID' },
+          confirm: { type: 'boolean', description: 'Must be true' },
+        },
+        required: ['id', 'confirm'],
+      },
+    },
     delete_storage_bucket: {
       name: 'delete_storage_bucket',
       description: 'Delete a storage bucket',
@@ -365,6 +694,157 @@ function getToolMetadata(toolName: string) {
         required: ['id'],
       },
     },
+    list_storage_objects: {
+      name: 'list_storage_objects',
+      description: 'List the files and folders directly under a prefix in a bucket, with pagination and sorting',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Bucket ID' },
+          prefix: { type: 'string', description: 'Folder to list, e.g. users/42 (default: bucket root)' },
+          search: { type: 'string', description: 'Only names containing this text' },
+          limit: { type: 'number', description: 'Page size, up to 1000', default: 100 },
+          offset: { type: 'number', description: 'Entries to skip', default: 0 },
+          sort_by: { type: 'string', enum: ['name', 'created_at', 'updated_at', 'last_accessed_at'], default: 'name' },
+          order: { type: 'string', enum: ['asc', 'desc'], default: 'asc' },
+        },
+        required: ['bucket'],
+      },
+    },
+    upload_storage_object: {
+      name: 'upload_storage_object',
+      description: 'Upload a local file or base64 content to a bucket. The content type is derived from the extension unless given',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Bucket ID' },
+          path: { type: 'string', description: 'Object path in the bucket, e.g. users/42/avatar.png' },
+          file_path: { type: 'string', description: 'Local file to upload' },
+          base64: { type: 'string', description: 'Base64 content to upload instead of a file' },
+          content_type: { type: 'string', description: 'MIME type to store with the object' },
+          cache_control: { type: 'string', description: 'Cache-Control max-age in seconds, e.g. 3600' },
+          upsert: { type: 'boolean', description: 'Replace an existing object at path', default: false },
+        },
+        required: ['bucket', 'path'],
+      },
+    },
+    download_storage_object: {
+      name: 'download_storage_object',
+      description: 'Download an object to a local file',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Bucket ID' },
+          path: { type: 'string', description: 'Object path in the bucket' },
+          output_path: { type: 'string', description: 'Local file to write; parent directories are created' },
+          overwrite: { type: 'boolean', description: 'Replace an existing local file', default: false },
+        },
+        required: ['bucket', 'path', 'output_path'],
+      },
+    },
+    get_storage_object_info: {
+      name: 'get_storage_object_info',
+      description: 'Get the size, content type, ETag and custom metadata of an object',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Bucket ID' },
+          path: { type: 'string', description: 'Object path in the bucket' },
+        },
+        required: ['bucket', 'path'],
+      },
+    },
+    move_storage_object: {
+      name: 'move_storage_object',
+      description: 'Move or rename an object, optionally into another bucket',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Bucket ID' },
+          from_path: { type: 'string', description: 'Current object path' },
+          to_path: { type: 'string', description: 'New object path' },
+          destination_bucket: { type: 'string', description: 'Bucket to move into (default: the same bucket)' },
+        },
+        required: ['bucket', 'from_path', 'to_path'],
+      },
+    },
+    copy_storage_object: {
+      name: 'copy_storage_object',
+      description: 'Copy an object, optionally into another bucket',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Bucket ID' },
+          from_path: { type: 'string', description: 'Object to copy' },
+          to_path: { type: 'string', description: 'Path of the copy' },
+          destination_bucket: { type: 'string', description: 'Bucket to copy into (default: the same bucket)' },
+        },
+        required: ['bucket', 'from_path', 'to_path'],
+      },
+    },
+    delete_storage_objects: {
+      name: 'delete_storage_objects',
+      description: 'Delete objects by path and report which paths did not exist',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Bucket ID' },
+          paths: { type: 'array', items: { type: 'string' }, description: 'Object paths to delete' },
+        },
+        required: ['bucket', 'paths'],
+      },
+    },
+    create_signed_urls: {
+      name: 'create_signed_urls',
+      description: 'Create time-limited download URLs for objects, in private or public buckets',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Bucket ID' },
+          paths: { type: 'array', items: { type: 'string' }, description: 'Object paths to sign' },
+          expires_in: { type: 'number', description: 'Seconds the URLs stay valid', default: 3600 },
+          download: { type: ['boolean', 'string'], description: 'Serve as an attachment; a string sets the file name' },
+        },
+        required: ['bucket', 'paths'],
+      },
+    },
+    create_signed_upload_url: {
+      name: 'create_signed_upload_url',
+      description: 'Create a URL a client can upload one object to without other credentials. The Storage server sets its lifetime (two hours by default); expires_at is returned',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Bucket ID' },
+          path: { type: 'string', description: 'Object path the upload will be stored at' },
+          upsert: { type: 'boolean', description: 'Allow the upload to replace an existing object', default: false },
+        },
+        required: ['bucket', 'path'],
+      },
+    },
+    get_public_urls: {
+      name: 'get_public_urls',
+      description: 'Get the permanent public URLs of objects in a public bucket',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Public bucket ID' },
+          paths: { type: 'array', items: { type: 'string' }, description: 'Object paths' },
+          download: { type: ['boolean', 'string'], description: 'Serve as an attachment; a string sets the file name' },
+        },
+        required: ['bucket', 'paths'],
+      },
+    },
+    storage_usage_report: {
+      name: 'storage_usage_report',
+      description: 'Count objects and total bytes per bucket and per top-level prefix from storage.objects (requires SUPABASE_DB_HOST)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          bucket: { type: 'string', description: 'Only report this bucket' },
+          top_prefixes: { type: 'number', description: 'Largest prefixes listed per bucket', default: 20 },
+        },
+      },
+    },
 
     // Auth Tools
     get_auth_config: {
@@ -404,6 +884,66 @@ function getToolMetadata(toolName: string) {
         properties: {},
       },
     },
+    list_database_activity: {
+      name: 'list_database_activity',
+      description: 'List database backends from pg_stat_activity with state, wait events, durations and blocking pids (requires SUPABASE_DB_* configuration)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          include_idle: { type: 'boolean', description: 'Include idle connections (default: false)' },
+          include_system: { type: 'boolean', description: 'Include autovacuum, WAL and other non-client backends (default: false)' },
+        },
+      },
+    },
+    get_blocking_tree: {
+      name: 'get_blocking_tree',
+      description: 'Show which sessions hold locks that others are waiting on, as trees rooted at the blocking sessions',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    list_long_running_queries: {
+      name: 'list_long_running_queries',
+      description: 'List queries running and transactions left idle longer than a threshold',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          min_duration_seconds: { type: 'number', description: 'Minimum duration in seconds (default: 60)' },
+        },
+      },
+    },
+    get_connection_stats: {
+      name: 'get_connection_stats',
+      description: 'Count client connections per role and application against max_connections',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    cancel_backend: {
+      name: 'cancel_backend',
+      description: 'Cancel the running query of a client backend, keeping its connection open. Refuses non-client backends and this server\'s own connections',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pid: { type: 'number', description: 'Backend process id from list_database_activity' },
+        },
+        required: ['pid'],
+      },
+    },
+    terminate_backend: {
+      name: 'terminate_backend',
+      description: 'Terminate a client backend, closing its connection and rolling back its open transaction. Try cancel_backend first',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pid: { type: 'number', description: 'Backend process id from list_database_activity' },
+          confirm: { type: 'boolean', description: 'Must be true to terminate the backend' },
+        },
+        required: ['pid', 'confirm'],
+      },
+    },
 
     // Coolify Tools
     list_coolify_applications: {
@@ -425,9 +965,35 @@ function getToolMetadata(toolName: string) {
         required: ['uuid'],
       },
     },
+    create_coolify_application: {
+      name: 'create_coolify_application',
+      description: 'Create a Coolify application from a public git repository or a registry image in an explicit project, environment and server',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project_uuid: { type: 'string', description: 'Coolify project UUID' },
+          server_uuid: { type: 'string', description: 'Coolify server UUID' },
+          environment_name: { type: 'string', description: 'Project environment (default: production)' },
+          environment_uuid: { type: 'string', description: 'Project environment UUID; takes precedence over environment_name' },
+          destination_uuid: { type: 'string', description: 'Docker network on the server, when it has more than one' },
+          source: { type: 'string', enum: ['public', 'dockerimage'], description: 'public builds a git repository, dockerimage runs a registry image' },
+          name: { type: 'string', description: 'Application name' },
+          description: { type: 'string', description: 'Application description' },
+          git_repository: { type: 'string', description: 'Repository URL (public source)' },
+          git_branch: { type: 'string', description: 'Branch to build (default: main)' },
+          build_pack: { type: 'string', enum: ['nixpacks', 'static', 'dockerfile', 'dockercompose'], description: 'Build pack (default: nixpacks)' },
+          docker_registry_image_name: { type: 'string', description: 'Image name (dockerimage source)' },
+          docker_registry_image_tag: { type: 'string', description: 'Image tag (default: latest)' },
+          ports_exposes: { type: 'string', description: 'Comma-separated container ports, e.g. 3000' },
+          domains: { type: 'string', description: 'Comma-separated domains with scheme' },
+          instant_deploy: { type: 'boolean', description: 'Deploy right after creating (default: false)' },
+        },
+        required: ['project_uuid', 'server_uuid', 'source', 'ports_exposes'],
+      },
+    },
     update_coolify_application_env: {
       name: 'update_coolify_application_env',
-      description: 'Update application environment variables',
+      description: 'Create or update application environment variables from a key/value map',
       inputSchema: {
         type: 'object',
         properties: {
@@ -437,13 +1003,134 @@ function getToolMetadata(toolName: string) {
         required: ['uuid', 'env'],
       },
     },
+    list_coolify_application_envs: {
+      name: 'list_coolify_application_envs',
+      description: 'List the environment variables of a Coolify application with their flags; secret-looking values are masked',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Application UUID' },
+          show_secrets: { type: 'boolean', description: 'Return secret values unmasked (default: false)' },
+        },
+        required: ['uuid'],
+      },
+    },
+    create_coolify_application_env: {
+      name: 'create_coolify_application_env',
+      description: 'Create one environment variable on a Coolify application',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Application UUID' },
+          key: { type: 'string', description: 'Variable name' },
+          value: { type: 'string', description: 'Variable value' },
+          is_build_time: { type: 'boolean', description: 'Available while building the image' },
+          is_preview: { type: 'boolean', description: 'Applies to preview deployments only' },
+          is_literal: { type: 'boolean', description: 'Store verbatim without interpolating other variables' },
+          is_multiline: { type: 'boolean', description: 'Value spans several lines' },
+          is_shown_once: { type: 'boolean', description: 'Hide the value in the Coolify UI after creation' },
+        },
+        required: ['uuid', 'key', 'value'],
+      },
+    },
+    update_coolify_application_env_var: {
+      name: 'update_coolify_application_env_var',
+      description: 'Update the value and flags of one environment variable, matched by key',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Application UUID' },
+          key: { type: 'string', description: 'Variable name' },
+          value: { type: 'string', description: 'Variable value' },
+          is_build_time: { type: 'boolean', description: 'Available while building the image' },
+          is_preview: { type: 'boolean', description: 'Applies to preview deployments only' },
+          is_literal: { type: 'boolean', description: 'Store verbatim without interpolating other variables' },
+          is_multiline: { type: 'boolean', description: 'Value spans several lines' },
+          is_shown_once: { type: 'boolean', description: 'Hide the value in the Coolify UI after creation' },
+        },
+        required: ['uuid', 'key', 'value'],
+      },
+    },
+    delete_coolify_application_env: {
+      name: 'delete_coolify_application_env',
+      description: 'Delete one environment variable of a Coolify application by key',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Application UUID' },
+          key: { type: 'string', description: 'Variable name' },
+          is_preview: { type: 'boolean', description: 'Delete the preview variable instead of the main one (default: false)' },
+        },
+        required: ['uuid', 'key'],
+      },
+    },
+    upsert_coolify_application_envs: {
+      name: 'upsert_coolify_application_envs',
+      description: 'Idempotently create or update environment variables; only differing variables are sent',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Application UUID' },
+          variables: {
+            type: 'array',
+            description: 'Desired variables',
+            items: {
+              type: 'object',
+              properties: {
+                key: { type: 'string' },
+                value: { type: 'string' },
+                is_build_time: { type: 'boolean' },
+                is_preview: { type: 'boolean' },
+                is_literal: { type: 'boolean' },
+                is_multiline: { type: 'boolean' },
+                is_shown_once: { type: 'boolean' },
+              },
+              required: ['key', 'value'],
+            },
+          },
+          prune: { type: 'boolean', description: 'Delete variables that are not in the list (default: false)' },
+          dry_run: { type: 'boolean', description: 'Return the diff without changing anything (default: false)' },
+        },
+        required: ['uuid', 'variables'],
+      },
+    },
+    env_diff: {
+      name: 'env_diff',
+      description: 'Compare desired environment variables with the current ones of a Coolify application, masking secret values',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Application UUID' },
+          variables: {
+            type: 'array',
+            description: 'Desired variables',
+            items: {
+              type: 'object',
+              properties: {
+                key: { type: 'string' },
+                value: { type: 'string' },
+                is_build_time: { type: 'boolean' },
+                is_preview: { type: 'boolean' },
+                is_literal: { type: 'boolean' },
+                is_multiline: { type: 'boolean' },
+                is_shown_once: { type: 'boolean' },
+              },
+              required: ['key', 'value'],
+            },
+          },
+          include_removed: { type: 'boolean', description: 'Also list current variables missing from the desired ones (default: false)' },
+        },
+        required: ['uuid', 'variables'],
+      },
+    },
     deploy_coolify_application: {
       name: 'deploy_coolify_application',
-      description: 'Deploy a Coolify application',
+      description: 'Deploy a Coolify application and return the deployment UUID',
       inputSchema: {
         type: 'object',
         properties: {
           uuid: { type: 'string', description: 'Application UUID' },
+          force: { type: 'boolean', description: 'Rebuild without the build cache (default: false)' },
         },
         required: ['uuid'],
       },
@@ -522,6 +1209,141 @@ function getToolMetadata(toolName: string) {
         required: ['uuid'],
       },
     },
+    list_coolify_databases: {
+      name: 'list_coolify_databases',
+      description: 'List all Coolify databases',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    get_coolify_database: {
+      name: 'get_coolify_database',
+      description: 'Get details of a specific Coolify database',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Database UUID' },
+        },
+        required: ['uuid'],
+      },
+    },
+    create_coolify_postgres_database: {
+      name: 'create_coolify_postgres_database',
+      description: 'Create a standalone Postgres database on Coolify; a password is generated unless given',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project_uuid: { type: 'string', description: 'Coolify project UUID' },
+          server_uuid: { type: 'string', description: 'Coolify server UUID' },
+          environment_name: { type: 'string', description: 'Project environment (default: production)' },
+          environment_uuid: { type: 'string', description: 'Project environment UUID; takes precedence over environment_name' },
+          destination_uuid: { type: 'string', description: 'Docker network on the server, when it has more than one' },
+          name: { type: 'string', description: 'Database name in Coolify' },
+          description: { type: 'string', description: 'Database description' },
+          image: { type: 'string', description: 'Docker image; overrides version' },
+          is_public: { type: 'boolean', description: 'Publish the database port on the server' },
+          public_port: { type: 'number', description: 'Published port, required with is_public' },
+          limits_memory: { type: 'string', description: 'Memory limit, e.g. 512m or 2g' },
+          limits_cpus: { type: 'string', description: 'CPU limit, e.g. 0.5 or 2' },
+          version: { type: 'string', description: 'Postgres version for the postgres:<version>-alpine image (default: 16)' },
+          postgres_user: { type: 'string', description: 'Superuser name (default: postgres)' },
+          postgres_password: { type: 'string', description: 'Superuser password, at least 12 characters (default: generated)' },
+          postgres_db: { type: 'string', description: 'Initial database (default: postgres)' },
+          instant_deploy: { type: 'boolean', description: 'Start right after creating (default: false)' },
+        },
+        required: ['project_uuid', 'server_uuid'],
+      },
+    },
+    create_coolify_redis_database: {
+      name: 'create_coolify_redis_database',
+      description: 'Create a standalone Redis database on Coolify; a password is generated unless given',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project_uuid: { type: 'string', description: 'Coolify project UUID' },
+          server_uuid: { type: 'string', description: 'Coolify server UUID' },
+          environment_name: { type: 'string', description: 'Project environment (default: production)' },
+          environment_uuid: { type: 'string', description: 'Project environment UUID; takes precedence over environment_name' },
+          destination_uuid: { type: 'string', description: 'Docker network on the server, when it has more than one' },
+          name: { type: 'string', description: 'Database name in Coolify' },
+          description: { type: 'string', description: 'Database description' },
+          image: { type: 'string', description: 'Docker image; overrides version' },
+          is_public: { type: 'boolean', description: 'Publish the database port on the server' },
+          public_port: { type: 'number', description: 'Published port, required with is_public' },
+          limits_memory: { type: 'string', description: 'Memory limit, e.g. 512m or 2g' },
+          limits_cpus: { type: 'string', description: 'CPU limit, e.g. 0.5 or 2' },
+          version: { type: 'string', description: 'Redis version for the redis:<version>-alpine image (default: 7.2)' },
+          redis_password: { type: 'string', description: 'Password, at least 12 characters (default: generated)' },
+          instant_deploy: { type: 'boolean', description: 'Start right after creating (default: false)' },
+        },
+        required: ['project_uuid', 'server_uuid'],
+      },
+    },
+    update_coolify_database: {
+      name: 'update_coolify_database',
+      description: 'Update the name, image, public port or resource limits of a Coolify database',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Database UUID' },
+          name: { type: 'string', description: 'Database name in Coolify' },
+          description: { type: 'string', description: 'Database description' },
+          image: { type: 'string', description: 'Docker image; overrides version' },
+          is_public: { type: 'boolean', description: 'Publish the database port on the server' },
+          public_port: { type: 'number', description: 'Published port, required with is_public' },
+          limits_memory: { type: 'string', description: 'Memory limit, e.g. 512m or 2g' },
+          limits_cpus: { type: 'string', description: 'CPU limit, e.g. 0.5 or 2' },
+        },
+        required: ['uuid'],
+      },
+    },
+    start_coolify_database: {
+      name: 'start_coolify_database',
+      description: 'Start a Coolify database',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Database UUID' },
+        },
+        required: ['uuid'],
+      },
+    },
+    stop_coolify_database: {
+      name: 'stop_coolify_database',
+      description: 'Stop a Coolify database',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Database UUID' },
+        },
+        required: ['uuid'],
+      },
+    },
+    restart_coolify_database: {
+      name: 'restart_coolify_database',
+      description: 'Restart a Coolify database',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Database UUID' },
+        },
+        required: ['uuid'],
+      },
+    },
+    delete_coolify_database: {
+      name: 'delete_coolify_database',
+      description: 'Delete a Coolify database; its volumes are kept unless delete_volumes is set',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Database UUID' },
+          delete_volumes: { type: 'boolean', description: 'Also delete the data volumes (default: false)' },
+          confirm: { type: 'boolean', description: 'Must be true' },
+        },
+        required: ['uuid', 'confirm'],
+      },
+    },
     get_coolify_logs: {
       name: 'get_coolify_logs',
       description: 'Get application logs from Coolify',
@@ -534,6 +1356,297 @@ function getToolMetadata(toolName: string) {
         required: ['uuid'],
       },
     },
+    list_coolify_deployments: {
+      name: 'list_coolify_deployments',
+      description: 'List the deployments of a Coolify application, newest first',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Application UUID' },
+          limit: { type: 'number', description: 'Maximum deployments to return (default: 20)' },
+          offset: { type: 'number', description: 'Deployments to skip (default: 0)' },
+        },
+        required: ['uuid'],
+      },
+    },
+    get_coolify_deployment: {
+      name: 'get_coolify_deployment',
+      description: 'Get a Coolify deployment with its status and build log',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Deployment UUID' },
+          log_lines: { type: 'number', description: 'Build log lines to return from the end (default: 200)' },
+        },
+        required: ['uuid'],
+      },
+    },
+    rollback_coolify_application: {
+      name: 'rollback_coolify_application',
+      description: 'Redeploy the last known-good commit (or a given image tag) of a Coolify application, wait for it and report its health',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Application UUID' },
+          commit: { type: 'string', description: 'Commit SHA to return to (default: the last successfully deployed commit before the current one)' },
+          image_tag: { type: 'string', description: 'Image tag to return to; required for applications deployed from a registry image' },
+          wait_for_ready: { type: 'boolean', description: 'Wait for the deployment and health check, sending progress notifications (default: true)' },
+          timeout_seconds: { type: 'number', description: 'Maximum wait (default: 600)' },
+          dry_run: { type: 'boolean', description: 'Report the rollback target without deploying (default: false)' },
+        },
+        required: ['uuid'],
+      },
+    },
+    cancel_coolify_deployment: {
+      name: 'cancel_coolify_deployment',
+      description: 'Cancel a queued or running Coolify deployment',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Deployment UUID' },
+        },
+        required: ['uuid'],
+      },
+    },
+
+    // Coolify Project & Server Tools
+    get_coolify_team: {
+      name: 'get_coolify_team',
+      description: 'Get the Coolify team the API token belongs to',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    list_coolify_projects: {
+      name: 'list_coolify_projects',
+      description: 'List all Coolify projects',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    get_coolify_project: {
+      name: 'get_coolify_project',
+      description: 'Get a Coolify project with its environments',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project_uuid: { type: 'string', description: 'Project UUID' },
+        },
+        required: ['project_uuid'],
+      },
+    },
+    create_coolify_project: {
+      name: 'create_coolify_project',
+      description: 'Create a Coolify project with a production environment',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Project name' },
+          description: { type: 'string', description: 'Project description' },
+        },
+        required: ['name'],
+      },
+    },
+    list_coolify_environments: {
+      name: 'list_coolify_environments',
+      description: 'List the environments of a Coolify project',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project_uuid: { type: 'string', description: 'Project UUID' },
+        },
+        required: ['project_uuid'],
+      },
+    },
+    get_coolify_environment: {
+      name: 'get_coolify_environment',
+      description: 'Get a Coolify environment with the resources it contains',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project_uuid: { type: 'string', description: 'Project UUID' },
+          environment: { type: 'string', description: 'Environment name or UUID' },
+        },
+        required: ['project_uuid', 'environment'],
+      },
+    },
+    create_coolify_environment: {
+      name: 'create_coolify_environment',
+      description: 'Create an environment in a Coolify project',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          project_uuid: { type: 'string', description: 'Project UUID' },
+          name: { type: 'string', description: 'Environment name' },
+        },
+        required: ['project_uuid', 'name'],
+      },
+    },
+    list_coolify_servers: {
+      name: 'list_coolify_servers',
+      description: 'List all Coolify servers with their reachability',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    get_coolify_server: {
+      name: 'get_coolify_server',
+      description: 'Get a Coolify server with its validation status',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Server UUID' },
+        },
+        required: ['uuid'],
+      },
+    },
+    list_coolify_server_resources: {
+      name: 'list_coolify_server_resources',
+      description: 'List the applications, services and databases on a Coolify server',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Server UUID' },
+        },
+        required: ['uuid'],
+      },
+    },
+    validate_coolify_server: {
+      name: 'validate_coolify_server',
+      description: 'Start validating SSH access and Docker on a Coolify server; check the outcome with get_coolify_server',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Server UUID' },
+        },
+        required: ['uuid'],
+      },
+    },
+
+    // Backup Tools
+    configure_database_backup: {
+      name: 'configure_database_backup',
+      description: 'Create or update the Coolify scheduled backup of a database: frequency, local and S3 retention, and S3 destination',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          database_uuid: { type: 'string', description: 'Coolify database UUID (default: COOLIFY_SUPABASE_DB_UUID)' },
+          backup_uuid: { type: 'string', description: 'Scheduled backup UUID; needed when the database has several' },
+          frequency: { type: 'string', description: 'Cron expression or every_minute, hourly, daily, weekly, monthly, yearly (default: daily)' },
+          enabled: { type: 'boolean', description: 'Run on schedule (default: true)' },
+          databases_to_backup: { type: 'string', description: 'Comma-separated database names (default: the database itself)' },
+          dump_all: { type: 'boolean', description: 'Dump the whole cluster with pg_dumpall' },
+          keep_local_count: { type: 'number', description: 'Backups kept on the server (0 keeps all)' },
+          keep_local_days: { type: 'number', description: 'Days backups are kept on the server (0 keeps all)' },
+          keep_local_max_gb: { type: 'number', description: 'Maximum storage for backups on the server, in GB (0 is unlimited)' },
+          save_s3: { type: 'boolean', description: 'Also upload backups to S3 (default: false)' },
+          s3_storage_uuid: { type: 'string', description: 'Coolify S3 storage UUID, required with save_s3' },
+          keep_s3_count: { type: 'number', description: 'Backups kept in S3 (0 keeps all)' },
+          keep_s3_days: { type: 'number', description: 'Days backups are kept in S3 (0 keeps all)' },
+          keep_s3_max_gb: { type: 'number', description: 'Maximum storage for backups in S3, in GB (0 is unlimited)' },
+        },
+      },
+    },
+    list_database_backups: {
+      name: 'list_database_backups',
+      description: 'List the scheduled backups of a Coolify database with their latest execution',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          database_uuid: { type: 'string', description: 'Coolify database UUID (default: COOLIFY_SUPABASE_DB_UUID)' },
+        },
+      },
+    },
+    trigger_database_backup: {
+      name: 'trigger_database_backup',
+      description: 'Run a scheduled backup now and wait for the execution to finish, sending progress notifications',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          database_uuid: { type: 'string', description: 'Coolify database UUID (default: COOLIFY_SUPABASE_DB_UUID)' },
+          backup_uuid: { type: 'string', description: 'Scheduled backup UUID; needed when the database has several' },
+          wait: { type: 'boolean', description: 'Wait for the execution to finish (default: true)' },
+          timeout_seconds: { type: 'number', description: 'Maximum wait (default: 900)' },
+        },
+      },
+    },
+    list_backup_executions: {
+      name: 'list_backup_executions',
+      description: 'List backup executions newest first with status, file name and size',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          database_uuid: { type: 'string', description: 'Coolify database UUID (default: COOLIFY_SUPABASE_DB_UUID)' },
+          backup_uuid: { type: 'string', description: 'Scheduled backup UUID; needed when the database has several' },
+          limit: { type: 'number', description: 'Maximum executions to return (default: 20)' },
+        },
+      },
+    },
+    restore_database_backup: {
+      name: 'restore_database_backup',
+      description: 'Restore a successful backup execution from a local copy of its dump into the configured database or a new database. Restoring over the current database backs it up first and requires confirm',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          database_uuid: { type: 'string', description: 'Coolify database UUID (default: COOLIFY_SUPABASE_DB_UUID)' },
+          backup_uuid: { type: 'string', description: 'Scheduled backup UUID; needed when the database has several' },
+          execution_uuid: { type: 'string', description: 'Backup execution to restore' },
+          file_path: { type: 'string', description: 'Local path of the execution dump file, downloaded from the server or S3' },
+          target: { type: 'string', enum: ['same', 'new'], description: 'Restore over the configured database or into a new one' },
+          new_database_name: { type: 'string', description: 'Database to create, required when target is new' },
+          backup_first: { type: 'boolean', description: 'Back up before restoring over the current database (default: true)' },
+          confirm: { type: 'boolean', description: 'Must be true when target is same' },
+        },
+        required: ['execution_uuid', 'file_path', 'target'],
+      },
+    },
+    dump_database: {
+      name: 'dump_database',
+      description: 'Dump the database to a local file with pg_dump or supabase db dump and return its size and SHA-256. The auth, storage and realtime schemas are left out unless included',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          output_path: { type: 'string', description: 'Local file to write; parent directories are created' },
+          engine: { type: 'string', enum: ['pg_dump', 'supabase'], description: 'Dump with pg_dump or the Supabase CLI (plain SQL only)', default: 'pg_dump' },
+          format: { type: 'string', enum: ['custom', 'plain'], description: 'pg_dump archive format', default: 'custom' },
+          schema_only: { type: 'boolean', description: 'Dump definitions only', default: false },
+          data_only: { type: 'boolean', description: 'Dump data only', default: false },
+          schemas: { type: 'array', items: { type: 'string' }, description: 'Schemas to dump (patterns allowed)' },
+          exclude_schemas: { type: 'array', items: { type: 'string' }, description: 'Schemas to leave out (pg_dump only)' },
+          tables: { type: 'array', items: { type: 'string' }, description: 'Tables to dump, e.g. public.orders (pg_dump only)' },
+          exclude_tables: { type: 'array', items: { type: 'string' }, description: 'Tables to leave out' },
+          include_managed_schemas: { type: 'boolean', description: 'Keep auth, storage and realtime in the dump', default: false },
+          overwrite: { type: 'boolean', description: 'Replace an existing file at output_path', default: false },
+          database_url: { type: 'string', description: 'postgres:// URL to dump instead of the configured database' },
+          timeout_seconds: { type: 'number', description: 'Maximum dump time (default: 3600)' },
+        },
+        required: ['output_path'],
+      },
+    },
+    restore_database: {
+      name: 'restore_database',
+      description: 'Restore a local pg_dump archive or SQL script into the configured database or a database URL, optionally verifying its SHA-256 first. Filters need a custom-format archive',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          file_path: { type: 'string', description: 'Local dump file: custom archive, SQL or gzipped SQL' },
+          database_url: { type: 'string', description: 'postgres:// URL to restore into instead of the configured database' },
+          clean: { type: 'boolean', description: 'Drop objects before recreating them (custom archives only)', default: false },
+          schema_only: { type: 'boolean', description: 'Restore definitions only', default: false },
+          data_only: { type: 'boolean', description: 'Restore data only', default: false },
+          schemas: { type: 'array', items: { type: 'string' }, description: 'Schemas to restore' },
+          tables: { type: 'array', items: { type: 'string' }, description: 'Tables to restore' },
+          single_transaction: { type: 'boolean', description: 'Restore in one transaction so a failure changes nothing', default: true },
+          expected_sha256: { type: 'string', description: 'Checksum returned by dump_database; the restore is refused on mismatch' },
+          timeout_seconds: { type: 'number', description: 'Maximum restore time (default: 3600)' },
+          confirm: { type: 'boolean', description: 'Must be true; the restore writes into the target database' },
+        },
+        required: ['file_path', 'confirm'],
+      },
+    },
 
     // Supabase CLI Tools
     check_cli_installed: {
@@ -614,7 +1727,10 @@ function getToolMetadata(toolName: string) {
       description: 'Reset local database to initial state',
       inputSchema: {
         type: 'object',
-        properties: {},
+        properties: {
+          backup_first: { type: 'boolean', description: 'Run the Coolify scheduled backup and wait for it before resetting', default: false },
+          backup_database_uuid: { type: 'string', description: 'Coolify database to back up (default: COOLIFY_SUPABASE_DB_UUID)' },
+        },
       },
     },
     supabase_migration_new: {
@@ -689,24 +1805,46 @@ function getToolMetadata(toolName: string) {
     // Deployment Tools
     deploy_supabase_to_coolify: {
       name: 'deploy_supabase_to_coolify',
-      description: 'Deploy a complete Supabase instance on Coolify',
+      description: 'Deploy a complete Supabase instance on Coolify as a docker-compose service of the official self-hosted stack',
       inputSchema: {
         type: 'object',
         properties: {
-          name: { type: 'string', description: 'Deployment name' },
-          config: { type: 'object', description: 'Deployment configuration' },
+          name: { type: 'string', description: 'Deployment name (lowercase letters, digits and hyphens)' },
+          project_uuid: { type: 'string', description: 'Coolify project UUID' },
+          server_uuid: { type: 'string', description: 'Coolify server UUID' },
+          environment_name: { type: 'string', description: 'Project environment (default: production)' },
+          environment_uuid: { type: 'string', description: 'Project environment UUID; takes precedence over environment_name' },
+          destination_uuid: { type: 'string', description: 'Docker network on the server, when it has more than one' },
+          wait_for_ready: { type: 'boolean', description: 'Block until the containers run and every component answers through the gateway, sending progress notifications (default: false)' },
+          timeout_seconds: { type: 'number', description: 'Maximum wait with wait_for_ready (default: 600)' },
+          config: {
+            type: 'object',
+            description: 'Deployment configuration',
+            properties: {
+              postgres_version: { type: 'string', description: 'Postgres major version or full supabase/postgres image tag (default: 15)' },
+              enable_auth: { type: 'boolean', description: 'Deploy GoTrue (default: true)' },
+              enable_rest: { type: 'boolean', description: 'Deploy PostgREST (default: true)' },
+              enable_realtime: { type: 'boolean', description: 'Deploy Realtime (default: true)' },
+              enable_storage: { type: 'boolean', description: 'Deploy Storage and imgproxy (default: true)' },
+              enable_graphql: { type: 'boolean', description: 'Expose pg_graphql at /graphql/v1 (default: false)' },
+              enable_studio: { type: 'boolean', description: 'Deploy Studio and postgres-meta (default: true)' },
+              enable_functions: { type: 'boolean', description: 'Deploy the Edge Functions runtime (default: true)' },
+              custom_domain: { type: 'string', description: 'Public URL of the API gateway' },
+              environment_variables: { type: 'object', description: 'Extra or overriding environment variables' },
+            },
+          },
         },
-        required: ['name'],
+        required: ['name', 'project_uuid', 'server_uuid'],
       },
     },
     update_supabase_deployment: {
       name: 'update_supabase_deployment',
-      description: 'Update an existing Supabase deployment',
+      description: 'Update an existing Supabase deployment: regenerate its compose file from the deployed configuration merged with the changes, update its environment and restart it',
       inputSchema: {
         type: 'object',
         properties: {
-          uuid: { type: 'string', description: 'Application UUID' },
-          config: { type: 'object', description: 'Updated configuration' },
+          uuid: { type: 'string', description: 'Coolify service UUID' },
+          config: { type: 'object', description: 'Changes: postgres_version, enable_* flags, custom_domain and environment_variables' },
         },
         required: ['uuid', 'config'],
       },
@@ -722,6 +1860,48 @@ function getToolMetadata(toolName: string) {
         required: ['uuid'],
       },
     },
+    generate_supabase_keys: {
+      name: 'generate_supabase_keys',
+      description: 'Sign HS256 anon and service_role API keys with an existing JWT secret',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          jwt_secret: { type: 'string', description: 'The instance JWT_SECRET (at least 32 characters)' },
+          expires_in_days: { type: 'number', description: 'Key lifetime in days (default: 1825)' },
+          issuer: { type: 'string', description: 'iss claim (default: supabase)' },
+        },
+        required: ['jwt_secret'],
+      },
+    },
+    verify_supabase_key: {
+      name: 'verify_supabase_key',
+      description: 'Decode a Supabase API key and check its signature, expiry and role against a JWT secret',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          key: { type: 'string', description: 'The anon or service_role key' },
+          jwt_secret: { type: 'string', description: 'The JWT_SECRET the key should be signed with' },
+          role: { type: 'string', enum: ['anon', 'service_role'], description: 'Expected role claim' },
+        },
+        required: ['key', 'jwt_secret'],
+      },
+    },
+    rotate_supabase_secrets: {
+      name: 'rotate_supabase_secrets',
+      description: 'Generate a new JWT_SECRET and API keys for a Coolify-hosted Supabase application, restart it and verify the new keys against the REST and auth endpoints. Restores the previous values if verification fails',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uuid: { type: 'string', description: 'Coolify service UUID of the Supabase stack (applications from older deployments also work)' },
+          rotate_postgres_password: { type: 'boolean', description: 'Also rotate POSTGRES_PASSWORD and ALTER ROLE the roles that use it (requires SUPABASE_DB_* configuration, default: false)' },
+          supabase_url: { type: 'string', description: 'Public URL to verify against (default: SUPABASE_URL)' },
+          timeout_seconds: { type: 'number', description: 'How long to wait for the new keys to be accepted (default: 180)' },
+          expires_in_days: { type: 'number', description: 'Lifetime of the new keys in days (default: 1825)' },
+          dry_run: { type: 'boolean', description: 'Show the planned changes without applying them (default: false)' },
+        },
+        required: ['uuid'],
+      },
+    },
 
     // System Tools
     verify_setup: {
@@ -755,8 +1935,8 @@ async function main() {
   console.error(`   Coolify API: ${process.env.COOLIFY_API_URL}`);
   console.error(`   Supabase URL: ${process.env.SUPABASE_URL}`);
   console.error('');
-  console.error('🛠️  Available: 52 tools, 8 resources');
-  console.error('   • Supabase: Migrations, Rollback, Edge Functions, Storage, Auth');
+  console.error(`🛠️  Available: ${toolHandlers.size} tools, 11 resources`);
+  console.error('   • Supabase: Migrations, Rollback, Schema, RLS, Advisors, Edge Functions, Storage, Auth');
   console.error('   • Coolify: Applications, Services, Deployment');
   console.error('   • CLI: Local dev, Type generation, Testing');
   console.error('');
@@ -0,0 +1,160 @@
+/**
+ * Filesystem-backed migration repository
+ * Reads a supabase/migrations directory and reconciles it with the applied migration history
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { splitStatements } from './sql.js';
+import type { Migration, MigrationFile, MigrationHistoryEntry } from './types.js';
+
+// <version>_<name>.sql as written by `supabase migration new`, with an optional
+// .up/.down suffix for paired rollback files
+const MIGRATION_FILE_PATTERN = /^(\d{14})_(.+?)(?:\.(up|down))?\.sql$/;
+
+export class MigrationRepository {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  /**
+   * Absolute path of the migrations directory
+   */
+  get path(): string {
+    return this.directory;
+  }
+
+  /**
+   * List migration files on disk, oldest first.
+   * A missing directory is treated as having no migrations.
+   */
+  async listFiles(): Promise<MigrationFile[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const files = new Map<string, MigrationFile>();
+
+    for (const entry of entries.sort()) {
+      const match = MIGRATION_FILE_PATTERN.exec(entry);
+      if (!match) continue;
+
+      const [, version, name, direction] = match;
+      const filePath = path.join(this.directory, entry);
+      const file = files.get(version) || { version, name, path: '', checksum: '' };
+
+      if (direction === 'down') {
+        file.down_path = filePath;
+      } else {
+        file.path = filePath;
+        file.checksum = migrationChecksum(await fs.readFile(filePath, 'utf8'));
+      }
+
+      files.set(version, file);
+    }
+
+    // A down file without its up file is not a migration
+    return Array.from(files.values()).filter((file) => file.path !== '');
+  }
+
+  /**
+   * Find the migration file for a version
+   */
+  async getFile(version: string): Promise<MigrationFile | undefined> {
+    return (await this.filesByVersion()).get(version);
+  }
+
+  /**
+   * Read the up SQL for a version from disk
+   */
+  async readUpSQL(version: string): Promise<string | undefined> {
+    const file = await this.getFile(version);
+    return file ? fs.readFile(file.path, 'utf8') : undefined;
+  }
+
+  /**
+   * Read the paired down SQL for a version from disk
+   */
+  async readDownSQL(version: string): Promise<string | undefined> {
+    return (await this.readDownSQLs([version])).get(version);
+  }
+
+  /**
+   * Read the paired down SQL of several versions, listing the directory once.
+   * Versions without a down file are left out.
+   */
+  async readDownSQLs(versions: string[]): Promise<Map<string, string>> {
+    const files = await this.filesByVersion();
+    const downSql = new Map<string, string>();
+    for (const version of versions) {
+      const downPath = files.get(version)?.down_path;
+      if (downPath) {
+        downSql.set(version, await fs.readFile(downPath, 'utf8'));
+      }
+    }
+    return downSql;
+  }
+
+  /**
+   * Compare the files on disk with the applied history.
+   * Returns every known version, newest first, as pending (new on disk), applied,
+   * modified (file changed after it was applied) or missing_on_disk.
+   */
+  async reconcile(history: MigrationHistoryEntry[]): Promise<Migration[]> {
+    const files = await this.filesByVersion();
+    const applied = new Map(history.map((entry) => [entry.version, entry]));
+    const versions = Array.from(new Set([...files.keys(), ...applied.keys()])).sort().reverse();
+
+    return versions.map((version) => {
+      const file = files.get(version);
+      const entry = applied.get(version);
+      const appliedChecksum = entry?.statements?.length
+        ? migrationChecksum(entry.statements.join('\n;\n'))
+        : undefined;
+
+      let status: Migration['status'];
+      if (!entry) {
+        status = 'pending';
+      } else if (!file) {
+        status = 'missing_on_disk';
+      } else if (appliedChecksum && appliedChecksum !== file.checksum) {
+        status = 'modified';
+      } else {
+        status = 'applied';
+      }
+
+      return {
+        version,
+        name: entry?.name || file?.name || `Migration ${version}`,
+        status,
+        checksum: file?.checksum,
+        applied_checksum: appliedChecksum,
+        file_path: file?.path,
+        has_down_sql: Boolean(file?.down_path || entry?.has_down_sql),
+      };
+    });
+  }
+
+  private async filesByVersion(): Promise<Map<string, MigrationFile>> {
+    return new Map((await this.listFiles()).map((file) => [file.version, file]));
+  }
+}
+
+/**
+ * Checksum of migration SQL.
+ * Statements are trimmed and rejoined with one separator so that SQL split
+ * into statements by the Supabase CLI matches the file it came from. Text
+ * inside statements, string literals included, is hashed as written.
+ */
+export function migrationChecksum(sql: string): string {
+  return createHash('sha256').update(splitStatements(sql).join(';\n')).digest('hex');
+}
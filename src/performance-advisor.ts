@@ -0,0 +1,548 @@
+/**
+ * Database performance advisor
+ * Reports expensive queries from pg_stat_statements, index and table health from
+ * the statistics views, and summarizes EXPLAIN ANALYZE plans
+ */
+
+import pg from 'pg';
+import type { PoolClient } from 'pg';
+import {
+  PostgresClient,
+  runQuery,
+  databaseErrorResponse,
+  databaseUnavailable,
+} from './database.js';
+import { MANAGED_SCHEMAS, buildReport } from './advisor.js';
+import { splitStatements, isTransactionControl } from './sql.js';
+import type {
+  AdvisorFinding,
+  AdvisorReport,
+  QueryStatistic,
+  ExplainResult,
+  PlanNodeSummary,
+  ToolResponse,
+} from './types.js';
+
+export type QueryOrder = 'total_time' | 'mean_time' | 'calls';
+
+export interface PerformanceAdvisorOptions {
+  /**
+   * Tables with fewer live rows are ignored by the sequential scan and bloat checks
+   */
+  minRows?: number;
+  /**
+   * Share of scans that are sequential before a table is flagged (0-1)
+   */
+  seqScanRatio?: number;
+  /**
+   * Share of dead tuples before a table is flagged as bloated (0-1)
+   */
+  deadTupleRatio?: number;
+}
+
+const DEFAULTS: Required<PerformanceAdvisorOptions> = {
+  minRows: 10000,
+  seqScanRatio: 0.5,
+  deadTupleRatio: 0.2,
+};
+
+// Longest query text returned by get_top_queries
+const MAX_QUERY_LENGTH = 2000;
+
+const STATS_RESET_SQL = `
+  SELECT stats_reset FROM pg_stat_database WHERE datname = current_database()`;
+
+const UNUSED_INDEXES_SQL = `
+  SELECT s.schemaname AS schema,
+         s.relname AS table,
+         s.indexrelname AS name,
+         pg_relation_size(s.indexrelid)::float8 AS size_bytes
+  FROM pg_stat_user_indexes s
+  JOIN pg_index ix ON ix.indexrelid = s.indexrelid
+  WHERE s.idx_scan = 0
+    AND NOT ix.indisunique AND NOT ix.indisprimary
+    AND NOT EXISTS (SELECT 1 FROM pg_constraint con WHERE con.conindid = s.indexrelid)
+    AND s.schemaname <> ALL($1)
+  ORDER BY size_bytes DESC`;
+
+// Indexes on the same table with the same columns, operator classes, expressions and predicate
+const DUPLICATE_INDEXES_SQL = `
+  SELECT n.nspname AS schema,
+         t.relname AS table,
+         array_agg(i.relname::text ORDER BY ix.indisprimary DESC, ix.indisunique DESC, i.relname) AS indexes,
+         array_agg(
+           EXISTS (SELECT 1 FROM pg_constraint con WHERE con.conindid = i.oid)
+           ORDER BY ix.indisprimary DESC, ix.indisunique DESC, i.relname
+         ) AS constraint_backed,
+         sum(pg_relation_size(i.oid))::float8 AS size_bytes
+  FROM pg_index ix
+  JOIN pg_class i ON i.oid = ix.indexrelid
+  JOIN pg_class t ON t.oid = ix.indrelid
+  JOIN pg_namespace n ON n.oid = t.relnamespace
+  WHERE n.nspname <> ALL($1) AND n.nspname NOT LIKE 'pg\\_%'
+  GROUP BY n.nspname, t.relname, ix.indrelid, ix.indkey::text, ix.indclass::text,
+           ix.indcollation::text, ix.indoption::text,
+           COALESCE(pg_get_expr(ix.indexprs, ix.indrelid), ''),
+           COALESCE(pg_get_expr(ix.indpred, ix.indrelid), '')
+  HAVING count(*) > 1
+  ORDER BY 1, 2`;
+
+const TABLE_STATS_SQL = `
+  SELECT schemaname AS schema,
+         relname AS table,
+         seq_scan::float8 AS seq_scan,
+         seq_tup_read::float8 AS seq_tup_read,
+         COALESCE(idx_scan, 0)::float8 AS idx_scan,
+         n_live_tup::float8 AS live_tuples,
+         n_dead_tup::float8 AS dead_tuples,
+         pg_total_relation_size(relid)::float8 AS total_bytes,
+         GREATEST(last_vacuum, last_autovacuum) AS last_vacuum
+  FROM pg_stat_user_tables
+  WHERE schemaname <> ALL($1) AND n_live_tup >= $2
+  ORDER BY seq_tup_read DESC`;
+
+// A foreign key is covered when an index starts with all of its columns, in any order
+const UNINDEXED_FOREIGN_KEYS_SQL = `
+  SELECT n.nspname AS schema,
+         c.relname AS table,
+         con.conname AS name,
+         ARRAY(
+           SELECT a.attname::text
+           FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+           JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+           ORDER BY k.ord
+         ) AS columns,
+         con.confrelid::regclass::text AS references
+  FROM pg_constraint con
+  JOIN pg_class c ON c.oid = con.conrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE con.contype = 'f'
+    AND n.nspname <> ALL($1) AND n.nspname NOT LIKE 'pg\\_%'
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_index ix
+      WHERE ix.indrelid = con.conrelid
+        AND (ix.indkey::int2[])[0:cardinality(con.conkey) - 1] @> con.conkey
+    )
+  ORDER BY 1, 2, 3`;
+
+type Check = (client: PoolClient, options: Required<PerformanceAdvisorOptions>) => Promise<AdvisorFinding[]>;
+
+export class PerformanceAdvisor {
+  constructor(private db?: PostgresClient) {}
+
+  /**
+   * Top statements from pg_stat_statements for the current database
+   */
+  async getTopQueries(
+    orderBy: QueryOrder = 'total_time',
+    limit: number = 20
+  ): Promise<ToolResponse<QueryStatistic[]>> {
+    if (!this.db) {
+      return databaseUnavailable('Query statistics');
+    }
+
+    try {
+      const [extension] = await this.db.rows<{ schema: string }>(
+        `SELECT n.nspname AS schema
+         FROM pg_extension e JOIN pg_namespace n ON n.oid = e.extnamespace
+         WHERE e.extname = 'pg_stat_statements'`
+      );
+      if (!extension) {
+        return {
+          success: false,
+          error: 'pg_stat_statements is not installed. Run: CREATE EXTENSION pg_stat_statements WITH SCHEMA extensions; ' +
+                 '(it must also be listed in shared_preload_libraries)',
+        };
+      }
+
+      // Postgres 13 renamed total_time and mean_time to total_exec_time and mean_exec_time
+      const [{ version }] = await this.db.rows<{ version: number }>(
+        "SELECT current_setting('server_version_num')::int AS version"
+      );
+      const total = version >= 130000 ? 's.total_exec_time' : 's.total_time';
+      const mean = version >= 130000 ? 's.mean_exec_time' : 's.mean_time';
+      const order = { total_time: total, mean_time: mean, calls: 's.calls' }[orderBy];
+
+      const queries = await this.db.rows<QueryStatistic>(
+        `SELECT left(s.query, ${MAX_QUERY_LENGTH}) AS query,
+                r.rolname AS role,
+                s.calls::float8 AS calls,
+                round(${total}::numeric, 2)::float8 AS total_time_ms,
+                round(${mean}::numeric, 2)::float8 AS mean_time_ms,
+                s.rows::float8 AS rows,
+                round((100 * ${total} / NULLIF(sum(${total}) OVER (), 0))::numeric, 2)::float8 AS percent_of_total_time,
+                round(s.shared_blks_hit::numeric / NULLIF(s.shared_blks_hit + s.shared_blks_read, 0), 4)::float8 AS cache_hit_ratio
+         FROM ${pg.escapeIdentifier(extension.schema)}.pg_stat_statements s
+         LEFT JOIN pg_roles r ON r.oid = s.userid
+         WHERE s.dbid = (SELECT oid FROM pg_database WHERE datname = current_database())
+         ORDER BY ${order} DESC
+         LIMIT $1`,
+        [limit]
+      );
+
+      return {
+        success: true,
+        data: queries,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to read query statistics');
+    }
+  }
+
+  /**
+   * Check indexes and tables for common performance problems.
+   * A check that fails is reported in skipped_checks instead of failing the report.
+   */
+  async run(options: PerformanceAdvisorOptions = {}): Promise<ToolResponse<AdvisorReport>> {
+    if (!this.db) {
+      return databaseUnavailable('The performance advisor');
+    }
+
+    const settings: Required<PerformanceAdvisorOptions> = {
+      minRows: options.minRows ?? DEFAULTS.minRows,
+      seqScanRatio: options.seqScanRatio ?? DEFAULTS.seqScanRatio,
+      deadTupleRatio: options.deadTupleRatio ?? DEFAULTS.deadTupleRatio,
+    };
+    const checks: [string, Check][] = [
+      ['unused_index', (client) => this.checkUnusedIndexes(client)],
+      ['duplicate_index', (client) => this.checkDuplicateIndexes(client)],
+      ['unindexed_foreign_key', (client) => this.checkUnindexedForeignKeys(client)],
+      ['table_statistics', (client, opts) => this.checkTables(client, opts)],
+    ];
+
+    try {
+      const report = await this.db.withClient(async (client) => {
+        const findings: AdvisorFinding[] = [];
+        const skipped: AdvisorReport['skipped_checks'] = [];
+
+        for (const [rule, check] of checks) {
+          try {
+            findings.push(...(await check(client, settings)));
+          } catch (error) {
+            skipped.push({ rule, error: error instanceof Error ? error.message : 'Unknown error' });
+          }
+        }
+
+        return buildReport(findings, skipped);
+      });
+
+      return {
+        success: true,
+        data: report,
+        message: `${report.summary.errors} error(s), ${report.summary.warnings} warning(s), ${report.summary.info} info. ` +
+                 'CONCURRENTLY statements cannot run inside a transaction; apply them one at a time with execute_sql',
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to run performance advisor');
+    }
+  }
+
+  /**
+   * Run EXPLAIN on a single statement inside a transaction that is always rolled back.
+   * With analyze the statement really executes, so writes are performed and then undone.
+   */
+  async explainQuery(
+    sql: string,
+    options: { params?: unknown[]; analyze?: boolean } = {}
+  ): Promise<ToolResponse<ExplainResult>> {
+    if (!this.db) {
+      return databaseUnavailable('explain_query');
+    }
+
+    const statements = splitStatements(sql);
+    if (statements.length !== 1 || isTransactionControl(statements[0])) {
+      return {
+        success: false,
+        error: 'explain_query takes exactly one statement, without transaction control',
+      };
+    }
+
+    const analyze = options.analyze !== false;
+    const explain = analyze
+      ? `EXPLAIN (ANALYZE, BUFFERS, FORMAT JSON) ${statements[0]}`
+      : `EXPLAIN (FORMAT JSON) ${statements[0]}`;
+
+    try {
+      const output = await this.db.withClient(async (client) => {
+        await client.query('BEGIN');
+        try {
+          await client.query("SET LOCAL statement_timeout = '60s'");
+          const [result] = await runQuery(client, explain, options.params);
+          return result.rows[0]['QUERY PLAN'];
+        } finally {
+          await client.query('ROLLBACK').catch(() => undefined);
+        }
+      });
+
+      // pg parses the json column; the plan is a one-element array
+      const [root] = (typeof output === 'string' ? JSON.parse(output) : output) as ExplainOutput[];
+      const summary = summarizePlan(root, analyze);
+
+      return {
+        success: true,
+        data: summary,
+        message: analyze
+          ? `Executed in ${summary.execution_time_ms} ms (planning ${summary.planning_time_ms} ms); rolled back`
+          : `Estimated cost ${summary.total_cost}`,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to explain query');
+    }
+  }
+
+  /**
+   * Indexes never used since statistics were last reset
+   */
+  private async checkUnusedIndexes(client: PoolClient): Promise<AdvisorFinding[]> {
+    const { rows: [stats] } = await client.query(STATS_RESET_SQL);
+    const since = stats?.stats_reset ? new Date(stats.stats_reset).toISOString() : 'the statistics were last reset';
+    const { rows } = await client.query(UNUSED_INDEXES_SQL, [MANAGED_SCHEMAS]);
+
+    return rows.map((index) => ({
+      rule: 'unused_index',
+      severity: 'info' as const,
+      category: 'performance' as const,
+      object: `${index.schema}.${index.name}`,
+      message: `Index ${index.schema}.${index.name} on ${index.table} (${formatBytes(index.size_bytes)}) has not been used since ${since}. ` +
+               'It still slows down every write to the table',
+      remediation_sql: `DROP INDEX CONCURRENTLY ${qualifiedName(index.schema, index.name)};`,
+      details: { table: index.table, size_bytes: index.size_bytes, stats_reset: stats?.stats_reset ?? null },
+    }));
+  }
+
+  /**
+   * Identical indexes on the same table; the primary key or unique index is kept
+   */
+  private async checkDuplicateIndexes(client: PoolClient): Promise<AdvisorFinding[]> {
+    const { rows } = await client.query(DUPLICATE_INDEXES_SQL, [MANAGED_SCHEMAS]);
+
+    return rows.map((group) => {
+      const [keep, ...duplicates] = group.indexes as string[];
+      const backed = (group.constraint_backed as boolean[]).slice(1);
+      const remediation = duplicates.map((name, i) =>
+        backed[i]
+          ? `-- ${name} backs a constraint; drop the constraint with ALTER TABLE ${qualifiedName(group.schema, group.table)} DROP CONSTRAINT ... instead`
+          : `DROP INDEX CONCURRENTLY ${qualifiedName(group.schema, name)};`
+      );
+
+      return {
+        rule: 'duplicate_index',
+        severity: 'warning' as const,
+        category: 'performance' as const,
+        object: `${group.schema}.${group.table}`,
+        message: `Table ${group.schema}.${group.table} has identical indexes ${group.indexes.join(', ')}; keep ${keep}`,
+        remediation_sql: remediation.join('\n'),
+        details: { indexes: group.indexes, size_bytes: group.size_bytes },
+      };
+    });
+  }
+
+  /**
+   * Foreign keys without an index make joins and cascading deletes scan the referencing table
+   */
+  private async checkUnindexedForeignKeys(client: PoolClient): Promise<AdvisorFinding[]> {
+    const { rows } = await client.query(UNINDEXED_FOREIGN_KEYS_SQL, [MANAGED_SCHEMAS]);
+
+    return rows.map((fk) => {
+      const columns = (fk.columns as string[]).map((column) => pg.escapeIdentifier(column)).join(', ');
+      return {
+        rule: 'unindexed_foreign_key',
+        severity: 'info' as const,
+        category: 'performance' as const,
+        object: `${fk.schema}.${fk.table}.${fk.name}`,
+        message: `Foreign key ${fk.name} on ${fk.schema}.${fk.table} (${fk.columns.join(', ')}) referencing ${fk.references} has no covering index`,
+        remediation_sql: `CREATE INDEX CONCURRENTLY ON ${qualifiedName(fk.schema, fk.table)} (${columns});`,
+        details: { columns: fk.columns, references: fk.references },
+      };
+    });
+  }
+
+  /**
+   * Large tables read mostly by sequential scans, and tables with many dead tuples.
+   * Bloat is estimated from the dead tuple share reported by the statistics collector.
+   */
+  private async checkTables(
+    client: PoolClient,
+    options: Required<PerformanceAdvisorOptions>
+  ): Promise<AdvisorFinding[]> {
+    const { rows } = await client.query(TABLE_STATS_SQL, [MANAGED_SCHEMAS, options.minRows]);
+    const findings: AdvisorFinding[] = [];
+
+    for (const table of rows) {
+      const object = `${table.schema}.${table.table}`;
+      const scans = table.seq_scan + table.idx_scan;
+      const seqRatio = scans > 0 ? table.seq_scan / scans : 0;
+
+      if (seqRatio >= options.seqScanRatio && table.seq_scan >= 10) {
+        findings.push({
+          rule: 'high_seq_scan_ratio',
+          severity: 'warning',
+          category: 'performance',
+          object,
+          message: `${Math.round(seqRatio * 100)}% of scans on ${object} (~${table.live_tuples} rows) are sequential, ` +
+                   `reading ${table.seq_tup_read} rows in total. Use get_top_queries and explain_query to find the filters that need an index`,
+          details: {
+            seq_scan: table.seq_scan,
+            idx_scan: table.idx_scan,
+            seq_tup_read: table.seq_tup_read,
+            live_tuples: table.live_tuples,
+          },
+        });
+      }
+
+      const tuples = table.live_tuples + table.dead_tuples;
+      const deadRatio = tuples > 0 ? table.dead_tuples / tuples : 0;
+      if (deadRatio >= options.deadTupleRatio) {
+        const bloatBytes = Math.round(table.total_bytes * deadRatio);
+        findings.push({
+          rule: 'table_bloat',
+          severity: 'warning',
+          category: 'performance',
+          object,
+          message: `${Math.round(deadRatio * 100)}% of the rows in ${object} are dead, an estimated ${formatBytes(bloatBytes)} of bloat. ` +
+                   'VACUUM makes the space reusable; reclaiming it needs VACUUM FULL (exclusive lock) or pg_repack',
+          remediation_sql: `VACUUM (ANALYZE) ${qualifiedName(table.schema, table.table)};`,
+          details: {
+            dead_tuples: table.dead_tuples,
+            live_tuples: table.live_tuples,
+            total_bytes: table.total_bytes,
+            estimated_bloat_bytes: bloatBytes,
+            last_vacuum: table.last_vacuum,
+          },
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  private handleError(error: unknown, message: string): ToolResponse<never> {
+    return databaseErrorResponse(error, message);
+  }
+}
+
+// ==================== Plan Summary ====================
+
+interface PlanNode {
+  'Node Type': string;
+  'Relation Name'?: string;
+  'Schema'?: string;
+  'Index Name'?: string;
+  'Total Cost': number;
+  'Plan Rows': number;
+  'Actual Total Time'?: number;
+  'Actual Rows'?: number;
+  'Actual Loops'?: number;
+  'Rows Removed by Filter'?: number;
+  'Shared Hit Blocks'?: number;
+  'Shared Read Blocks'?: number;
+  'Sort Space Type'?: string;
+  'Hash Batches'?: number;
+  Plans?: PlanNode[];
+}
+
+interface ExplainOutput {
+  Plan: PlanNode;
+  'Planning Time'?: number;
+  'Execution Time'?: number;
+}
+
+/**
+ * Reduce an EXPLAIN (FORMAT JSON) plan to its costliest nodes and the problems worth acting on
+ */
+export function summarizePlan(output: ExplainOutput, analyzed: boolean): ExplainResult {
+  const nodes: PlanNodeSummary[] = [];
+  const warnings: string[] = [];
+
+  const visit = (node: PlanNode) => {
+    const loops = node['Actual Loops'] ?? 1;
+    const total = node['Actual Total Time'] !== undefined ? node['Actual Total Time'] * loops : undefined;
+    const childTime = (node.Plans || []).reduce(
+      (sum, child) => sum + (child['Actual Total Time'] ?? 0) * (child['Actual Loops'] ?? 1),
+      0
+    );
+    const relation = node['Relation Name']
+      ? `${node.Schema ? `${node.Schema}.` : ''}${node['Relation Name']}`
+      : undefined;
+    const label = `${node['Node Type']}${relation ? ` on ${relation}` : ''}`;
+
+    nodes.push({
+      node_type: node['Node Type'],
+      relation,
+      index: node['Index Name'],
+      exclusive_time_ms: total !== undefined ? round(Math.max(total - childTime, 0)) : undefined,
+      total_time_ms: total !== undefined ? round(total) : undefined,
+      estimated_rows: node['Plan Rows'],
+      actual_rows: node['Actual Rows'],
+      loops: node['Actual Loops'],
+      rows_removed_by_filter: node['Rows Removed by Filter'],
+    });
+
+    const removed = node['Rows Removed by Filter'] ?? 0;
+    if (node['Node Type'] === 'Seq Scan' && removed > 1000 && removed > (node['Actual Rows'] ?? 0) * 10) {
+      warnings.push(`${label} discarded ${removed * loops} rows with a filter; an index on the filtered columns may help`);
+    }
+
+    const actual = node['Actual Rows'];
+    if (actual !== undefined && Math.max(actual, node['Plan Rows']) >= 100) {
+      const ratio = Math.max(actual, 1) / Math.max(node['Plan Rows'], 1);
+      if (ratio >= 10 || ratio <= 0.1) {
+        warnings.push(
+          `${label} estimated ${node['Plan Rows']} rows but returned ${actual}; run ANALYZE or add extended statistics`
+        );
+      }
+    }
+
+    if (node['Sort Space Type'] === 'Disk') {
+      warnings.push(`${label} spilled to disk; consider raising work_mem or adding an index that provides the order`);
+    }
+    if ((node['Hash Batches'] ?? 1) > 1) {
+      warnings.push(`${label} used ${node['Hash Batches']} batches; the hash table did not fit in work_mem`);
+    }
+
+    (node.Plans || []).forEach(visit);
+  };
+
+  visit(output.Plan);
+
+  const hit = output.Plan['Shared Hit Blocks'];
+  const read = output.Plan['Shared Read Blocks'];
+
+  return {
+    analyzed,
+    rolled_back: true,
+    planning_time_ms: output['Planning Time'],
+    execution_time_ms: output['Execution Time'],
+    total_cost: output.Plan['Total Cost'],
+    estimated_rows: output.Plan['Plan Rows'],
+    actual_rows: output.Plan['Actual Rows'],
+    buffers: hit !== undefined && read !== undefined
+      ? { shared_hit: hit, shared_read: read, hit_ratio: hit + read > 0 ? round(hit / (hit + read), 4) : null }
+      : undefined,
+    hot_nodes: analyzed
+      ? [...nodes].sort((a, b) => (b.exclusive_time_ms ?? 0) - (a.exclusive_time_ms ?? 0)).slice(0, 5)
+      : [...nodes].slice(0, 5),
+    warnings,
+    plan: output.Plan,
+  };
+}
+
+function round(value: number, digits: number = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'kB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${Math.round(value * 10) / 10} ${units[unit]}`;
+}
+
+function qualifiedName(schema: string, name: string): string {
+  return `${pg.escapeIdentifier(schema)}.${pg.escapeIdentifier(name)}`;
+}
@@ -5,15 +5,21 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { CoolifyClient } from './coolify-client.js';
 import { SupabaseManager } from './supabase-client.js';
+import { SchemaInspector, renderSchemaDDL, renderTableDDL } from './schema-inspector.js';
+
+// supabase://schema/{schema}[/tables/{table}][/ddl]
+const SCHEMA_RESOURCE_PATTERN = /^supabase:\/\/schema\/([^/]+)(?:\/tables\/([^/]+))?(\/ddl)?$/;
 
 export function registerResources(
   server: Server,
   coolify: CoolifyClient,
-  supabase: SupabaseManager
+  supabase: SupabaseManager,
+  schema: SchemaInspector
 ) {
   // Handle resource list requests
   server.setRequestHandler(ListResourcesRequestSchema, async () => {
@@ -49,6 +55,24 @@ export function registerResources(
           description: 'Health status of all Supabase services',
           mimeType: 'application/json',
         },
+        {
+          uri: 'supabase://schema',
+          name: 'Database Schemas',
+          description: 'All database schemas with their owner and table count',
+          mimeType: 'application/json',
+        },
+        {
+          uri: 'supabase://schema/public',
+          name: 'Public Schema',
+          description: 'Tables, views, functions, enums and sequences of the public schema',
+          mimeType: 'application/json',
+        },
+        {
+          uri: 'supabase://schema/public/ddl',
+          name: 'Public Schema DDL',
+          description: 'Compact DDL rendering of the public schema',
+          mimeType: 'text/plain',
+        },
         {
           uri: 'coolify://applications',
           name: 'Coolify Applications',
@@ -71,6 +95,38 @@ export function registerResources(
     };
   });
 
+  // Handle resource template list requests
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: 'supabase://schema/{schema}',
+          name: 'Database Schema',
+          description: 'Tables, views, functions, enums and sequences of a schema',
+          mimeType: 'application/json',
+        },
+        {
+          uriTemplate: 'supabase://schema/{schema}/ddl',
+          name: 'Database Schema DDL',
+          description: 'Compact DDL rendering of a schema',
+          mimeType: 'text/plain',
+        },
+        {
+          uriTemplate: 'supabase://schema/{schema}/tables/{table}',
+          name: 'Table Definition',
+          description: 'Columns, constraints, indexes, triggers and RLS status of a table',
+          mimeType: 'application/json',
+        },
+        {
+          uriTemplate: 'supabase://schema/{schema}/tables/{table}/ddl',
+          name: 'Table DDL',
+          description: 'Compact DDL rendering of a table',
+          mimeType: 'text/plain',
+        },
+      ],
+    };
+  });
+
   // Handle resource read requests
   server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     const { uri } = request.params;
@@ -79,6 +135,48 @@ export function registerResources(
       let data: any;
       let description: string;
 
+      const schemaMatch = SCHEMA_RESOURCE_PATTERN.exec(uri);
+      if (schemaMatch) {
+        const [, schemaName, table, ddl] = schemaMatch.map((part) => part && decodeURIComponent(part));
+        const result = table
+          ? await schema.describeTable(table, schemaName)
+          : await schema.inspectSchema(schemaName);
+
+        if (!result.success || !result.data) {
+          throw new Error(result.error || `Failed to read ${uri}`);
+        }
+
+        if (ddl) {
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'text/plain',
+                text: 'columns' in result.data ? renderTableDDL(result.data) : renderSchemaDDL(result.data),
+              },
+            ],
+          };
+        }
+
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(
+                {
+                  description: table ? `Table ${schemaName}.${table}` : `Schema ${schemaName}`,
+                  data: result.data,
+                  timestamp: new Date().toISOString(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
       switch (uri) {
         case 'supabase://migrations': {
           const result = await supabase.listMigrations();
@@ -115,6 +213,13 @@ export function registerResources(
           break;
         }
 
+        case 'supabase://schema': {
+          const result = await schema.listSchemas();
+          data = result.data || [];
+          description = 'All database schemas';
+          break;
+        }
+
         case 'coolify://applications': {
           const result = await coolify.listApplications();
           data = result.data || [];
@@ -0,0 +1,392 @@
+/**
+ * Row Level Security management
+ * Toggles RLS on tables, manages policies and tests them as the anon or
+ * authenticated role with chosen JWT claims
+ */
+
+import pg from 'pg';
+import {
+  PostgresClient,
+  runQuery,
+  describeDatabaseError,
+  databaseErrorResponse,
+  databaseUnavailable,
+} from './database.js';
+import { splitStatements, stripComments, isTransactionControl } from './sql.js';
+import type {
+  RLSTableStatus,
+  RLSPolicy,
+  PolicyCommand,
+  PolicyTestResult,
+  ToolResponse,
+} from './types.js';
+
+export interface PolicyDefinition {
+  schema: string;
+  table: string;
+  name: string;
+  command?: PolicyCommand;
+  permissive?: boolean;
+  roles?: string[];
+  using?: string;
+  withCheck?: string;
+}
+
+export interface PolicyChanges {
+  newName?: string;
+  roles?: string[];
+  using?: string;
+  withCheck?: string;
+}
+
+export interface PolicyTestOptions {
+  role: 'anon' | 'authenticated';
+  claims?: Record<string, unknown>;
+  sql: string;
+  params?: unknown[];
+}
+
+const INSUFFICIENT_PRIVILEGE = '42501';
+
+// Statements that would leave the test role or the rolled-back transaction
+const ROLE_CHANGE = /^(SET\s+(SESSION\s+|LOCAL\s+)?(ROLE|SESSION\s+AUTHORIZATION)|RESET\s+(ROLE|SESSION\s+AUTHORIZATION|ALL))\b/i;
+
+// set_config() calls that change the role or the JWT claims the test set up
+const IDENTITY_SET_CONFIG = /\bset_config\s*\(\s*'\s*(role|session_authorization|request\.jwt\.[^']*)\s*'/i;
+
+// Role names that are keywords in a TO clause and must not be quoted
+const ROLE_KEYWORDS = ['public', 'current_role', 'current_user', 'session_user'];
+
+const RLS_TABLES_SQL = `
+  SELECT n.nspname AS schema,
+         c.relname AS table,
+         c.relrowsecurity AS rls_enabled,
+         c.relforcerowsecurity AS rls_forced,
+         (SELECT count(*) FROM pg_policy p WHERE p.polrelid = c.oid)::int AS policy_count
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = ANY($1) AND c.relkind IN ('r', 'p')
+  ORDER BY n.nspname, c.relname`;
+
+const POLICIES_SQL = `
+  SELECT schemaname AS schema,
+         tablename AS table,
+         policyname AS name,
+         permissive = 'PERMISSIVE' AS permissive,
+         roles::text[] AS roles,
+         cmd AS command,
+         qual AS using,
+         with_check
+  FROM pg_policies
+  WHERE schemaname = ANY($1)
+    AND ($2::text IS NULL OR tablename = $2)
+  ORDER BY schemaname, tablename, policyname`;
+
+export class RLSManager {
+  constructor(private db?: PostgresClient) {}
+
+  /**
+   * List tables in the given schemas with their RLS status and policy count
+   */
+  async listTables(schemas: string[] = ['public']): Promise<ToolResponse<RLSTableStatus[]>> {
+    if (!this.db) {
+      return databaseUnavailable('RLS management');
+    }
+
+    try {
+      const tables = await this.db.rows<RLSTableStatus>(RLS_TABLES_SQL, [schemas]);
+      const unprotected = tables.filter((table) => !table.rls_enabled).length;
+
+      return {
+        success: true,
+        data: tables,
+        message: unprotected > 0 ? `${unprotected} table(s) without Row Level Security` : undefined,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to list RLS status');
+    }
+  }
+
+  /**
+   * Enable or disable RLS and FORCE RLS on a table.
+   * Settings left undefined are not changed.
+   */
+  async setTableRLS(
+    schema: string,
+    table: string,
+    settings: { enabled?: boolean; forced?: boolean }
+  ): Promise<ToolResponse<RLSTableStatus>> {
+    if (!this.db) {
+      return databaseUnavailable('RLS management');
+    }
+
+    const target = qualifiedName(schema, table);
+    const actions: string[] = [];
+    if (settings.enabled !== undefined) {
+      actions.push(`${settings.enabled ? 'ENABLE' : 'DISABLE'} ROW LEVEL SECURITY`);
+    }
+    if (settings.forced !== undefined) {
+      actions.push(`${settings.forced ? 'FORCE' : 'NO FORCE'} ROW LEVEL SECURITY`);
+    }
+
+    try {
+      const sql = `ALTER TABLE ${target} ${actions.join(', ')}`;
+      await this.db.query(sql);
+
+      const [status] = (await this.db.rows<RLSTableStatus>(RLS_TABLES_SQL, [[schema]]))
+        .filter((row) => row.table === table);
+
+      return {
+        success: true,
+        data: status,
+        message: `Executed: ${sql}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to update RLS on ${schema}.${table}`);
+    }
+  }
+
+  /**
+   * List policies, optionally for a single table
+   */
+  async listPolicies(schemas: string[] = ['public'], table?: string): Promise<ToolResponse<RLSPolicy[]>> {
+    if (!this.db) {
+      return databaseUnavailable('RLS management');
+    }
+
+    try {
+      const policies = await this.db.rows<RLSPolicy>(POLICIES_SQL, [schemas, table ?? null]);
+      return {
+        success: true,
+        data: policies,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to list policies');
+    }
+  }
+
+  /**
+   * Create a policy
+   */
+  async createPolicy(policy: PolicyDefinition): Promise<ToolResponse<RLSPolicy>> {
+    if (!this.db) {
+      return databaseUnavailable('RLS management');
+    }
+
+    try {
+      const sql = buildCreatePolicySQL(policy);
+      await this.db.query(sql);
+
+      return {
+        success: true,
+        data: await this.getPolicy(policy.schema, policy.table, policy.name),
+        message: `Executed: ${sql}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to create policy ${policy.name} on ${policy.schema}.${policy.table}`);
+    }
+  }
+
+  /**
+   * Change the roles, expressions or name of a policy.
+   * The command and permissive/restrictive mode cannot be altered; drop and recreate the policy instead.
+   */
+  async alterPolicy(
+    schema: string,
+    table: string,
+    name: string,
+    changes: PolicyChanges
+  ): Promise<ToolResponse<RLSPolicy>> {
+    if (!this.db) {
+      return databaseUnavailable('RLS management');
+    }
+
+    const target = qualifiedName(schema, table);
+    const statements: string[] = [];
+    const clauses = [
+      changes.roles ? `TO ${formatRoles(changes.roles)}` : undefined,
+      changes.using !== undefined ? `USING (${changes.using})` : undefined,
+      changes.withCheck !== undefined ? `WITH CHECK (${changes.withCheck})` : undefined,
+    ].filter(Boolean);
+
+    if (clauses.length > 0) {
+      statements.push(`ALTER POLICY ${pg.escapeIdentifier(name)} ON ${target} ${clauses.join(' ')}`);
+    }
+    if (changes.newName && changes.newName !== name) {
+      statements.push(
+        `ALTER POLICY ${pg.escapeIdentifier(name)} ON ${target} RENAME TO ${pg.escapeIdentifier(changes.newName)}`
+      );
+    }
+
+    try {
+      await this.db.transaction(async (client) => {
+        for (const statement of statements) {
+          await client.query(statement);
+        }
+      });
+
+      return {
+        success: true,
+        data: await this.getPolicy(schema, table, changes.newName || name),
+        message: `Executed: ${statements.join('; ')}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to alter policy ${name} on ${schema}.${table}`);
+    }
+  }
+
+  /**
+   * Drop a policy
+   */
+  async dropPolicy(schema: string, table: string, name: string): Promise<ToolResponse<void>> {
+    if (!this.db) {
+      return databaseUnavailable('RLS management');
+    }
+
+    try {
+      const sql = `DROP POLICY ${pg.escapeIdentifier(name)} ON ${qualifiedName(schema, table)}`;
+      await this.db.query(sql);
+
+      return {
+        success: true,
+        message: `Executed: ${sql}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to drop policy ${name} on ${schema}.${table}`);
+    }
+  }
+
+  /**
+   * Run a query as anon or authenticated with the given JWT claims, the way
+   * PostgREST does, and report what the policies allowed.
+   * The transaction is always rolled back, so writes can be tested safely.
+   */
+  async testPolicy(options: PolicyTestOptions): Promise<ToolResponse<PolicyTestResult>> {
+    if (!this.db) {
+      return databaseUnavailable('Policy testing');
+    }
+
+    const escaping = splitStatements(options.sql).find(
+      (statement) => isTransactionControl(statement) ||
+        ROLE_CHANGE.test(stripComments(statement).trim()) ||
+        IDENTITY_SET_CONFIG.test(stripComments(statement))
+    );
+    if (escaping) {
+      return {
+        success: false,
+        error: `Policy tests cannot change roles or JWT claims, or control the transaction: ${escaping}`,
+      };
+    }
+
+    const claims = { role: options.role, ...options.claims };
+    const result: PolicyTestResult = {
+      role: options.role,
+      claims,
+      allowed: true,
+      rolled_back: true,
+    };
+
+    let changedIdentity: string | undefined;
+    try {
+      await this.db.withClient(async (client) => {
+        await client.query('BEGIN');
+        try {
+          await client.query("SET LOCAL statement_timeout = '30s'");
+          await client.query(`SET LOCAL ROLE ${pg.escapeIdentifier(options.role)}`);
+
+          // request.jwt.claims is read by auth.uid() and auth.jwt(); the per-claim
+          // settings are the older form some policies still use
+          await client.query("SELECT set_config('request.jwt.claims', $1, true)", [JSON.stringify(claims)]);
+          for (const [key, value] of Object.entries(claims)) {
+            if (value !== null && typeof value !== 'object') {
+              await client.query('SELECT set_config($1, $2, true)', [`request.jwt.claim.${key}`, String(value)]);
+            }
+          }
+
+          try {
+            const statements = await runQuery(client, options.sql, options.params);
+
+            // Catches what the text checks cannot see, e.g. set_config() with computed arguments
+            const { rows: [identity] } = await client.query(
+              "SELECT current_user AS role, current_setting('request.jwt.claims', true) AS claims"
+            );
+            if (identity.role !== options.role || identity.claims !== JSON.stringify(claims)) {
+              changedIdentity = `ran as ${identity.role} with claims ${identity.claims}`;
+              return;
+            }
+
+            const last = statements[statements.length - 1];
+            result.command = last?.command;
+            result.rows = last?.rows;
+            result.row_count = last?.row_count;
+          } catch (error) {
+            const details = describeDatabaseError(error);
+            if (details?.code !== INSUFFICIENT_PRIVILEGE) {
+              throw error;
+            }
+            result.allowed = false;
+            result.error = (error as Error).message;
+            result.error_details = details;
+          }
+        } finally {
+          await client.query('ROLLBACK').catch(() => undefined);
+        }
+      });
+
+      if (changedIdentity) {
+        return {
+          success: false,
+          error: `The query changed the role or JWT claims of the test, so its result does not show what ${options.role} may do (${changedIdentity})`,
+        };
+      }
+
+      return {
+        success: true,
+        data: result,
+        message: result.allowed
+          ? `Query ran as ${options.role}${result.row_count !== null && result.row_count !== undefined ? ` and affected or returned ${result.row_count} row(s)` : ''}; rolled back`
+          : `Query was rejected for ${options.role}: ${result.error}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to test policy as ${options.role}`);
+    }
+  }
+
+  private async getPolicy(schema: string, table: string, name: string): Promise<RLSPolicy | undefined> {
+    const policies = await this.db!.rows<RLSPolicy>(POLICIES_SQL, [[schema], table]);
+    return policies.find((policy) => policy.name === name);
+  }
+
+  private handleError(error: unknown, message: string): ToolResponse<never> {
+    return databaseErrorResponse(error, message);
+  }
+}
+
+/**
+ * Build a CREATE POLICY statement
+ */
+export function buildCreatePolicySQL(policy: PolicyDefinition): string {
+  const parts = [
+    `CREATE POLICY ${pg.escapeIdentifier(policy.name)} ON ${qualifiedName(policy.schema, policy.table)}`,
+    `AS ${policy.permissive === false ? 'RESTRICTIVE' : 'PERMISSIVE'}`,
+    `FOR ${policy.command || 'ALL'}`,
+    `TO ${formatRoles(policy.roles || ['public'])}`,
+  ];
+  if (policy.using) {
+    parts.push(`USING (${policy.using})`);
+  }
+  if (policy.withCheck) {
+    parts.push(`WITH CHECK (${policy.withCheck})`);
+  }
+  return parts.join('\n  ');
+}
+
+function formatRoles(roles: string[]): string {
+  return roles
+    .map((role) => (ROLE_KEYWORDS.includes(role.toLowerCase()) ? role.toUpperCase() : pg.escapeIdentifier(role)))
+    .join(', ');
+}
+
+function qualifiedName(schema: string, table: string): string {
+  return `${pg.escapeIdentifier(schema)}.${pg.escapeIdentifier(table)}`;
+}
@@ -0,0 +1,612 @@
+/**
+ * Database schema introspection
+ * Reads schemas, tables, views, functions, enums and sequences from pg_catalog
+ * and renders them as structured JSON or compact DDL
+ */
+
+import type { PoolClient } from 'pg';
+import { PostgresClient, databaseErrorResponse, databaseUnavailable } from './database.js';
+import type {
+  SchemaInfo,
+  SchemaSnapshot,
+  TableInfo,
+  ColumnInfo,
+  ConstraintInfo,
+  IndexInfo,
+  TriggerInfo,
+  ViewInfo,
+  FunctionInfo,
+  EnumInfo,
+  SequenceInfo,
+  ToolResponse,
+} from './types.js';
+
+export type SchemaObjectKind = 'tables' | 'views' | 'functions' | 'enums' | 'sequences';
+
+export const SCHEMA_OBJECT_KINDS: SchemaObjectKind[] = ['tables', 'views', 'functions', 'enums', 'sequences'];
+
+export interface SchemaInspectOptions {
+  /**
+   * Object kinds to read; all of them by default
+   */
+  objects?: SchemaObjectKind[];
+  /**
+   * Include full view and function definitions
+   */
+  includeDefinitions?: boolean;
+}
+
+// Every query takes the schema name as $1 and an optional relation name filter as $2
+
+const SCHEMAS_SQL = `
+  SELECT n.nspname AS name,
+         pg_get_userbyid(n.nspowner) AS owner,
+         (SELECT count(*) FROM pg_class c WHERE c.relnamespace = n.oid AND c.relkind IN ('r', 'p'))::int AS table_count,
+         obj_description(n.oid, 'pg_namespace') AS comment
+  FROM pg_namespace n
+  WHERE $1 OR (n.nspname NOT LIKE 'pg\\_%' AND n.nspname <> 'information_schema')
+  ORDER BY n.nspname`;
+
+const TABLES_SQL = `
+  SELECT c.relname AS name,
+         c.relkind AS kind,
+         c.relrowsecurity AS rls_enabled,
+         c.relforcerowsecurity AS rls_forced,
+         c.reltuples::float8 AS estimated_rows,
+         pg_total_relation_size(c.oid)::float8 AS total_bytes,
+         obj_description(c.oid, 'pg_class') AS comment
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = $1 AND c.relkind IN ('r', 'p')
+    AND ($2::text IS NULL OR c.relname = $2)
+  ORDER BY c.relname`;
+
+const COLUMNS_SQL = `
+  SELECT c.relname AS relation,
+         a.attname AS name,
+         format_type(a.atttypid, a.atttypmod) AS type,
+         NOT a.attnotnull AS nullable,
+         pg_get_expr(d.adbin, d.adrelid) AS default,
+         a.attidentity::text AS identity,
+         a.attgenerated::text AS generated,
+         col_description(c.oid, a.attnum) AS comment
+  FROM pg_attribute a
+  JOIN pg_class c ON c.oid = a.attrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+  WHERE n.nspname = $1 AND c.relkind IN ('r', 'p', 'v', 'm')
+    AND ($2::text IS NULL OR c.relname = $2)
+    AND a.attnum > 0 AND NOT a.attisdropped
+  ORDER BY c.relname, a.attnum`;
+
+const CONSTRAINTS_SQL = `
+  SELECT c.relname AS relation,
+         con.conname AS name,
+         con.contype::text AS type,
+         ARRAY(
+           SELECT a.attname::text
+           FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+           JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+           ORDER BY k.ord
+         ) AS columns,
+         pg_get_constraintdef(con.oid, true) AS definition,
+         CASE WHEN con.confrelid <> 0 THEN con.confrelid::regclass::text END AS references
+  FROM pg_constraint con
+  JOIN pg_class c ON c.oid = con.conrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = $1 AND con.contype IN ('p', 'f', 'u', 'c', 'x', 't')
+    AND ($2::text IS NULL OR c.relname = $2)
+  ORDER BY c.relname, con.contype = 'p' DESC, con.conname`;
+
+const INDEXES_SQL = `
+  SELECT t.relname AS relation,
+         i.relname AS name,
+         pg_get_indexdef(i.oid) AS definition,
+         am.amname AS method,
+         ix.indisunique AS unique,
+         ix.indisprimary AS primary,
+         EXISTS (SELECT 1 FROM pg_constraint con WHERE con.conindid = i.oid AND con.contype IN ('p', 'u', 'x')) AS constraint_backed,
+         pg_relation_size(i.oid)::float8 AS size_bytes
+  FROM pg_index ix
+  JOIN pg_class i ON i.oid = ix.indexrelid
+  JOIN pg_class t ON t.oid = ix.indrelid
+  JOIN pg_namespace n ON n.oid = t.relnamespace
+  JOIN pg_am am ON am.oid = i.relam
+  WHERE n.nspname = $1 AND t.relkind IN ('r', 'p', 'm')
+    AND ($2::text IS NULL OR t.relname = $2)
+  ORDER BY t.relname, i.relname`;
+
+const TRIGGERS_SQL = `
+  SELECT c.relname AS relation,
+         t.tgname AS name,
+         pg_get_triggerdef(t.oid, true) AS definition,
+         t.tgfoid::regproc::text AS function,
+         t.tgenabled <> 'D' AS enabled
+  FROM pg_trigger t
+  JOIN pg_class c ON c.oid = t.tgrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = $1 AND NOT t.tgisinternal
+    AND ($2::text IS NULL OR c.relname = $2)
+  ORDER BY c.relname, t.tgname`;
+
+const VIEWS_SQL = `
+  SELECT c.relname AS name,
+         c.relkind = 'm' AS materialized,
+         COALESCE(c.reloptions, '{}') AS options,
+         obj_description(c.oid, 'pg_class') AS comment,
+         pg_get_viewdef(c.oid, true) AS definition
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = $1 AND c.relkind IN ('v', 'm')
+    AND ($2::text IS NULL OR c.relname = $2)
+  ORDER BY c.relname`;
+
+// Functions that belong to an extension are left out; they are not part of the application schema
+const FUNCTIONS_SQL = `
+  SELECT p.proname AS name,
+         pg_get_function_identity_arguments(p.oid) AS arguments,
+         pg_get_function_result(p.oid) AS returns,
+         l.lanname AS language,
+         p.prokind::text AS kind,
+         p.provolatile::text AS volatility,
+         p.prosecdef AS security_definer,
+         COALESCE(p.proconfig, '{}') AS config,
+         obj_description(p.oid, 'pg_proc') AS comment,
+         CASE WHEN $3 THEN pg_get_functiondef(p.oid) END AS definition
+  FROM pg_proc p
+  JOIN pg_namespace n ON n.oid = p.pronamespace
+  JOIN pg_language l ON l.oid = p.prolang
+  WHERE n.nspname = $1 AND p.prokind IN ('f', 'p', 'w')
+    AND ($2::text IS NULL OR p.proname = $2)
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_depend d
+      WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+    )
+  ORDER BY p.proname, 2`;
+
+const ENUMS_SQL = `
+  SELECT t.typname AS name,
+         array_agg(e.enumlabel::text ORDER BY e.enumsortorder) AS values
+  FROM pg_type t
+  JOIN pg_namespace n ON n.oid = t.typnamespace
+  JOIN pg_enum e ON e.enumtypid = t.oid
+  WHERE n.nspname = $1
+    AND ($2::text IS NULL OR t.typname = $2)
+  GROUP BY t.typname
+  ORDER BY t.typname`;
+
+const SEQUENCES_SQL = `
+  SELECT c.relname AS name,
+         format_type(s.seqtypid, NULL) AS data_type,
+         s.seqstart::text AS start_value,
+         s.seqincrement::text AS increment_by,
+         s.seqmin::text AS min_value,
+         s.seqmax::text AS max_value,
+         s.seqcycle AS cycle,
+         CASE WHEN has_sequence_privilege(c.oid, 'SELECT') THEN pg_sequence_last_value(c.oid)::text END AS last_value,
+         (
+           SELECT d.refobjid::regclass::text || '.' || a.attname
+           FROM pg_depend d
+           JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+           WHERE d.classid = 'pg_class'::regclass AND d.objid = c.oid
+             AND d.refclassid = 'pg_class'::regclass AND d.deptype IN ('a', 'i')
+           LIMIT 1
+         ) AS owned_by
+  FROM pg_sequence s
+  JOIN pg_class c ON c.oid = s.seqrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = $1
+    AND ($2::text IS NULL OR c.relname = $2)
+  ORDER BY c.relname`;
+
+const CONSTRAINT_TYPES: Record<string, ConstraintInfo['type']> = {
+  p: 'primary_key',
+  f: 'foreign_key',
+  u: 'unique',
+  c: 'check',
+  x: 'exclusion',
+  t: 'trigger',
+};
+
+const FUNCTION_KINDS: Record<string, FunctionInfo['kind']> = {
+  f: 'function',
+  p: 'procedure',
+  w: 'window',
+};
+
+const VOLATILITY: Record<string, FunctionInfo['volatility']> = {
+  i: 'immutable',
+  s: 'stable',
+  v: 'volatile',
+};
+
+type RelationRow<T> = T & { relation: string };
+
+export class SchemaInspector {
+  constructor(private db?: PostgresClient) {}
+
+  /**
+   * List schemas with their owner and table count.
+   * pg_catalog, information_schema and other pg_* schemas are hidden unless includeSystem is set.
+   */
+  async listSchemas(includeSystem: boolean = false): Promise<ToolResponse<SchemaInfo[]>> {
+    if (!this.db) {
+      return databaseUnavailable('Schema introspection');
+    }
+
+    try {
+      const schemas = await this.db.rows<SchemaInfo>(SCHEMAS_SQL, [includeSystem]);
+      return {
+        success: true,
+        data: schemas,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to list schemas');
+    }
+  }
+
+  /**
+   * Read the objects of a schema from a single consistent snapshot
+   */
+  async inspectSchema(
+    schema: string = 'public',
+    options: SchemaInspectOptions = {}
+  ): Promise<ToolResponse<SchemaSnapshot>> {
+    if (!this.db) {
+      return databaseUnavailable('Schema introspection');
+    }
+
+    try {
+      const objects = new Set(options.objects || SCHEMA_OBJECT_KINDS);
+
+      const snapshot = await this.readOnly(async (client) => {
+        await this.assertSchemaExists(client, schema);
+
+        const params = [schema, null];
+        const columns = objects.has('tables') || objects.has('views')
+          ? await this.readColumns(client, params)
+          : new Map<string, ColumnInfo[]>();
+
+        return {
+          schema,
+          tables: objects.has('tables') ? await this.readTables(client, params, columns) : [],
+          views: objects.has('views')
+            ? await this.readViews(client, params, columns, options.includeDefinitions)
+            : [],
+          functions: objects.has('functions')
+            ? await this.readFunctions(client, params, options.includeDefinitions)
+            : [],
+          enums: objects.has('enums') ? await this.readEnums(client, params) : [],
+          sequences: objects.has('sequences') ? await this.readSequences(client, params) : [],
+        };
+      });
+
+      return {
+        success: true,
+        data: snapshot,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to inspect schema ${schema}`);
+    }
+  }
+
+  /**
+   * Describe one table with its columns, constraints, indexes and triggers
+   */
+  async describeTable(table: string, schema: string = 'public'): Promise<ToolResponse<TableInfo>> {
+    if (!this.db) {
+      return databaseUnavailable('Schema introspection');
+    }
+
+    try {
+      const tables = await this.readOnly(async (client) => {
+        const params = [schema, table];
+        return this.readTables(client, params, await this.readColumns(client, params));
+      });
+
+      if (tables.length === 0) {
+        return {
+          success: false,
+          error: `Table ${schema}.${table} not found`,
+        };
+      }
+
+      return {
+        success: true,
+        data: tables[0],
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to describe table ${schema}.${table}`);
+    }
+  }
+
+  /**
+   * Run reads in a read-only repeatable-read transaction, so every catalog
+   * query sees the same state even while migrations are running
+   */
+  private async readOnly<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    return this.db!.transaction(async (client) => {
+      await client.query('SET TRANSACTION ISOLATION LEVEL REPEATABLE READ READ ONLY');
+      return fn(client);
+    });
+  }
+
+  private async assertSchemaExists(client: PoolClient, schema: string): Promise<void> {
+    const { rowCount } = await client.query('SELECT 1 FROM pg_namespace WHERE nspname = $1', [schema]);
+    if (!rowCount) {
+      throw new Error(`Schema ${schema} does not exist`);
+    }
+  }
+
+  private async readTables(
+    client: PoolClient,
+    params: unknown[],
+    columns: Map<string, ColumnInfo[]>
+  ): Promise<TableInfo[]> {
+    const schema = params[0] as string;
+    const tables = (await client.query(TABLES_SQL, params)).rows;
+    if (tables.length === 0) {
+      return [];
+    }
+
+    const constraints = groupByRelation(
+      (await client.query(CONSTRAINTS_SQL, params)).rows.map(
+        (row): RelationRow<ConstraintInfo> => ({
+          relation: row.relation,
+          name: row.name,
+          type: CONSTRAINT_TYPES[row.type],
+          columns: row.columns,
+          definition: row.definition,
+          references: row.references || undefined,
+        })
+      )
+    );
+    const indexes = groupByRelation<IndexInfo>((await client.query(INDEXES_SQL, params)).rows);
+    const triggers = groupByRelation<TriggerInfo>((await client.query(TRIGGERS_SQL, params)).rows);
+
+    return tables.map((row) => ({
+      schema,
+      name: row.name,
+      kind: row.kind === 'p' ? 'partitioned_table' : 'table',
+      rls_enabled: row.rls_enabled,
+      rls_forced: row.rls_forced,
+      // Postgres 14+ reports -1 for tables that were never vacuumed or analyzed
+      estimated_rows: row.estimated_rows >= 0 ? row.estimated_rows : null,
+      total_bytes: row.total_bytes,
+      comment: row.comment,
+      columns: columns.get(row.name) || [],
+      constraints: constraints.get(row.name) || [],
+      indexes: indexes.get(row.name) || [],
+      triggers: triggers.get(row.name) || [],
+    }));
+  }
+
+  /**
+   * Columns of tables and views, keyed by relation name
+   */
+  private async readColumns(client: PoolClient, params: unknown[]): Promise<Map<string, ColumnInfo[]>> {
+    const { rows } = await client.query(COLUMNS_SQL, params);
+    return groupByRelation(
+      rows.map((row): RelationRow<ColumnInfo> => {
+        // pg_attrdef holds the expression of generated columns as well as defaults
+        const generated = row.generated === 's';
+        return {
+          relation: row.relation,
+          name: row.name,
+          type: row.type,
+          nullable: row.nullable,
+          default: generated ? null : row.default,
+          identity: row.identity === 'a' ? 'always' : row.identity === 'd' ? 'by_default' : undefined,
+          generated: generated ? row.default : undefined,
+          comment: row.comment,
+        };
+      })
+    );
+  }
+
+  private async readViews(
+    client: PoolClient,
+    params: unknown[],
+    columns: Map<string, ColumnInfo[]>,
+    includeDefinitions?: boolean
+  ): Promise<ViewInfo[]> {
+    const schema = params[0] as string;
+    const { rows: views } = await client.query(VIEWS_SQL, params);
+
+    return views.map((row) => ({
+      schema,
+      name: row.name,
+      materialized: row.materialized,
+      options: row.options,
+      comment: row.comment,
+      columns: columns.get(row.name) || [],
+      definition: includeDefinitions ? row.definition : summarize(row.definition),
+    }));
+  }
+
+  private async readFunctions(
+    client: PoolClient,
+    params: unknown[],
+    includeDefinitions?: boolean
+  ): Promise<FunctionInfo[]> {
+    const schema = params[0] as string;
+    const { rows } = await client.query(FUNCTIONS_SQL, [...params, Boolean(includeDefinitions)]);
+
+    return rows.map((row) => ({
+      schema,
+      name: row.name,
+      arguments: row.arguments,
+      returns: row.returns,
+      language: row.language,
+      kind: FUNCTION_KINDS[row.kind],
+      volatility: VOLATILITY[row.volatility],
+      security_definer: row.security_definer,
+      config: row.config,
+      comment: row.comment,
+      definition: row.definition || undefined,
+    }));
+  }
+
+  private async readEnums(client: PoolClient, params: unknown[]): Promise<EnumInfo[]> {
+    const schema = params[0] as string;
+    const { rows } = await client.query(ENUMS_SQL, params);
+    return rows.map((row) => ({ schema, name: row.name, values: row.values }));
+  }
+
+  private async readSequences(client: PoolClient, params: unknown[]): Promise<SequenceInfo[]> {
+    const schema = params[0] as string;
+    const { rows } = await client.query(SEQUENCES_SQL, params);
+    return rows.map((row) => ({ schema, ...row }));
+  }
+
+  private handleError(error: unknown, message: string): ToolResponse<never> {
+    return databaseErrorResponse(error, message);
+  }
+}
+
+// ==================== DDL Rendering ====================
+
+/**
+ * Render a schema snapshot as compact DDL-like text.
+ * Meant for reading, not replaying: constraint-backed indexes are folded into
+ * their constraints and long bodies are elided unless definitions were requested.
+ */
+export function renderSchemaDDL(snapshot: SchemaSnapshot): string {
+  const blocks: string[] = [`-- Schema ${snapshot.schema}`];
+
+  for (const item of snapshot.enums) {
+    const values = item.values.map((value) => `'${value.replace(/'/g, "''")}'`).join(', ');
+    blocks.push(`CREATE TYPE ${qualifiedName(item.schema, item.name)} AS ENUM (${values});`);
+  }
+
+  for (const sequence of snapshot.sequences) {
+    // Sequences behind identity and serial columns are implied by the column
+    if (sequence.owned_by) continue;
+    blocks.push(
+      `CREATE SEQUENCE ${qualifiedName(sequence.schema, sequence.name)} AS ${sequence.data_type}` +
+      ` START ${sequence.start_value} INCREMENT ${sequence.increment_by};`
+    );
+  }
+
+  for (const table of snapshot.tables) {
+    blocks.push(renderTableDDL(table));
+  }
+
+  for (const view of snapshot.views) {
+    blocks.push(renderViewDDL(view));
+  }
+
+  for (const fn of snapshot.functions) {
+    blocks.push(renderFunctionDDL(fn));
+  }
+
+  return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * Render one table, its indexes and triggers as compact DDL-like text
+ */
+export function renderTableDDL(table: TableInfo): string {
+  const name = qualifiedName(table.schema, table.name);
+  const notes = [
+    table.rls_enabled ? `RLS enabled${table.rls_forced ? ' (forced)' : ''}` : 'RLS disabled',
+    table.estimated_rows !== null ? `~${table.estimated_rows} rows` : undefined,
+    table.kind === 'partitioned_table' ? 'partitioned' : undefined,
+  ].filter(Boolean);
+
+  const lines = [
+    ...table.columns.map(renderColumn),
+    ...table.constraints.map((constraint) => `CONSTRAINT ${quoteIdentifier(constraint.name)} ${constraint.definition}`),
+  ];
+
+  const statements = [
+    `CREATE TABLE ${name} ( -- ${notes.join(', ')}\n  ${lines.join(',\n  ')}\n);`,
+  ];
+
+  if (table.comment) {
+    statements.push(`COMMENT ON TABLE ${name} IS ${quoteLiteral(table.comment)};`);
+  }
+  for (const index of table.indexes) {
+    if (!index.constraint_backed) {
+      statements.push(`${index.definition};`);
+    }
+  }
+  for (const trigger of table.triggers) {
+    statements.push(`${trigger.definition};${trigger.enabled ? '' : ' -- disabled'}`);
+  }
+
+  return statements.join('\n');
+}
+
+function renderViewDDL(view: ViewInfo): string {
+  const kind = view.materialized ? 'MATERIALIZED VIEW' : 'VIEW';
+  const options = view.options.length > 0 ? ` WITH (${view.options.join(', ')})` : '';
+  const columns = view.columns.map((column) => `${quoteIdentifier(column.name)} ${column.type}`).join(', ');
+  const definition = view.definition.trim().replace(/;$/, '');
+  // A summarized definition ends in a comment, which would swallow the semicolon
+  const terminator = definition.split('\n').pop()!.trim().startsWith('--') ? '\n;' : ';';
+  return `CREATE ${kind} ${qualifiedName(view.schema, view.name)}${options} AS -- (${columns})\n` +
+         `${definition}${terminator}`;
+}
+
+function renderFunctionDDL(fn: FunctionInfo): string {
+  if (fn.definition) {
+    return fn.definition.trim().replace(/;?$/, ';');
+  }
+
+  const keyword = fn.kind === 'procedure' ? 'PROCEDURE' : 'FUNCTION';
+  const parts = [
+    `CREATE ${keyword} ${qualifiedName(fn.schema, fn.name)}(${fn.arguments})`,
+    fn.returns ? `RETURNS ${fn.returns}` : undefined,
+    `LANGUAGE ${fn.language}`,
+    fn.kind === 'procedure' ? undefined : fn.volatility.toUpperCase(),
+    fn.security_definer ? 'SECURITY DEFINER' : undefined,
+    ...fn.config.map((setting) => `SET ${setting.replace('=', ' = ')}`),
+  ];
+  return `${parts.filter(Boolean).join(' ')}; -- body omitted`;
+}
+
+function renderColumn(column: ColumnInfo): string {
+  const parts = [quoteIdentifier(column.name), column.type];
+  if (!column.nullable) parts.push('NOT NULL');
+  if (column.identity) {
+    parts.push(`GENERATED ${column.identity === 'always' ? 'ALWAYS' : 'BY DEFAULT'} AS IDENTITY`);
+  } else if (column.generated) {
+    parts.push(`GENERATED ALWAYS AS (${column.generated}) STORED`);
+  } else if (column.default) {
+    parts.push(`DEFAULT ${column.default}`);
+  }
+  return parts.join(' ');
+}
+
+function qualifiedName(schema: string, name: string): string {
+  return `${quoteIdentifier(schema)}.${quoteIdentifier(name)}`;
+}
+
+function quoteIdentifier(name: string): string {
+  return /^[a-z_][a-z0-9_$]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function groupByRelation<T>(rows: RelationRow<T>[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const { relation, ...item } of rows) {
+    const group = groups.get(relation) || [];
+    group.push(item as T);
+    groups.set(relation, group);
+  }
+  return groups;
+}
+
+/**
+ * Shorten a long definition to its first lines
+ */
+function summarize(definition: string, maxLines: number = 12): string {
+  const lines = definition.trim().split('\n');
+  return lines.length > maxLines
+    ? `${lines.slice(0, maxLines).join('\n')}\n  -- ${lines.length - maxLines} more line(s); set include_definitions for the full text`
+    : definition.trim();
+}
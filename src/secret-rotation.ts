@@ -0,0 +1,416 @@
+/**
+ * JWT secret, API key and database password rotation for Supabase on Coolify
+ * Pushes new values, restarts the stack, verifies the new keys against
+ * the live endpoints and restores the previous values if verification fails
+ */
+
+import axios from 'axios';
+import pg from 'pg';
+import { CoolifyClient } from './coolify-client.js';
+import { SupabaseManager } from './supabase-client.js';
+import { PostgresClient, describeDatabaseError, databaseErrorResponse, databaseUnavailable } from './database.js';
+import { generateJwtSecret, generateDatabasePassword, signSupabaseKeys } from './supabase-keys.js';
+import { envToRecord } from './env-diff.js';
+import type {
+  CoolifyEnvVar,
+  SupabaseDatabaseConfig,
+  SecretRotationResult,
+  SecretRotationStep,
+  RotatedCredentials,
+  KeyCheck,
+  ToolResponse,
+} from './types.js';
+
+export interface RotationOptions {
+  /**
+   * Also rotate POSTGRES_PASSWORD and the database roles that share it
+   */
+  rotatePostgresPassword?: boolean;
+  /**
+   * Public URL of the instance; defaults to SUPABASE_URL
+   */
+  supabaseUrl?: string;
+  timeoutSeconds?: number;
+  expiresInDays?: number;
+  /**
+   * Report the plan without changing anything
+   */
+  dryRun?: boolean;
+}
+
+// Roles the official self-hosted stack creates with POSTGRES_PASSWORD
+export const POSTGRES_PASSWORD_ROLES = [
+  'postgres',
+  'supabase_admin',
+  'authenticator',
+  'pgbouncer',
+  'supabase_auth_admin',
+  'supabase_functions_admin',
+  'supabase_storage_admin',
+];
+
+const POLL_INTERVAL_MS = 5000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Env and restart endpoints of the Coolify resource running the stack: a service
+ * for stacks deployed from the generated compose file, an application for older ones
+ */
+interface RotationTarget {
+  kind: 'service' | 'application';
+  listEnvs(): Promise<ToolResponse<CoolifyEnvVar[]>>;
+  updateEnv(env: Record<string, string>): Promise<ToolResponse<void>>;
+  restart(): Promise<ToolResponse<unknown>>;
+}
+
+interface Credentials {
+  JWT_SECRET: string;
+  ANON_KEY: string;
+  SERVICE_ROLE_KEY: string;
+  POSTGRES_PASSWORD?: string;
+}
+
+export class SecretRotator {
+  constructor(
+    private coolify: CoolifyClient,
+    private supabase: SupabaseManager,
+    // Opens the dedicated connection the role passwords are restored over
+    private connect: (config: SupabaseDatabaseConfig) => PostgresClient = (config) => new PostgresClient(config)
+  ) {}
+
+  /**
+   * Rotate the secrets of a Supabase stack hosted on Coolify as a service or application
+   */
+  async rotate(uuid: string, options: RotationOptions = {}): Promise<ToolResponse<SecretRotationResult>> {
+    const url = (options.supabaseUrl || this.supabase.url).replace(/\/+$/, '');
+    const timeoutMs = (options.timeoutSeconds ?? 180) * 1000;
+    const db = this.supabase.database;
+
+    if (options.rotatePostgresPassword && !db) {
+      return databaseUnavailable('Postgres password rotation');
+    }
+
+    const target = await this.resolveTarget(uuid);
+    const envResult = await target.listEnvs();
+    if (!envResult.success || !envResult.data) {
+      return {
+        success: false,
+        error: envResult.error || `Service or application ${uuid} not found`,
+      };
+    }
+
+    const currentEnv = envToRecord(envResult.data);
+    if (!currentEnv.JWT_SECRET) {
+      return {
+        success: false,
+        error: `${capitalize(target.kind)} ${uuid} has no JWT_SECRET; only Supabase deployments can be rotated`,
+      };
+    }
+    if (options.rotatePostgresPassword && !currentEnv.POSTGRES_PASSWORD) {
+      return {
+        success: false,
+        error: `${capitalize(target.kind)} ${uuid} has no POSTGRES_PASSWORD to rotate`,
+      };
+    }
+
+    const previous: Credentials = {
+      JWT_SECRET: currentEnv.JWT_SECRET,
+      ANON_KEY: currentEnv.ANON_KEY,
+      SERVICE_ROLE_KEY: currentEnv.SERVICE_ROLE_KEY,
+      POSTGRES_PASSWORD: currentEnv.POSTGRES_PASSWORD,
+    };
+    const jwtSecret = generateJwtSecret();
+    const keys = signSupabaseKeys(jwtSecret, { expiresInDays: options.expiresInDays });
+    const next: Credentials = {
+      JWT_SECRET: jwtSecret,
+      ANON_KEY: keys.anon_key,
+      SERVICE_ROLE_KEY: keys.service_role_key,
+      ...(options.rotatePostgresPassword && { POSTGRES_PASSWORD: generateDatabasePassword() }),
+    };
+
+    let roles: string[] = [];
+    if (options.rotatePostgresPassword && db) {
+      try {
+        roles = await existingRoles(db);
+      } catch (error) {
+        return databaseErrorResponse(error, 'Failed to look up database roles');
+      }
+    }
+
+    const steps: SecretRotationStep[] = [];
+    // The new values are returned only once something uses them; the previous ones never are
+    const result = (verification: KeyCheck[], rolledBack: boolean): SecretRotationResult => ({
+      rotated: Object.keys(next),
+      rolled_back: rolledBack,
+      steps,
+      verification,
+      altered_roles: roles,
+      ...(!rolledBack && nextApplied(steps) && { credentials: toCredentialSet(next, keys.expires_at) }),
+    });
+
+    if (options.dryRun) {
+      if (roles.length > 0) {
+        steps.push({ step: 'alter_roles', status: 'skipped', message: alterRoleStatements(roles, '********').join(';\n') });
+      }
+      steps.push(
+        { step: 'update_env', status: 'skipped', message: `Would set ${Object.keys(next).join(', ')}` },
+        { step: 'restart', status: 'skipped' },
+        { step: 'verify', status: 'skipped', message: `Would verify the new keys against ${url}` }
+      );
+      return {
+        success: true,
+        data: result([], false),
+        message: 'Dry run: nothing was changed',
+      };
+    }
+
+    // The database must accept the new password before the services restart with it
+    if (roles.length > 0 && db) {
+      const altered = await this.alterRoles(db, roles, next.POSTGRES_PASSWORD!, steps);
+      if (!altered) {
+        return {
+          success: false,
+          error: 'Failed to change database role passwords; nothing was rotated',
+          data: result([], false),
+        };
+      }
+    }
+
+    const applied = await this.apply(target, currentEnv, next, steps);
+    const verification = applied ? await this.waitForKeys(url, next, previous, timeoutMs, steps) : [];
+    if (applied && verification.every((check) => check.passed)) {
+      return {
+        success: true,
+        data: result(verification, false),
+        message: 'Secrets rotated and verified. Update SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY' +
+                 (roles.length > 0 ? ', SUPABASE_DB_PASSWORD' : '') +
+                 ' for this server and every client, then restart them',
+      };
+    }
+
+    // Restore the previous values so existing clients keep working
+    const restored = await this.rollback(target, currentEnv, previous, next, roles, steps);
+    return {
+      success: false,
+      error: restored
+        ? 'Rotation failed verification; the previous secrets were restored'
+        : 'Rotation failed and restoring the previous secrets also failed; check the step log to see which of the new credentials below are still in use',
+      data: result(verification, restored),
+    };
+  }
+
+  private async alterRoles(
+    db: PostgresClient,
+    roles: string[],
+    password: string,
+    steps: SecretRotationStep[],
+    prefix: string = ''
+  ): Promise<boolean> {
+    try {
+      await db.transaction(async (client) => {
+        for (const statement of alterRoleStatements(roles, password)) {
+          await client.query(statement);
+        }
+      });
+      steps.push({ step: `${prefix}alter_roles`, status: 'done', message: `Changed the password of ${roles.join(', ')}` });
+      return true;
+    } catch (error) {
+      steps.push({ step: `${prefix}alter_roles`, status: 'failed', message: errorMessage(error) });
+      return false;
+    }
+  }
+
+  /**
+   * Deployments are Coolify services; stacks deployed before that are applications
+   */
+  private async resolveTarget(uuid: string): Promise<RotationTarget> {
+    const serviceResult = await this.coolify.getService(uuid);
+    if (serviceResult.success) {
+      return {
+        kind: 'service',
+        listEnvs: () => this.coolify.listServiceEnvs(uuid),
+        updateEnv: (env) => this.coolify.updateServiceEnv(uuid, env),
+        restart: () => this.coolify.restartService(uuid),
+      };
+    }
+    return {
+      kind: 'application',
+      listEnvs: () => this.coolify.listApplicationEnvs(uuid),
+      updateEnv: (env) => this.coolify.updateApplicationEnv(uuid, env),
+      restart: () => this.coolify.restartApplication(uuid),
+    };
+  }
+
+  /**
+   * Push the values to Coolify and restart the stack
+   */
+  private async apply(
+    target: RotationTarget,
+    currentEnv: Record<string, string>,
+    values: Credentials,
+    steps: SecretRotationStep[],
+    prefix: string = ''
+  ): Promise<boolean> {
+    const env = Object.fromEntries(
+      Object.entries({ ...currentEnv, ...values }).filter(([, value]) => value !== undefined)
+    ) as Record<string, string>;
+
+    const envResult = await target.updateEnv(env);
+    steps.push({ step: `${prefix}update_env`, status: envResult.success ? 'done' : 'failed', message: envResult.error });
+    if (!envResult.success) {
+      return false;
+    }
+
+    const restartResult = await target.restart();
+    steps.push({ step: `${prefix}restart`, status: restartResult.success ? 'done' : 'failed', message: restartResult.error });
+    return restartResult.success;
+  }
+
+  /**
+   * Put the previous role passwords back. The pool logs in with SUPABASE_DB_PASSWORD,
+   * which no longer works once the configured user's role was altered, so this
+   * runs over its own connection using the new password.
+   */
+  private async restoreRoles(
+    roles: string[],
+    previousPassword: string,
+    nextPassword: string,
+    steps: SecretRotationStep[]
+  ): Promise<boolean> {
+    const config = this.supabase.databaseConfig;
+    if (!config) {
+      steps.push({ step: 'rollback_alter_roles', status: 'failed', message: 'No database configuration to connect with' });
+      return false;
+    }
+
+    const db = this.connect({ ...config, password: roles.includes(config.user) ? nextPassword : config.password });
+    try {
+      return await this.alterRoles(db, roles, previousPassword, steps, 'rollback_');
+    } finally {
+      await db.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Poll the REST and auth endpoints until they accept the new keys and reject the old ones
+   */
+  private async waitForKeys(
+    url: string,
+    next: Credentials,
+    previous: Credentials,
+    timeoutMs: number,
+    steps: SecretRotationStep[]
+  ): Promise<KeyCheck[]> {
+    const started = Date.now();
+    let checks: KeyCheck[] = [];
+
+    for (;;) {
+      checks = await verifyKeys(url, next, previous);
+      if (checks.every((check) => check.passed)) {
+        steps.push({ step: 'verify', status: 'done', message: `New keys accepted after ${Math.round((Date.now() - started) / 1000)}s` });
+        return checks;
+      }
+      if (Date.now() - started + POLL_INTERVAL_MS > timeoutMs) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+
+    steps.push({
+      step: 'verify',
+      status: 'failed',
+      message: `Timed out after ${Math.round(timeoutMs / 1000)}s: ${checks.filter((check) => !check.passed).map((check) => check.check).join(', ')} failed`,
+    });
+    return checks;
+  }
+
+  private async rollback(
+    target: RotationTarget,
+    currentEnv: Record<string, string>,
+    previous: Credentials,
+    next: Credentials,
+    roles: string[],
+    steps: SecretRotationStep[]
+  ): Promise<boolean> {
+    const restored = roles.length > 0 && previous.POSTGRES_PASSWORD && next.POSTGRES_PASSWORD
+      ? await this.restoreRoles(roles, previous.POSTGRES_PASSWORD, next.POSTGRES_PASSWORD, steps)
+      : true;
+
+    return (await this.apply(target, currentEnv, previous, steps, 'rollback_')) && restored;
+  }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Whether the new values reached the database roles or the Coolify environment
+ */
+function nextApplied(steps: SecretRotationStep[]): boolean {
+  return steps.some((step) => ['alter_roles', 'update_env'].includes(step.step) && step.status === 'done');
+}
+
+function toCredentialSet(credentials: Credentials, keysExpireAt?: string): RotatedCredentials {
+  return {
+    jwt_secret: credentials.JWT_SECRET,
+    anon_key: credentials.ANON_KEY,
+    service_role_key: credentials.SERVICE_ROLE_KEY,
+    postgres_password: credentials.POSTGRES_PASSWORD,
+    keys_expire_at: keysExpireAt,
+  };
+}
+
+/**
+ * ALTER ROLE statements setting the shared Postgres password
+ */
+export function alterRoleStatements(roles: string[], password: string): string[] {
+  return roles.map((role) => `ALTER ROLE ${pg.escapeIdentifier(role)} WITH PASSWORD ${pg.escapeLiteral(password)}`);
+}
+
+async function existingRoles(db: PostgresClient): Promise<string[]> {
+  const rows = await db.rows<{ rolname: string }>(
+    'SELECT rolname FROM pg_roles WHERE rolname = ANY($1) ORDER BY rolname',
+    [POSTGRES_PASSWORD_ROLES]
+  );
+  return rows.map((row) => row.rolname);
+}
+
+async function verifyKeys(url: string, next: Credentials, previous: Credentials): Promise<KeyCheck[]> {
+  const checks: KeyCheck[] = [
+    await probe('auth_anon_key', `${url}/auth/v1/settings`, next.ANON_KEY, 200),
+    await probe('rest_service_role_key', `${url}/rest/v1/`, next.SERVICE_ROLE_KEY, 200),
+  ];
+
+  // Until the restart completes the old secret is still in use
+  if (previous.SERVICE_ROLE_KEY) {
+    checks.push(await probe('rest_rejects_old_key', `${url}/rest/v1/`, previous.SERVICE_ROLE_KEY, 401));
+  }
+
+  return checks;
+}
+
+async function probe(check: string, url: string, key: string, expectedStatus: number): Promise<KeyCheck> {
+  try {
+    const response = await axios.get(url, {
+      headers: { apikey: key, Authorization: `Bearer ${key}` },
+      timeout: REQUEST_TIMEOUT_MS,
+      validateStatus: () => true,
+    });
+    return {
+      check,
+      url,
+      passed: response.status === expectedStatus,
+      status: response.status,
+      expected_status: expectedStatus,
+    };
+  } catch (error) {
+    return { check, url, passed: false, expected_status: expectedStatus, error: errorMessage(error) };
+  }
+}
+
+function errorMessage(error: unknown): string {
+  const details = describeDatabaseError(error);
+  const message = error instanceof Error ? error.message : String(error);
+  return details?.code ? `${message} (SQLSTATE ${details.code})` : message;
+}
@@ -0,0 +1,384 @@
+/**
+ * Database security advisor
+ * Audits a self-hosted instance for the issues Supabase's hosted advisor reports,
+ * each with remediation SQL that can be passed to the migration tools
+ */
+
+import pg from 'pg';
+import type { PoolClient } from 'pg';
+import { PostgresClient, databaseErrorResponse, databaseUnavailable } from './database.js';
+import { MANAGED_SCHEMAS, buildReport } from './advisor.js';
+import type { AdvisorFinding, AdvisorReport, ToolResponse } from './types.js';
+
+export interface SecurityAdvisorOptions {
+  /**
+   * Schemas exposed through PostgREST
+   */
+  exposedSchemas?: string[];
+}
+
+const DEFAULT_EXPOSED_SCHEMAS = ['public'];
+
+// Roles the Supabase stack expects to bypass RLS
+const EXPECTED_BYPASS_ROLES = [
+  'postgres', 'supabase_admin', 'service_role', 'supabase_read_only_user',
+  'supabase_replication_admin', 'supabase_etl_admin',
+];
+
+const NOT_EXTENSION_MEMBER = (catalog: string, column: string) => `
+  NOT EXISTS (
+    SELECT 1 FROM pg_depend d
+    WHERE d.classid = '${catalog}'::regclass AND d.objid = ${column} AND d.deptype = 'e'
+  )`;
+
+const TABLES_SQL = `
+  SELECT n.nspname AS schema,
+         c.relname AS name,
+         c.relrowsecurity AS rls_enabled,
+         (SELECT count(*) FROM pg_policy p WHERE p.polrelid = c.oid)::int AS policy_count
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = ANY($1) AND c.relkind IN ('r', 'p')
+  ORDER BY 1, 2`;
+
+const POLICIES_SQL = `
+  SELECT schemaname AS schema, tablename AS table, policyname AS name,
+         cmd AS command, roles::text[] AS roles, qual AS using, with_check
+  FROM pg_policies
+  WHERE schemaname = ANY($1) AND permissive = 'PERMISSIVE'
+  ORDER BY 1, 2, 3`;
+
+const DEFINER_FUNCTIONS_SQL = `
+  SELECT n.nspname AS schema,
+         p.proname AS name,
+         pg_get_function_identity_arguments(p.oid) AS arguments,
+         p.prokind = 'p' AS procedure
+  FROM pg_proc p
+  JOIN pg_namespace n ON n.oid = p.pronamespace
+  WHERE p.prosecdef
+    AND n.nspname <> ALL($1) AND n.nspname NOT LIKE 'pg\\_%'
+    AND NOT EXISTS (SELECT 1 FROM unnest(p.proconfig) AS setting WHERE setting LIKE 'search\\_path=%')
+    AND ${NOT_EXTENSION_MEMBER('pg_proc', 'p.oid')}
+  ORDER BY 1, 2`;
+
+const PUBLIC_EXTENSIONS_SQL = `
+  SELECT e.extname AS name, e.extrelocatable AS relocatable
+  FROM pg_extension e
+  JOIN pg_namespace n ON n.oid = e.extnamespace
+  WHERE n.nspname = 'public'
+  ORDER BY 1`;
+
+// Views readable by the API roles; views run with their owner's privileges unless security_invoker is set
+const API_VIEWS_SQL = `
+  SELECT n.nspname AS schema,
+         c.relname AS name,
+         c.relkind = 'm' AS materialized,
+         COALESCE(c.reloptions, '{}') AS options
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = ANY($1) AND c.relkind IN ('v', 'm')
+    AND ${NOT_EXTENSION_MEMBER('pg_class', 'c.oid')}
+    AND EXISTS (
+      SELECT 1 FROM pg_roles r
+      WHERE r.rolname IN ('anon', 'authenticated') AND has_table_privilege(r.oid, c.oid, 'SELECT')
+    )
+  ORDER BY 1, 2`;
+
+const BYPASS_ROLES_SQL = `
+  SELECT rolname AS name, rolsuper AS superuser, rolbypassrls AS bypassrls, rolcanlogin AS can_login
+  FROM pg_roles
+  WHERE (rolbypassrls OR rolsuper) AND rolname <> ALL($1) AND rolname NOT LIKE 'pg\\_%'
+  ORDER BY 1`;
+
+// Explicit grants only; grantee 0 is PUBLIC, which anon inherits
+const ANON_WRITE_GRANTS_SQL = `
+  SELECT n.nspname AS schema,
+         c.relname AS name,
+         c.relrowsecurity AS rls_enabled,
+         bool_or(acl.grantee = 0) AS via_public,
+         array_agg(DISTINCT acl.privilege_type ORDER BY acl.privilege_type) AS privileges
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  CROSS JOIN LATERAL aclexplode(c.relacl) AS acl
+  WHERE n.nspname = ANY($1) AND c.relkind IN ('r', 'p', 'v', 'f')
+    AND acl.privilege_type IN ('INSERT', 'UPDATE', 'DELETE', 'TRUNCATE')
+    AND (acl.grantee = 0 OR acl.grantee = (SELECT oid FROM pg_roles WHERE rolname = 'anon'))
+  GROUP BY n.nspname, c.relname, c.relrowsecurity
+  ORDER BY 1, 2`;
+
+type Check = (client: PoolClient, exposedSchemas: string[]) => Promise<AdvisorFinding[]>;
+
+export class SecurityAdvisor {
+  constructor(private db?: PostgresClient) {}
+
+  /**
+   * Run every security check and return the findings, most severe first.
+   * A check that fails is reported in skipped_checks instead of failing the report.
+   */
+  async run(options: SecurityAdvisorOptions = {}): Promise<ToolResponse<AdvisorReport>> {
+    if (!this.db) {
+      return databaseUnavailable('The security advisor');
+    }
+
+    const exposedSchemas = options.exposedSchemas || DEFAULT_EXPOSED_SCHEMAS;
+    const checks: [string, Check][] = [
+      ['rls_disabled_in_exposed_schema', (client, schemas) => this.checkTableRLS(client, schemas)],
+      ['policy_always_true', (client, schemas) => this.checkAlwaysTruePolicies(client, schemas)],
+      ['security_definer_mutable_search_path', (client) => this.checkDefinerSearchPath(client)],
+      ['extension_in_public', (client) => this.checkPublicExtensions(client)],
+      ['view_bypasses_rls', (client, schemas) => this.checkViews(client, schemas)],
+      ['role_bypasses_rls', (client) => this.checkBypassRoles(client)],
+      ['anon_write_grant', (client, schemas) => this.checkAnonWriteGrants(client, schemas)],
+    ];
+
+    try {
+      const report = await this.db.withClient(async (client) => {
+        const findings: AdvisorFinding[] = [];
+        const skipped: AdvisorReport['skipped_checks'] = [];
+
+        for (const [rule, check] of checks) {
+          try {
+            findings.push(...(await check(client, exposedSchemas)));
+          } catch (error) {
+            skipped.push({ rule, error: error instanceof Error ? error.message : 'Unknown error' });
+          }
+        }
+
+        return buildReport(findings, skipped);
+      });
+
+      return {
+        success: true,
+        data: report,
+        message: `${report.summary.errors} error(s), ${report.summary.warnings} warning(s), ${report.summary.info} info`,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to run security advisor');
+    }
+  }
+
+  /**
+   * Exposed tables without RLS are readable and writable by anyone with the anon key
+   */
+  private async checkTableRLS(client: PoolClient, exposedSchemas: string[]): Promise<AdvisorFinding[]> {
+    const { rows } = await client.query(TABLES_SQL, [exposedSchemas]);
+    const findings: AdvisorFinding[] = [];
+
+    for (const table of rows) {
+      const name = qualifiedName(table.schema, table.name);
+      if (!table.rls_enabled) {
+        findings.push({
+          rule: 'rls_disabled_in_exposed_schema',
+          severity: 'error',
+          category: 'security',
+          object: `${table.schema}.${table.name}`,
+          message: `Table ${table.schema}.${table.name} is exposed through the API but Row Level Security is disabled`,
+          remediation_sql: `ALTER TABLE ${name} ENABLE ROW LEVEL SECURITY;`,
+        });
+      } else if (table.policy_count === 0) {
+        findings.push({
+          rule: 'rls_enabled_no_policy',
+          severity: 'info',
+          category: 'security',
+          object: `${table.schema}.${table.name}`,
+          message: `Table ${table.schema}.${table.name} has RLS enabled but no policies, so the API cannot read or write it`,
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Permissive policies whose expression is literally true allow every row
+   */
+  private async checkAlwaysTruePolicies(client: PoolClient, exposedSchemas: string[]): Promise<AdvisorFinding[]> {
+    const { rows } = await client.query(POLICIES_SQL, [exposedSchemas]);
+    const findings: AdvisorFinding[] = [];
+
+    for (const policy of rows) {
+      const alwaysTrue = [policy.using, policy.with_check].some(isAlwaysTrue);
+      if (!alwaysTrue) continue;
+
+      const isRead = policy.command === 'SELECT';
+      const target = `ON ${qualifiedName(policy.schema, policy.table)}`;
+      const clauses = [
+        isAlwaysTrue(policy.using) ? 'USING ((SELECT auth.uid()) IS NOT NULL)' : undefined,
+        isAlwaysTrue(policy.with_check) ? 'WITH CHECK ((SELECT auth.uid()) IS NOT NULL)' : undefined,
+      ].filter(Boolean);
+
+      findings.push({
+        rule: 'policy_always_true',
+        // Public read access is often intended; unrestricted writes rarely are
+        severity: isRead ? 'info' : 'warning',
+        category: 'security',
+        object: `${policy.schema}.${policy.table}.${policy.name}`,
+        message: `Policy "${policy.name}" on ${policy.schema}.${policy.table} allows ${policy.command} on every row ` +
+                 `for ${policy.roles.join(', ')}. The remediation limits it to signed-in users; refine it further to row ownership`,
+        remediation_sql: `ALTER POLICY ${pg.escapeIdentifier(policy.name)} ${target} TO authenticated ${clauses.join(' ')};`,
+        details: { command: policy.command, roles: policy.roles, using: policy.using, with_check: policy.with_check },
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * SECURITY DEFINER functions without a fixed search_path can be hijacked by
+   * objects created earlier on the caller's search_path
+   */
+  private async checkDefinerSearchPath(client: PoolClient): Promise<AdvisorFinding[]> {
+    const { rows } = await client.query(DEFINER_FUNCTIONS_SQL, [MANAGED_SCHEMAS]);
+
+    return rows.map((fn) => ({
+      rule: 'security_definer_mutable_search_path',
+      severity: 'error' as const,
+      category: 'security' as const,
+      object: `${fn.schema}.${fn.name}(${fn.arguments})`,
+      message: `SECURITY DEFINER ${fn.procedure ? 'procedure' : 'function'} ${fn.schema}.${fn.name}(${fn.arguments}) ` +
+               'does not set search_path. With an empty search_path, every object in its body must be schema-qualified',
+      remediation_sql: `ALTER ${fn.procedure ? 'PROCEDURE' : 'FUNCTION'} ${qualifiedName(fn.schema, fn.name)}(${fn.arguments}) SET search_path = '';`,
+    }));
+  }
+
+  /**
+   * Extensions in public expose their functions and tables through the API
+   */
+  private async checkPublicExtensions(client: PoolClient): Promise<AdvisorFinding[]> {
+    const { rows } = await client.query(PUBLIC_EXTENSIONS_SQL);
+
+    return rows.map((extension) => {
+      const name = pg.escapeIdentifier(extension.name);
+      return {
+        rule: 'extension_in_public',
+        severity: 'warning' as const,
+        category: 'security' as const,
+        object: extension.name,
+        message: `Extension ${extension.name} is installed in the public schema, exposing its objects through the API` +
+                 (extension.relocatable ? '' : '. It is not relocatable, so it must be dropped and recreated; check dependent objects first'),
+        remediation_sql: extension.relocatable
+          ? `CREATE SCHEMA IF NOT EXISTS extensions;\nALTER EXTENSION ${name} SET SCHEMA extensions;`
+          : `CREATE SCHEMA IF NOT EXISTS extensions;\nDROP EXTENSION ${name};\nCREATE EXTENSION ${name} SCHEMA extensions;`,
+      };
+    });
+  }
+
+  /**
+   * Views run as their owner, usually postgres, so they skip the RLS of the
+   * tables they read. Materialized views have no RLS at all.
+   */
+  private async checkViews(client: PoolClient, exposedSchemas: string[]): Promise<AdvisorFinding[]> {
+    const { rows: [{ version }] } = await client.query(
+      "SELECT current_setting('server_version_num')::int AS version"
+    );
+    const supportsInvoker = version >= 150000;
+    const { rows } = await client.query(API_VIEWS_SQL, [exposedSchemas]);
+    const findings: AdvisorFinding[] = [];
+
+    for (const view of rows) {
+      const name = qualifiedName(view.schema, view.name);
+      const invoker = (view.options as string[]).some((option) => /^security_invoker=(true|on|yes|1)$/i.test(option));
+      if (invoker) continue;
+
+      if (view.materialized) {
+        findings.push({
+          rule: 'materialized_view_in_api',
+          severity: 'warning',
+          category: 'security',
+          object: `${view.schema}.${view.name}`,
+          message: `Materialized view ${view.schema}.${view.name} is readable through the API and is not protected by RLS`,
+          remediation_sql: `REVOKE SELECT ON ${name} FROM anon, authenticated;`,
+        });
+      } else {
+        findings.push({
+          rule: 'view_bypasses_rls',
+          severity: 'error',
+          category: 'security',
+          object: `${view.schema}.${view.name}`,
+          message: `View ${view.schema}.${view.name} is readable through the API and runs with its owner's privileges, bypassing RLS on the tables it reads`,
+          remediation_sql: supportsInvoker
+            ? `ALTER VIEW ${name} SET (security_invoker = on);`
+            : `-- security_invoker needs Postgres 15+\nREVOKE SELECT ON ${name} FROM anon, authenticated;`,
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Unexpected roles that bypass RLS, directly or as superusers
+   */
+  private async checkBypassRoles(client: PoolClient): Promise<AdvisorFinding[]> {
+    const { rows } = await client.query(BYPASS_ROLES_SQL, [EXPECTED_BYPASS_ROLES]);
+
+    return rows.map((role) => ({
+      rule: 'role_bypasses_rls',
+      severity: 'warning' as const,
+      category: 'security' as const,
+      object: role.name,
+      message: `Role ${role.name}${role.superuser ? ' is a superuser and' : ''} bypasses Row Level Security` +
+               (role.can_login ? ' and can log in' : ''),
+      remediation_sql: `ALTER ROLE ${pg.escapeIdentifier(role.name)} ${role.superuser ? 'NOSUPERUSER ' : ''}NOBYPASSRLS;`,
+      details: { superuser: role.superuser, bypassrls: role.bypassrls, can_login: role.can_login },
+    }));
+  }
+
+  /**
+   * Write grants to anon, either directly or through PUBLIC
+   */
+  private async checkAnonWriteGrants(client: PoolClient, exposedSchemas: string[]): Promise<AdvisorFinding[]> {
+    const { rows } = await client.query(ANON_WRITE_GRANTS_SQL, [exposedSchemas]);
+    const findings: AdvisorFinding[] = [];
+
+    for (const grant of rows) {
+      const privileges = grant.privileges as string[];
+      const grantee = grant.via_public ? 'PUBLIC' : 'anon';
+      const revoke = (list: string[]) =>
+        `REVOKE ${list.join(', ')} ON ${qualifiedName(grant.schema, grant.name)} FROM ${grantee};`;
+      const object = `${grant.schema}.${grant.name}`;
+
+      // TRUNCATE ignores RLS, so it is only ever safe to hold when nothing can run it
+      if (privileges.includes('TRUNCATE')) {
+        findings.push({
+          rule: 'anon_write_grant',
+          severity: 'warning',
+          category: 'security',
+          object,
+          message: `${grantee} can TRUNCATE ${object}. TRUNCATE ignores RLS; PostgREST cannot issue it, but SECURITY INVOKER functions callable by anon can`,
+          remediation_sql: revoke(['TRUNCATE']),
+          details: { grantee, privileges: ['TRUNCATE'] },
+        });
+      }
+
+      const writes = privileges.filter((privilege) => privilege !== 'TRUNCATE');
+      if (writes.length === 0) continue;
+
+      findings.push({
+        rule: 'anon_write_grant',
+        severity: grant.rls_enabled ? 'info' : 'error',
+        category: 'security',
+        object,
+        message: grant.rls_enabled
+          ? `${grantee} has ${writes.join(', ')} on ${object}; writes are limited by its RLS policies`
+          : `${grantee} has ${writes.join(', ')} on ${object} and RLS is disabled, so anyone with the anon key can modify it`,
+        remediation_sql: revoke(writes),
+        details: { grantee, privileges: writes, rls_enabled: grant.rls_enabled },
+      });
+    }
+
+    return findings;
+  }
+
+  private handleError(error: unknown, message: string): ToolResponse<never> {
+    return databaseErrorResponse(error, message);
+  }
+}
+
+function isAlwaysTrue(expression: string | null): boolean {
+  return expression !== null && /^[\s(]*true[\s)]*$/i.test(expression);
+}
+
+function qualifiedName(schema: string, name: string): string {
+  return `${pg.escapeIdentifier(schema)}.${pg.escapeIdentifier(name)}`;
+}
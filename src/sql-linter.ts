@@ -0,0 +1,244 @@
+/**
+ * Migration SQL linter
+ * Flags statements that lose data, rewrite or lock large tables, or expose
+ * new tables through PostgREST without Row Level Security
+ */
+
+import { splitStatements, stripComments, maskLiterals } from './sql.js';
+import type { LintFinding, LintResult, LintSeverity } from './types.js';
+
+export interface LintOptions {
+  /**
+   * Schemas exposed through PostgREST; new tables there must enable RLS
+   */
+  exposedSchemas?: string[];
+}
+
+const DEFAULT_EXPOSED_SCHEMAS = ['public'];
+
+// Schema-qualified or bare identifier, quoted or not
+const IDENTIFIER = '(?:"(?:[^"]|"")+"|[\\w$]+)';
+const QUALIFIED_NAME = `${IDENTIFIER}(?:\\s*\\.\\s*${IDENTIFIER})?`;
+
+const CREATE_TABLE = new RegExp(
+  `^CREATE\\s+(?:(?:GLOBAL|LOCAL)\\s+)?(TEMP|TEMPORARY|UNLOGGED\\s+)?TABLE\\s+(?:IF\\s+NOT\\s+EXISTS\\s+)?(${QUALIFIED_NAME})`,
+  'i'
+);
+const DROP_TABLE = /^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?(.+?)(?:\s+(?:CASCADE|RESTRICT))?$/i;
+const TRUNCATE = /^TRUNCATE\s+(?:TABLE\s+)?(?:ONLY\s+)?(.+?)(?:\s+(?:RESTART|CONTINUE)\s+IDENTITY)?(?:\s+(?:CASCADE|RESTRICT))?$/i;
+const ALTER_TABLE = new RegExp(
+  `^ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?(?:ONLY\\s+)?(${QUALIFIED_NAME})\\s+(.+)$`,
+  'i'
+);
+const CREATE_INDEX = new RegExp(
+  `^CREATE\\s+(?:UNIQUE\\s+)?INDEX\\s+(CONCURRENTLY\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?(?:${IDENTIFIER}\\s+)?ON\\s+(?:ONLY\\s+)?(${QUALIFIED_NAME})`,
+  'i'
+);
+
+/**
+ * Lint a migration script and return its findings, in statement order
+ */
+export function lintMigration(sql: string, options: LintOptions = {}): LintResult {
+  const exposedSchemas = new Set(
+    (options.exposedSchemas || DEFAULT_EXPOSED_SCHEMAS).map((schema) => schema.toLowerCase())
+  );
+  const findings: LintFinding[] = [];
+  const createdTables = new Map<string, number>();
+  const rlsEnabled = new Set<string>();
+
+  splitStatements(sql).forEach((statement, index) => {
+    const text = maskLiterals(stripComments(statement)).replace(/\s+/g, ' ').trim();
+    const add = (
+      rule: string,
+      severity: LintSeverity,
+      message: string,
+      object?: string,
+      suggestion?: string
+    ) => {
+      findings.push({
+        rule,
+        severity,
+        message,
+        statement_index: index,
+        statement: statement.length > 200 ? `${statement.slice(0, 200)}...` : statement,
+        object,
+        suggestion,
+      });
+    };
+
+    let match: RegExpExecArray | null;
+
+    if ((match = CREATE_TABLE.exec(text))) {
+      // Temporary tables are session-local and never exposed
+      if (!match[1]) {
+        createdTables.set(qualify(match[2]), index);
+      }
+      return;
+    }
+
+    if ((match = DROP_TABLE.exec(text))) {
+      for (const table of splitList(match[1]).map(qualify)) {
+        add(
+          'drop-table',
+          'error',
+          `DROP TABLE ${table} permanently deletes the table and all of its data`,
+          table,
+          'Rename the table or take a backup first, and drop it in a later migration once nothing depends on it'
+        );
+      }
+      return;
+    }
+
+    if ((match = TRUNCATE.exec(text))) {
+      for (const table of splitList(match[1]).map(qualify)) {
+        add(
+          'truncate',
+          'error',
+          `TRUNCATE ${table} deletes every row and takes an ACCESS EXCLUSIVE lock`,
+          table,
+          'Delete rows in batches with a WHERE clause, or take a backup first'
+        );
+      }
+      return;
+    }
+
+    if ((match = CREATE_INDEX.exec(text))) {
+      const table = qualify(match[2]);
+      if (!match[1] && !createdTables.has(table)) {
+        add(
+          'create-index-non-concurrent',
+          'warning',
+          `CREATE INDEX on ${table} without CONCURRENTLY blocks writes to the table until the index is built`,
+          table,
+          'Use CREATE INDEX CONCURRENTLY. It cannot run inside a transaction, so apply it on its own with execute_sql'
+        );
+      }
+      return;
+    }
+
+    if ((match = ALTER_TABLE.exec(text))) {
+      const table = qualify(match[1]);
+      const isNewTable = createdTables.has(table);
+
+      for (const action of splitList(match[2])) {
+        if (/^ENABLE\s+ROW\s+LEVEL\s+SECURITY$/i.test(action)) {
+          rlsEnabled.add(table);
+          continue;
+        }
+
+        if (isNewTable) continue;
+
+        let column: RegExpExecArray | null;
+
+        if ((column = new RegExp(`^DROP\\s+(?:COLUMN\\s+)?(?:IF\\s+EXISTS\\s+)?(${IDENTIFIER})`, 'i').exec(action))
+          && !/^DROP\s+(CONSTRAINT|DEFAULT|NOT\s+NULL|IDENTITY|EXPRESSION)\b/i.test(action)) {
+          add(
+            'drop-column',
+            'error',
+            `Dropping column ${unquote(column[1])} from ${table} permanently deletes its data and breaks clients still selecting it`,
+            `${table}.${unquote(column[1])}`,
+            'Stop reading and writing the column first, then drop it in a later migration'
+          );
+        } else if ((column = new RegExp(`^ALTER\\s+(?:COLUMN\\s+)?(${IDENTIFIER})\\s+(?:SET\\s+DATA\\s+)?TYPE\\b`, 'i').exec(action))) {
+          add(
+            'alter-column-type',
+            'warning',
+            `Changing the type of ${table}.${unquote(column[1])} may rewrite the whole table under an ACCESS EXCLUSIVE lock`,
+            `${table}.${unquote(column[1])}`,
+            'Add a new column with the new type, backfill it in batches, then switch over'
+          );
+        } else if ((column = new RegExp(`^ALTER\\s+(?:COLUMN\\s+)?(${IDENTIFIER})\\s+SET\\s+NOT\\s+NULL$`, 'i').exec(action))) {
+          add(
+            'set-not-null',
+            'warning',
+            `SET NOT NULL on ${table}.${unquote(column[1])} scans the whole table under an ACCESS EXCLUSIVE lock`,
+            `${table}.${unquote(column[1])}`,
+            'Add a CHECK (column IS NOT NULL) NOT VALID constraint, VALIDATE it, then set NOT NULL'
+          );
+        } else if ((column = new RegExp(`^ADD\\s+(?:COLUMN\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?(${IDENTIFIER})\\s+(.*)$`, 'i').exec(action))
+          && !/^ADD\s+(CONSTRAINT|PRIMARY|UNIQUE|FOREIGN|CHECK|EXCLUDE)\b/i.test(action)) {
+          const definition = column[2];
+          if (/\bNOT\s+NULL\b/i.test(definition) && !/\b(DEFAULT|GENERATED)\b/i.test(definition)) {
+            add(
+              'add-not-null-without-default',
+              'error',
+              `Adding NOT NULL column ${unquote(column[1])} to ${table} without a default fails on any table that has rows`,
+              `${table}.${unquote(column[1])}`,
+              'Add a DEFAULT, or add the column as nullable, backfill it, then set NOT NULL'
+            );
+          }
+        }
+      }
+    }
+  });
+
+  for (const [table, index] of createdTables) {
+    const schema = table.split('.')[0];
+    if (exposedSchemas.has(schema) && !rlsEnabled.has(table)) {
+      findings.push({
+        rule: 'table-without-rls',
+        severity: 'warning',
+        message: `New table ${table} is exposed through the API but Row Level Security is not enabled`,
+        statement_index: index,
+        statement: `CREATE TABLE ${table}`,
+        object: table,
+        suggestion: `ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;`,
+      });
+    }
+  }
+
+  findings.sort((a, b) => a.statement_index - b.statement_index);
+
+  const summary = {
+    errors: findings.filter((f) => f.severity === 'error').length,
+    warnings: findings.filter((f) => f.severity === 'warning').length,
+    info: findings.filter((f) => f.severity === 'info').length,
+  };
+
+  return {
+    passed: summary.errors === 0,
+    findings,
+    summary,
+  };
+}
+
+/**
+ * Split a comma-separated list at the top level, ignoring commas inside parentheses
+ */
+function splitList(text: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let inQuotes = false;
+  let current = '';
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && char === '(') depth++;
+    if (!inQuotes && char === ')') depth--;
+
+    if (char === ',' && depth === 0 && !inQuotes) {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) items.push(current.trim());
+  return items;
+}
+
+/**
+ * Normalize a possibly schema-qualified name to schema.table, defaulting to public
+ */
+function qualify(name: string): string {
+  const parts = name.match(new RegExp(IDENTIFIER, 'g')) || [name];
+  const [schema, table] = parts.length > 1 ? parts : ['public', parts[0]];
+  return `${unquote(schema)}.${unquote(table)}`;
+}
+
+function unquote(identifier: string): string {
+  return identifier.startsWith('"')
+    ? identifier.slice(1, -1).replace(/""/g, '"')
+    : identifier.toLowerCase();
+}
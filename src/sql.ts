@@ -0,0 +1,172 @@
+/**
+ * Lightweight SQL text helpers shared by migration planning and linting
+ */
+
+/**
+ * Split a SQL script into individual statements.
+ * Understands quoted strings and identifiers, dollar-quoted bodies and
+ * comments, so semicolons inside them do not end a statement.
+ * Statements consisting only of whitespace or comments are dropped.
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (char === '/' && next === '*') {
+      i = skipBlockComment(sql, i);
+    } else if (char === "'") {
+      // E'...' strings allow backslash escapes
+      const escaped = i > 0 && /[eE]/.test(sql[i - 1]) && !/\w/.test(sql[i - 2] || '');
+      i = skipQuoted(sql, i, "'", escaped);
+    } else if (char === '"') {
+      i = skipQuoted(sql, i, '"', false);
+    } else if (char === '$') {
+      const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (tag && !/\w/.test(sql[i - 1] || '')) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        i = end === -1 ? sql.length : end + tag[0].length;
+      } else {
+        i++;
+      }
+    } else if (char === ';') {
+      pushStatement(statements, sql.slice(start, i));
+      start = i + 1;
+      i++;
+    } else {
+      i++;
+    }
+  }
+
+  pushStatement(statements, sql.slice(start));
+  return statements;
+}
+
+/**
+ * Remove comments from SQL, leaving string literals intact
+ */
+export function stripComments(sql: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+    } else if (char === '/' && next === '*') {
+      i = skipBlockComment(sql, i);
+      result += ' ';
+    } else if (char === "'" || char === '"') {
+      const end = skipQuoted(sql, i, char, false);
+      result += sql.slice(i, end);
+      i = end;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Replace the contents of string literals and dollar-quoted bodies with
+ * empty placeholders, so keyword matching only sees the statement itself.
+ * Expects comments to be stripped already.
+ */
+export function maskLiterals(sql: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (char === "'") {
+      const escaped = i > 0 && /[eE]/.test(sql[i - 1]) && !/\w/.test(sql[i - 2] || '');
+      i = skipQuoted(sql, i, "'", escaped);
+      result += "''";
+    } else if (char === '"') {
+      // Quoted identifiers are kept: rules need the object names
+      const end = skipQuoted(sql, i, '"', false);
+      result += sql.slice(i, end);
+      i = end;
+    } else if (char === '$') {
+      const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (tag && !/\w/.test(sql[i - 1] || '')) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        i = end === -1 ? sql.length : end + tag[0].length;
+        result += '$$';
+      } else {
+        result += char;
+        i++;
+      }
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether a statement controls the surrounding transaction
+ */
+export function isTransactionControl(statement: string): boolean {
+  return /^(BEGIN|COMMIT|ROLLBACK|END|START\s+TRANSACTION|ABORT)\b/i.test(stripComments(statement).trim());
+}
+
+function pushStatement(statements: string[], text: string): void {
+  const statement = text.trim();
+  if (stripComments(statement).trim() !== '') {
+    statements.push(statement);
+  }
+}
+
+function skipBlockComment(sql: string, start: number): number {
+  // Postgres block comments nest
+  let depth = 0;
+  let i = start;
+  while (i < sql.length) {
+    if (sql[i] === '/' && sql[i + 1] === '*') {
+      depth++;
+      i += 2;
+    } else if (sql[i] === '*' && sql[i + 1] === '/') {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+function skipQuoted(sql: string, start: number, quote: string, backslashEscapes: boolean): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === '\\') {
+      i += 2;
+    } else if (sql[i] === quote) {
+      // A doubled quote is an escaped quote
+      if (sql[i + 1] === quote) {
+        i += 2;
+      } else {
+        return i + 1;
+      }
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
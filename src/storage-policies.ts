@@ -0,0 +1,199 @@
+/**
+ * Row Level Security policies on storage.objects, scoped to one bucket
+ * Policies are generated from templates so the common sharing setups do not
+ * have to be written by hand
+ */
+
+import pg from 'pg';
+import { PostgresClient, databaseErrorResponse, databaseUnavailable } from './database.js';
+import { buildCreatePolicySQL, PolicyDefinition } from './rls-manager.js';
+import type { RLSPolicy, StoragePolicyPlan, StoragePolicyTemplate, ToolResponse } from './types.js';
+
+// Longer identifiers are truncated by Postgres, which would break later lookups by name
+const MAX_IDENTIFIER_LENGTH = 63;
+
+const BUCKET_POLICIES_SQL = `
+  SELECT schemaname AS schema,
+         tablename AS table,
+         policyname AS name,
+         permissive = 'PERMISSIVE' AS permissive,
+         roles::text[] AS roles,
+         cmd AS command,
+         qual AS using,
+         with_check
+  FROM pg_policies
+  WHERE schemaname = 'storage' AND tablename = 'objects'
+    AND ($1::text IS NULL OR strpos(coalesce(qual, '') || ' ' || coalesce(with_check, ''), $1) > 0)
+  ORDER BY policyname`;
+
+export class StoragePolicies {
+  constructor(private db?: PostgresClient) {}
+
+  /**
+   * List the storage.objects policies that refer to a bucket
+   */
+  async listBucketPolicies(bucket: string): Promise<ToolResponse<RLSPolicy[]>> {
+    if (!this.db) {
+      return databaseUnavailable('Storage policy management');
+    }
+
+    try {
+      return {
+        success: true,
+        data: await this.db.rows<RLSPolicy>(BUCKET_POLICIES_SQL, [pg.escapeLiteral(bucket)]),
+      };
+    } catch (error) {
+      return databaseErrorResponse(error, `Failed to list storage policies for ${bucket}`);
+    }
+  }
+
+  /**
+   * Create the policies of a template for a bucket, or only return their SQL
+   * with dryRun. Policies with the same names are an error unless replace is set.
+   */
+  async applyTemplate(
+    bucket: string,
+    template: StoragePolicyTemplate,
+    options: { dryRun?: boolean; replace?: boolean } = {}
+  ): Promise<ToolResponse<StoragePolicyPlan>> {
+    const policies = buildStoragePolicies(bucket, template);
+    const tooLong = policies.find((policy) => Buffer.byteLength(policy.name) > MAX_IDENTIFIER_LENGTH);
+    if (tooLong) {
+      return {
+        success: false,
+        error: `Policy name "${tooLong.name}" is longer than ${MAX_IDENTIFIER_LENGTH} bytes; use a shorter bucket ID`,
+      };
+    }
+
+    const names = policies.map((policy) => policy.name);
+    const plan: StoragePolicyPlan = {
+      bucket,
+      template,
+      policies: names,
+      replaced: [],
+      sql: '',
+      applied: false,
+    };
+
+    // A preview works without a database connection; it then cannot report existing policies
+    if (!this.db) {
+      if (!options.dryRun) {
+        return databaseUnavailable('Storage policy management');
+      }
+      plan.sql = buildPlanSQL(policies, []);
+      return { success: true, data: plan, message: 'Preview only; nothing was executed' };
+    }
+
+    try {
+      const existing = (await this.db.rows<RLSPolicy>(BUCKET_POLICIES_SQL, [null]))
+        .map((policy) => policy.name)
+        .filter((name) => names.includes(name));
+      if (existing.length > 0 && !options.replace) {
+        return {
+          success: false,
+          error: `Policies already exist on storage.objects: ${existing.join(', ')}. Set replace to recreate them`,
+        };
+      }
+
+      plan.replaced = existing;
+      plan.sql = buildPlanSQL(policies, existing);
+      if (options.dryRun) {
+        return { success: true, data: plan, message: 'Preview only; nothing was executed' };
+      }
+
+      await this.db.transaction(async (client) => {
+        for (const name of existing) {
+          await client.query(dropPolicySQL(name));
+        }
+        for (const policy of policies) {
+          await client.query(buildCreatePolicySQL(policy));
+        }
+      });
+      plan.applied = true;
+
+      return {
+        success: true,
+        data: plan,
+        message: `Created ${policies.length} ${template} policy(ies) for bucket ${bucket}`,
+      };
+    } catch (error) {
+      return databaseErrorResponse(error, `Failed to apply the ${template} policies to ${bucket}`);
+    }
+  }
+
+  /**
+   * Drop storage.objects policies of a bucket by name
+   */
+  async dropBucketPolicies(bucket: string, names: string[]): Promise<ToolResponse<string[]>> {
+    if (!this.db) {
+      return databaseUnavailable('Storage policy management');
+    }
+
+    try {
+      const bucketPolicies = (await this.db.rows<RLSPolicy>(BUCKET_POLICIES_SQL, [pg.escapeLiteral(bucket)]))
+        .map((policy) => policy.name);
+      const unknown = names.filter((name) => !bucketPolicies.includes(name));
+      if (unknown.length > 0) {
+        return {
+          success: false,
+          error: `Not storage.objects policies of bucket ${bucket}: ${unknown.join(', ')}`,
+        };
+      }
+
+      await this.db.transaction(async (client) => {
+        for (const name of names) {
+          await client.query(dropPolicySQL(name));
+        }
+      });
+
+      return {
+        success: true,
+        data: names,
+        message: `Dropped ${names.length} policy(ies) from bucket ${bucket}`,
+      };
+    } catch (error) {
+      return databaseErrorResponse(error, `Failed to drop storage policies of ${bucket}`);
+    }
+  }
+}
+
+/**
+ * Policies a template creates for a bucket. Owner folders are the first path
+ * segment, named after the user's id, e.g. 3f1c.../avatar.png.
+ */
+export function buildStoragePolicies(bucket: string, template: StoragePolicyTemplate): PolicyDefinition[] {
+  const inBucket = `bucket_id = ${pg.escapeLiteral(bucket)}`;
+  const policy = (suffix: string, definition: Omit<PolicyDefinition, 'schema' | 'table' | 'name'>): PolicyDefinition => ({
+    schema: 'storage',
+    table: 'objects',
+    name: `${bucket} ${suffix}`,
+    ...definition,
+  });
+
+  switch (template) {
+    case 'owner_folder': {
+      const ownFolder = `${inBucket} AND (storage.foldername(name))[1] = (SELECT auth.uid()::text)`;
+      const roles = ['authenticated'];
+      return [
+        policy('owner folder select', { command: 'SELECT', roles, using: ownFolder }),
+        policy('owner folder insert', { command: 'INSERT', roles, withCheck: ownFolder }),
+        policy('owner folder update', { command: 'UPDATE', roles, using: ownFolder, withCheck: ownFolder }),
+        policy('owner folder delete', { command: 'DELETE', roles, using: ownFolder }),
+      ];
+    }
+    case 'authenticated_read':
+      return [policy('authenticated read', { command: 'SELECT', roles: ['authenticated'], using: inBucket })];
+    case 'public_read':
+      return [policy('public read', { command: 'SELECT', roles: ['anon', 'authenticated'], using: inBucket })];
+  }
+}
+
+function buildPlanSQL(policies: PolicyDefinition[], replaced: string[]): string {
+  return [...replaced.map(dropPolicySQL), ...policies.map(buildCreatePolicySQL)]
+    .map((statement) => `${statement};`)
+    .join('\n\n');
+}
+
+function dropPolicySQL(name: string): string {
+  return `DROP POLICY ${pg.escapeIdentifier(name)} ON "storage"."objects"`;
+}
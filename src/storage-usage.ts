@@ -0,0 +1,87 @@
+/**
+ * Storage usage read from storage.objects
+ * Sizes come from the metadata Storage records at upload, so the report
+ * needs no requests to the Storage API or the backing file store
+ */
+
+import { PostgresClient, databaseErrorResponse, databaseUnavailable } from './database.js';
+import type { StorageUsage, StorageUsageReport, ToolResponse } from './types.js';
+
+// Objects stored directly in the bucket root have no top-level prefix
+const ROOT_PREFIX = '(root)';
+
+const USAGE_SQL = `
+  WITH objects AS (
+    SELECT bucket_id,
+           CASE WHEN strpos(name, '/') > 0 THEN split_part(name, '/', 1) ELSE $2 END AS prefix,
+           COALESCE((metadata->>'size')::bigint, 0) AS size
+    FROM storage.objects
+    WHERE $1::text IS NULL OR bucket_id = $1
+  )
+  SELECT bucket_id AS bucket,
+         prefix,
+         count(*)::int AS object_count,
+         sum(size)::float8 AS total_bytes
+  FROM objects
+  GROUP BY bucket_id, prefix
+  ORDER BY bucket_id, total_bytes DESC, prefix`;
+
+const BUCKETS_SQL = `
+  SELECT id FROM storage.buckets
+  WHERE $1::text IS NULL OR id = $1
+  ORDER BY id`;
+
+export class StorageUsageReporter {
+  constructor(private db?: PostgresClient) {}
+
+  /**
+   * Object counts and bytes per bucket and per top-level prefix.
+   * Buckets without objects are included with zero usage.
+   */
+  async report(options: { bucket?: string; topPrefixes?: number } = {}): Promise<ToolResponse<StorageUsageReport>> {
+    if (!this.db) {
+      return databaseUnavailable('Storage usage reports');
+    }
+
+    const topPrefixes = options.topPrefixes ?? 20;
+    try {
+      const [rows, buckets] = await Promise.all([
+        this.db.rows<StorageUsage & { bucket: string }>(USAGE_SQL, [options.bucket ?? null, ROOT_PREFIX]),
+        this.db.rows<{ id: string }>(BUCKETS_SQL, [options.bucket ?? null]),
+      ]);
+      if (options.bucket && buckets.length === 0) {
+        return { success: false, error: `Bucket ${options.bucket} not found` };
+      }
+
+      const report: StorageUsageReport = {
+        buckets: buckets.map(({ id }) => {
+          const prefixes = rows.filter((row) => row.bucket === id);
+          const objectCount = prefixes.reduce((sum, row) => sum + row.object_count, 0);
+          const totalBytes = prefixes.reduce((sum, row) => sum + row.total_bytes, 0);
+          return {
+            bucket: id,
+            object_count: objectCount,
+            total_bytes: totalBytes,
+            prefix_count: prefixes.length,
+            prefixes: prefixes.slice(0, topPrefixes).map(({ prefix, object_count, total_bytes }) => ({
+              prefix,
+              object_count,
+              total_bytes,
+            })),
+          };
+        }),
+        total_objects: rows.reduce((sum, row) => sum + row.object_count, 0),
+        total_bytes: rows.reduce((sum, row) => sum + row.total_bytes, 0),
+      };
+      report.buckets.sort((a, b) => b.total_bytes - a.total_bytes);
+
+      return {
+        success: true,
+        data: report,
+        message: `${report.total_objects} object(s) using ${report.total_bytes} bytes in ${report.buckets.length} bucket(s)`,
+      };
+    } catch (error) {
+      return databaseErrorResponse(error, 'Failed to build the storage usage report');
+    }
+  }
+}
@@ -4,28 +4,132 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import axios, { AxiosInstance } from 'axios';
+import type { PoolClient } from 'pg';
+import { createWriteStream, existsSync } from 'fs';
+import { mkdir, readFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import {
+  PostgresClient,
+  describeDatabaseError,
+  runQuery,
+  databaseErrorResponse,
+  databaseUnavailable,
+} from './database.js';
+import { MigrationRepository } from './migration-repository.js';
+import { splitStatements, isTransactionControl } from './sql.js';
+import { lintMigration } from './sql-linter.js';
+import { contentTypeFor } from './content-type.js';
+import { jwtExpiry } from './supabase-keys.js';
 import type {
   SupabaseConfig,
   SupabaseDatabaseConfig,
+  SQLExecutionResult,
   Migration,
+  MigrationHistoryEntry,
+  MigrationPlan,
+  LintFinding,
+  LintResult,
+  RollbackResult,
+  RollbackStep,
   EdgeFunction,
   EdgeFunctionLog,
   StorageBucket,
+  StorageObject,
+  StorageObjectList,
+  StorageObjectInfo,
+  StorageTransfer,
+  StorageDeleteResult,
+  StorageSignedUrl,
+  StorageSignedUploadUrl,
   SupabaseAuthConfig,
   RealtimeConfig,
   SupabaseServiceStatus,
   ToolResponse,
 } from './types.js';
 
+const MIGRATION_HISTORY_TABLE = 'supabase_migrations.schema_migrations';
+const MIGRATION_ROLLBACKS_TABLE = 'supabase_migrations.migration_rollbacks';
+
+// SQLSTATE raised when the migration tables have not been created yet
+const UNDEFINED_TABLE = '42P01';
+
+const TRANSACTION_CONTROL_ERROR = 'Transaction control statements are not allowed; migrations already run in a transaction';
+
+// Storage accepts at most this many paths per remove request
+const STORAGE_REMOVE_BATCH = 1000;
+
+// Advisory lock key shared by every session that applies or rolls back migrations
+const MIGRATION_LOCK_KEY = 727265101;
+
+// Relation locks held by the dry-run session, excluding the catalogs it reads itself
+const DRY_RUN_LOCKS_SQL = `
+  SELECT
+    COALESCE(c.oid::regclass::text, 'oid ' || l.relation::text) AS object,
+    l.locktype AS lock_type,
+    l.mode
+  FROM pg_locks l
+  LEFT JOIN pg_class c ON c.oid = l.relation
+  LEFT JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE l.pid = pg_backend_pid()
+    AND l.locktype = 'relation'
+    AND COALESCE(n.nspname, '') NOT IN ('pg_catalog', 'information_schema')
+  ORDER BY 1, 3
+`;
+
+export interface MigrationApplyOptions {
+  /**
+   * Apply even when the migration linter reports errors
+   */
+  allowUnsafe?: boolean;
+}
+
+export interface RollbackOptions {
+  /**
+   * Remove history rows of versions that have no down SQL instead of refusing
+   */
+  allowMissingDownSql?: boolean;
+}
+
+type MigrationApplyResult =
+  | { outcome: 'applied'; migration: Migration }
+  | { outcome: 'already_applied'; migration: Migration }
+  | { outcome: 'lock_held'; holderPid?: number }
+  | { outcome: 'rejected'; error: string };
+
+// Mirrors the history table the Supabase CLI creates, so `supabase migration list` stays accurate
+const MIGRATION_HISTORY_DDL = `
+  CREATE SCHEMA IF NOT EXISTS supabase_migrations;
+  CREATE TABLE IF NOT EXISTS ${MIGRATION_HISTORY_TABLE} (version text NOT NULL PRIMARY KEY);
+  ALTER TABLE ${MIGRATION_HISTORY_TABLE} ADD COLUMN IF NOT EXISTS statements text[];
+  ALTER TABLE ${MIGRATION_HISTORY_TABLE} ADD COLUMN IF NOT EXISTS name text;
+  CREATE TABLE IF NOT EXISTS ${MIGRATION_ROLLBACKS_TABLE} (
+    version text NOT NULL PRIMARY KEY,
+    name text,
+    down_sql text NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+  );
+`;
+
 export class SupabaseManager {
   private client: SupabaseClient;
   private adminClient: AxiosInstance;
   private config: SupabaseConfig;
   private dbConfig?: SupabaseDatabaseConfig;
+  private db?: PostgresClient;
+  private migrations: MigrationRepository;
 
   constructor(config: SupabaseConfig, dbConfig?: SupabaseDatabaseConfig) {
     this.config = config;
     this.dbConfig = dbConfig;
+    this.migrations = new MigrationRepository(config.migrationsDir || 'supabase/migrations');
+
+    // Direct Postgres access is preferred whenever connection details are configured
+    if (dbConfig) {
+      this.db = new PostgresClient(dbConfig);
+    }
 
     // Initialize Supabase client
     this.client = createClient(config.url, config.serviceRoleKey, {
@@ -46,26 +150,38 @@ export class SupabaseManager {
     });
   }
 
+  /**
+   * Direct Postgres connection, when SUPABASE_DB_* variables are configured
+   */
+  get database(): PostgresClient | undefined {
+    return this.db;
+  }
+
+  /**
+   * Connection settings of the direct Postgres connection, for tools that shell out to pg_restore or psql
+   */
+  get databaseConfig(): SupabaseDatabaseConfig | undefined {
+    return this.dbConfig;
+  }
+
+  /**
+   * Public URL of the Supabase instance
+   */
+  get url(): string {
+    return this.config.url;
+  }
+
   // ==================== Database Migrations ====================
 
   /**
-   * List all migrations with their status
+   * List all migrations with their status.
+   * Combines the migration files on disk with the applied history, so new,
+   * applied, modified-after-apply and missing-on-disk migrations are all reported.
    */
   async listMigrations(): Promise<ToolResponse<Migration[]>> {
     try {
-      const { data, error } = await this.client
-        .from('supabase_migrations.schema_migrations')
-        .select('*')
-        .order('version', { ascending: false });
-
-      if (error) throw error;
-
-      const migrations: Migration[] = (data || []).map((row: any) => ({
-        version: row.version,
-        name: row.name || `Migration ${row.version}`,
-        executed_at: row.inserted_at,
-        status: 'applied' as const,
-      }));
+      const history = await this.fetchMigrationHistory();
+      const migrations = await this.migrations.reconcile(history);
 
       return {
         success: true,
@@ -79,10 +195,25 @@ export class SupabaseManager {
   /**
    * Deploy a new migration
    */
-  async deployMigration(sql: string, name: string): Promise<ToolResponse<Migration>> {
+  async deployMigration(
+    sql: string,
+    name: string,
+    options: MigrationApplyOptions = {}
+  ): Promise<ToolResponse<Migration>> {
     try {
       const version = new Date().toISOString().replace(/[-:.TZ]/g, '').slice(0, 14);
 
+      const lint = lintMigration(sql);
+      if (!lint.passed && !options.allowUnsafe) {
+        return this.lintBlockedResponse(version, name, sql, lint);
+      }
+      const lintFindings = lint.findings.length > 0 ? lint.findings : undefined;
+
+      if (this.db) {
+        const result = await this.applyMigration(version, name, sql);
+        return this.toApplyResponse(result, `Migration ${name} (${version}) applied successfully`, lintFindings);
+      }
+
       // Execute the migration SQL directly using the admin client
       // PostgREST doesn't support arbitrary SQL execution, so we need to use direct execution
       const { error } = await this.client.rpc('exec', { 
@@ -112,7 +243,7 @@ export class SupabaseManager {
 
           return {
             success: false,
-            error: `Migration created but SQL execution failed: ${error.message}. Execute SQL manually in Supabase dashboard, then use CLI: supabase migration list`,
+            error: `Migration created but SQL execution failed: ${error.message}. Set SUPABASE_DB_HOST for direct execution, or execute SQL manually in Supabase dashboard, then use CLI: supabase migration list`,
             data: migration,
           };
         }
@@ -124,6 +255,7 @@ export class SupabaseManager {
         executed_at: new Date().toISOString(),
         status: 'applied',
         sql,
+        lint_findings: lintFindings,
       };
 
       return {
@@ -138,11 +270,33 @@ export class SupabaseManager {
 
   /**
    * Execute raw SQL query
-   * Note: Self-hosted Supabase may not have exec_sql RPC function
-   * Users should use Supabase CLI or dashboard for direct SQL execution
+   * Uses the direct Postgres connection when SUPABASE_DB_* is configured,
+   * otherwise falls back to an `exec` RPC that self-hosted instances rarely have
    */
   async executeSQL(sql: string): Promise<ToolResponse<any>> {
     try {
+      if (this.db) {
+        const statements = await this.db.query(sql);
+        const last = statements[statements.length - 1] || {
+          command: 'EMPTY',
+          rows: [],
+          columns: [],
+          row_count: null,
+        };
+
+        const data: SQLExecutionResult = statements.length > 1
+          ? { ...last, statements }
+          : last;
+
+        return {
+          success: true,
+          data,
+          message: last.row_count !== null
+            ? `SQL executed successfully (${last.command}, ${last.row_count} row(s))`
+            : 'SQL executed successfully',
+        };
+      }
+
       // Try using pg_stat_statements extension if available
       const { data, error } = await this.client.rpc('exec', { query: sql });
       
@@ -150,9 +304,10 @@ export class SupabaseManager {
         return {
           success: false,
           error: `SQL execution not supported via REST API. Please use one of these alternatives:\n` +
-                 `1. Supabase CLI: supabase db execute --file your-file.sql\n` +
-                 `2. Supabase Dashboard: SQL Editor\n` +
-                 `3. Direct psql connection: psql $SUPABASE_DB_URL\n` +
+                 `1. Configure SUPABASE_DB_HOST and related variables for direct execution\n` +
+                 `2. Supabase CLI: supabase db execute --file your-file.sql\n` +
+                 `3. Supabase Dashboard: SQL Editor\n` +
+                 `4. Direct psql connection: psql $SUPABASE_DB_URL\n` +
                  `Error: ${error.message}`,
         };
       }
@@ -172,20 +327,16 @@ export class SupabaseManager {
    */
   async getMigrationStatus(version: string): Promise<ToolResponse<Migration>> {
     try {
-      const { data, error } = await this.client
-        .from('supabase_migrations.schema_migrations')
-        .select('*')
-        .eq('version', version)
-        .single();
-
-      if (error) throw error;
+      const history = await this.fetchMigrationHistory();
+      const migrations = await this.migrations.reconcile(history);
+      const migration = migrations.find((m) => m.version === version);
 
-      const migration: Migration = {
-        version: data.version,
-        name: data.name || `Migration ${data.version}`,
-        executed_at: data.inserted_at,
-        status: 'applied',
-      };
+      if (!migration) {
+        return {
+          success: false,
+          error: `Migration ${version} not found on disk (${this.migrations.path}) or in migration history`,
+        };
+      }
 
       return {
         success: true,
@@ -201,6 +352,41 @@ export class SupabaseManager {
    */
   async rollbackMigration(version: string, downSql?: string): Promise<ToolResponse<void>> {
     try {
+      if (this.db) {
+        const control = downSql ? findTransactionControl(downSql) : undefined;
+        if (control) {
+          return {
+            success: false,
+            error: `Migration ${version} was not rolled back: ${TRANSACTION_CONTROL_ERROR} (${control})`,
+          };
+        }
+
+        // Down SQL and history removal succeed or fail together
+        const lock = await this.db.transaction(async (client) => {
+          const lock = await this.tryMigrationLock(client);
+          if (!lock.acquired) {
+            return lock;
+          }
+
+          await client.query(MIGRATION_HISTORY_DDL);
+          if (downSql) {
+            await runQuery(client, downSql);
+          }
+          await client.query(`DELETE FROM ${MIGRATION_HISTORY_TABLE} WHERE version = $1`, [version]);
+          await client.query(`DELETE FROM ${MIGRATION_ROLLBACKS_TABLE} WHERE version = $1`, [version]);
+          return lock;
+        });
+
+        if (!lock.acquired) {
+          return this.lockHeldResponse(lock.holderPid);
+        }
+
+        return {
+          success: true,
+          message: `Migration ${version} rolled back successfully`,
+        };
+      }
+
       // If down SQL is provided, execute it
       if (downSql) {
         const { error: execError } = await this.client.rpc('exec_sql', { sql_query: downSql });
@@ -234,10 +420,28 @@ export class SupabaseManager {
   }
 
   /**
-   * Rollback to a specific migration version (rolls back all migrations after this version)
+   * Rollback to a specific migration version (rolls back all migrations after this version).
+   * Down SQL runs newest first inside one transaction; versions without down SQL
+   * are refused unless allowMissingDownSql is set.
    */
-  async rollbackToVersion(targetVersion: string): Promise<ToolResponse<{ rolledBack: string[] }>> {
+  async rollbackToVersion(
+    targetVersion: string,
+    options: RollbackOptions = {}
+  ): Promise<ToolResponse<RollbackResult>> {
     try {
+      if (this.db) {
+        return await this.rollbackVersions(
+          `SELECT version, name FROM ${MIGRATION_HISTORY_TABLE} WHERE version > $1 ORDER BY version DESC FOR UPDATE`,
+          [targetVersion],
+          options,
+          `to version ${targetVersion}`
+        );
+      }
+
+      if (!options.allowMissingDownSql) {
+        return this.historyOnlyRollbackRefused();
+      }
+
       // Get all migrations after the target version
       const { data: migrations, error } = await this.client
         .from('supabase_migrations.schema_migrations')
@@ -247,34 +451,14 @@ export class SupabaseManager {
 
       if (error) throw error;
 
-      if (!migrations || migrations.length === 0) {
-        return {
-          success: true,
-          data: { rolledBack: [] },
-          message: 'No migrations to rollback',
-        };
-      }
-
-      const rolledBackVersions: string[] = [];
-
-      // Note: This is a simplified rollback - in production, you'd want to store
-      // down migration SQL with each migration for proper rollback
-      for (const migration of migrations) {
-        // Remove from migration history
-        const { error: deleteError } = await this.client
-          .from('supabase_migrations.schema_migrations')
-          .delete()
-          .eq('version', migration.version);
-
-        if (!deleteError) {
-          rolledBackVersions.push(migration.version);
-        }
-      }
+      const rolledBack = await this.deleteHistoryRows(migrations || []);
 
       return {
         success: true,
-        data: { rolledBack: rolledBackVersions },
-        message: `Rolled back ${rolledBackVersions.length} migration(s) to version ${targetVersion}`,
+        data: rolledBack,
+        message: rolledBack.rolledBack.length > 0
+          ? `Removed ${rolledBack.rolledBack.length} migration(s) after version ${targetVersion} from history without running down SQL`
+          : 'No migrations to rollback',
       };
     } catch (error) {
       return this.handleError(error, `Failed to rollback to version ${targetVersion}`);
@@ -282,10 +466,25 @@ export class SupabaseManager {
   }
 
   /**
-   * Rollback last N migrations
+   * Rollback last N migrations, running their down SQL newest first in one transaction
    */
-  async rollbackLastMigrations(count: number = 1): Promise<ToolResponse<{ rolledBack: string[] }>> {
+  async rollbackLastMigrations(
+    count: number = 1,
+    options: RollbackOptions = {}
+  ): Promise<ToolResponse<RollbackResult>> {
     try {
+      if (this.db) {
+        return await this.rollbackVersions(
+          `SELECT version, name FROM ${MIGRATION_HISTORY_TABLE} ORDER BY version DESC LIMIT $1 FOR UPDATE`,
+          [count],
+          options
+        );
+      }
+
+      if (!options.allowMissingDownSql) {
+        return this.historyOnlyRollbackRefused();
+      }
+
       // Get the last N migrations
       const { data: migrations, error } = await this.client
         .from('supabase_migrations.schema_migrations')
@@ -295,31 +494,14 @@ export class SupabaseManager {
 
       if (error) throw error;
 
-      if (!migrations || migrations.length === 0) {
-        return {
-          success: true,
-          data: { rolledBack: [] },
-          message: 'No migrations to rollback',
-        };
-      }
-
-      const rolledBackVersions: string[] = [];
-
-      for (const migration of migrations) {
-        const { error: deleteError } = await this.client
-          .from('supabase_migrations.schema_migrations')
-          .delete()
-          .eq('version', migration.version);
-
-        if (!deleteError) {
-          rolledBackVersions.push(migration.version);
-        }
-      }
+      const rolledBack = await this.deleteHistoryRows(migrations || []);
 
       return {
         success: true,
-        data: { rolledBack: rolledBackVersions },
-        message: `Rolled back ${rolledBackVersions.length} migration(s)`,
+        data: rolledBack,
+        message: rolledBack.rolledBack.length > 0
+          ? `Removed ${rolledBack.rolledBack.length} migration(s) from history without running down SQL`
+          : 'No migrations to rollback',
       };
     } catch (error) {
       return this.handleError(error, 'Failed to rollback migrations');
@@ -332,13 +514,28 @@ export class SupabaseManager {
   async createMigrationWithRollback(
     name: string,
     upSql: string,
-    downSql: string
+    downSql: string,
+    options: MigrationApplyOptions = {}
   ): Promise<ToolResponse<Migration>> {
     try {
       const version = new Date().toISOString().replace(/[-:.TZ]/g, '').slice(0, 14);
 
+      if (this.db) {
+        const lint = lintMigration(upSql);
+        if (!lint.passed && !options.allowUnsafe) {
+          return this.lintBlockedResponse(version, name, upSql, lint);
+        }
+
+        const result = await this.applyMigration(version, name, upSql, downSql);
+        return this.toApplyResponse(
+          result,
+          `Migration ${name} deployed with rollback support`,
+          lint.findings.length > 0 ? lint.findings : undefined
+        );
+      }
+
       // Execute the up migration
-      const deployResult = await this.deployMigration(upSql, name);
+      const deployResult = await this.deployMigration(upSql, name, options);
       
       if (!deployResult.success) {
         return deployResult;
@@ -366,48 +563,695 @@ export class SupabaseManager {
           );
         `);
 
-        // Try again
-        await this.client.from('_migration_rollbacks').insert({
-          version,
-          name,
-          down_sql: downSql,
-          created_at: new Date().toISOString(),
-        });
-      }
+        // Try again
+        await this.client.from('_migration_rollbacks').insert({
+          version,
+          name,
+          down_sql: downSql,
+          created_at: new Date().toISOString(),
+        });
+      }
+
+      return {
+        success: true,
+        data: deployResult.data!,
+        message: `Migration ${name} deployed with rollback support`,
+      };
+    } catch (error) {
+      return this.handleError(error, 'Failed to create migration with rollback');
+    }
+  }
+
+  /**
+   * Rollback a migration using its stored down SQL
+   */
+  async rollbackMigrationWithDownSql(version: string): Promise<ToolResponse<void>> {
+    try {
+      const downSql = await this.findDownSQL(version);
+      if (downSql) {
+        return await this.rollbackMigration(version, downSql);
+      }
+
+      if (this.db) {
+        return {
+          success: false,
+          error: `No rollback SQL found for migration ${version}. Use rollbackMigration() with manual down SQL instead.`,
+        };
+      }
+
+      // Get the down SQL for this migration
+      const { data: rollbackData, error: fetchError } = await this.client
+        .from('_migration_rollbacks')
+        .select('down_sql')
+        .eq('version', version)
+        .single();
+
+      if (fetchError) {
+        return {
+          success: false,
+          error: `No rollback SQL found for migration ${version}. Use rollbackMigration() with manual down SQL instead.`,
+        };
+      }
+
+      // Execute the down SQL
+      return await this.rollbackMigration(version, rollbackData.down_sql);
+    } catch (error) {
+      return this.handleError(error, `Failed to rollback migration ${version}`);
+    }
+  }
+
+  /**
+   * Run the down SQL of each version, newest first, in one transaction under the
+   * migration lock. The versions are selected with `selectSql` once the lock is
+   * held, so a concurrent apply or rollback cannot change them before the run;
+   * FOR UPDATE keeps sessions outside the lock from removing them. A failure
+   * aborts the whole run and the per-version steps show exactly where it stopped.
+   */
+  private async rollbackVersions(
+    selectSql: string,
+    params: unknown[],
+    options: RollbackOptions,
+    label: string = ''
+  ): Promise<ToolResponse<RollbackResult>> {
+    const scope = label ? ` ${label}` : '';
+    let steps: RollbackStep[] = [];
+    let refused: ToolResponse<RollbackResult> | undefined;
+
+    try {
+      const lock = await this.db!.transaction(async (client) => {
+        const lock = await this.tryMigrationLock(client);
+        if (!lock.acquired) {
+          return lock;
+        }
+
+        await client.query(MIGRATION_HISTORY_DDL);
+
+        const { rows: versions } = await client.query<{ version: string; name: string | null }>(selectSql, params);
+        steps = versions.map(({ version, name }) => ({ version, name: name || undefined, status: 'not_run' }));
+        const downSql = await this.findDownSQLs(versions.map((v) => v.version), client);
+        refused = refuseRollback(steps, downSql, options, scope);
+        if (refused) {
+          return lock;
+        }
+
+        for (const step of steps) {
+          const sql = downSql.get(step.version);
+          try {
+            if (sql) {
+              await runQuery(client, sql);
+            }
+            const removed = await client.query(
+              `DELETE FROM ${MIGRATION_HISTORY_TABLE} WHERE version = $1`,
+              [step.version]
+            );
+            if (removed.rowCount === 0) {
+              throw new Error(`Migration ${step.version} is no longer in the history`);
+            }
+            await client.query(`DELETE FROM ${MIGRATION_ROLLBACKS_TABLE} WHERE version = $1`, [step.version]);
+            step.status = sql ? 'rolled_back' : 'history_only';
+          } catch (error) {
+            step.status = 'failed';
+            step.error = error instanceof Error ? error.message : 'Unknown error';
+            step.error_details = describeDatabaseError(error);
+            throw error;
+          }
+        }
+
+        return lock;
+      });
+
+      if (!lock.acquired) {
+        return this.lockHeldResponse(lock.holderPid);
+      }
+      if (refused) {
+        return refused;
+      }
+    } catch (error) {
+      const failed = steps.find((step) => step.status === 'failed');
+      if (!failed) {
+        return this.handleError(error, `Failed to rollback migrations${scope}`);
+      }
+
+      // The transaction rolled back, so steps that had completed were undone too
+      for (const step of steps) {
+        if (step.status === 'rolled_back' || step.status === 'history_only') {
+          step.status = 'aborted';
+        }
+      }
+
+      return {
+        success: false,
+        error: `Rollback${scope} stopped at migration ${failed.version}: ${failed.error}. ` +
+               'No changes were committed.',
+        data: { rolledBack: [], committed: false, steps },
+        details: failed.error_details,
+      };
+    }
+
+    if (steps.length === 0) {
+      return {
+        success: true,
+        data: { rolledBack: [], committed: true, steps: [] },
+        message: 'No migrations to rollback',
+      };
+    }
+
+    const historyOnly = steps.filter((step) => step.status === 'history_only').length;
+
+    return {
+      success: true,
+      data: { rolledBack: steps.map((step) => step.version), committed: true, steps },
+      message: `Rolled back ${steps.length} migration(s)${scope}` +
+               (historyOnly > 0 ? ` (${historyOnly} without down SQL; their schema changes remain)` : ''),
+    };
+  }
+
+  /**
+   * Remove history rows through the REST API, for instances without direct database access
+   */
+  private async deleteHistoryRows(migrations: { version: string; name?: string | null }[]): Promise<RollbackResult> {
+    const steps: RollbackStep[] = [];
+
+    for (const migration of migrations) {
+      const { error: deleteError } = await this.client
+        .from('supabase_migrations.schema_migrations')
+        .delete()
+        .eq('version', migration.version);
+
+      steps.push({
+        version: migration.version,
+        name: migration.name || undefined,
+        status: deleteError ? 'failed' : 'history_only',
+        error: deleteError?.message,
+      });
+    }
+
+    return {
+      rolledBack: steps.filter((step) => step.status === 'history_only').map((step) => step.version),
+      committed: true,
+      steps,
+    };
+  }
+
+  /**
+   * Response for history-only rollbacks requested without explicit confirmation
+   */
+  private historyOnlyRollbackRefused(): ToolResponse<never> {
+    return {
+      success: false,
+      error: 'Running down SQL requires direct database access (SUPABASE_DB_HOST and related variables). ' +
+             'Pass allow_missing_down_sql: true to remove history rows only, leaving schema changes in place.',
+    };
+  }
+
+  // ==================== Migration Dry Runs ====================
+
+  /**
+   * Preview a migration without applying it.
+   * When down SQL is given it runs after the up SQL, proving the migration reverses cleanly.
+   */
+  async planMigration(sql: string, name: string, downSql?: string): Promise<ToolResponse<MigrationPlan>> {
+    const version = new Date().toISOString().replace(/[-:.TZ]/g, '').slice(0, 14);
+
+    return this.dryRun(`Failed to plan migration ${name}`, async (client, plan) => {
+      plan.versions_to_apply.push(version);
+
+      const lint = lintMigration(sql);
+      plan.lint_findings = lint.findings;
+      if (!lint.passed) {
+        plan.warnings.push(
+          `Linter found ${lint.summary.errors} error(s); the real run would be refused unless allow_unsafe is set`
+        );
+      }
+
+      const lock = await this.tryMigrationLock(client);
+      if (!lock.acquired) {
+        plan.warnings.push(
+          `Migration lock is held by another session${lock.holderPid ? ` (pid ${lock.holderPid})` : ''}; the real run would be refused`
+        );
+      }
+
+      const [existing] = await this.readMigrationHistory(
+        `SELECT version, name FROM ${MIGRATION_HISTORY_TABLE}
+         WHERE name = $1 AND statements = $2::text[]
+         LIMIT 1`,
+        [name, [sql]]
+      );
+      if (existing) {
+        plan.warnings.push(`Migration ${name} is already applied as version ${existing.version}; the real run would skip it`);
+      }
+
+      await this.executePlanned(client, plan, version, 'up', sql);
+      if (downSql) {
+        await this.executePlanned(client, plan, version, 'down', downSql);
+      }
+    });
+  }
+
+  /**
+   * Preview rolling back a single migration
+   */
+  async planRollbackMigration(version: string, downSql?: string): Promise<ToolResponse<MigrationPlan>> {
+    return this.planRollback([version], new Map([[version, downSql]]));
+  }
+
+  /**
+   * Preview rolling back a migration with its paired or stored down SQL
+   */
+  async planRollbackMigrationWithDownSql(version: string): Promise<ToolResponse<MigrationPlan>> {
+    if (!this.db) {
+      return this.dryRunUnavailable();
+    }
+
+    try {
+      const downSql = await this.findDownSQL(version);
+      return await this.planRollback([version], new Map([[version, downSql]]));
+    } catch (error) {
+      return this.handleError(error, `Failed to plan rollback of migration ${version}`);
+    }
+  }
+
+  /**
+   * Preview rolling back every migration after a version
+   */
+  async planRollbackToVersion(targetVersion: string): Promise<ToolResponse<MigrationPlan>> {
+    if (!this.db) {
+      return this.dryRunUnavailable();
+    }
+
+    try {
+      const rows = await this.readMigrationHistory(
+        `SELECT version FROM ${MIGRATION_HISTORY_TABLE} WHERE version > $1 ORDER BY version DESC`,
+        [targetVersion]
+      );
+      const versions = rows.map((row) => row.version);
+      return await this.planRollback(versions, await this.findDownSQLs(versions));
+    } catch (error) {
+      return this.handleError(error, `Failed to plan rollback to version ${targetVersion}`);
+    }
+  }
+
+  /**
+   * Preview rolling back the last N migrations
+   */
+  async planRollbackLastMigrations(count: number = 1): Promise<ToolResponse<MigrationPlan>> {
+    if (!this.db) {
+      return this.dryRunUnavailable();
+    }
+
+    try {
+      const rows = await this.readMigrationHistory(
+        `SELECT version FROM ${MIGRATION_HISTORY_TABLE} ORDER BY version DESC LIMIT $1`,
+        [count]
+      );
+      const versions = rows.map((row) => row.version);
+      return await this.planRollback(versions, await this.findDownSQLs(versions));
+    } catch (error) {
+      return this.handleError(error, 'Failed to plan rollback');
+    }
+  }
+
+  /**
+   * Run down SQL for each version, newest first, and list the history rows that would be removed
+   */
+  private async planRollback(
+    versions: string[],
+    downSql: Map<string, string | undefined>
+  ): Promise<ToolResponse<MigrationPlan>> {
+    return this.dryRun('Failed to plan rollback', async (client, plan) => {
+      plan.versions_to_remove.push(...versions);
+
+      if (versions.length === 0) {
+        plan.warnings.push('No migrations to rollback');
+      }
+
+      for (const version of versions) {
+        const sql = downSql.get(version);
+        if (sql) {
+          await this.executePlanned(client, plan, version, 'down', sql);
+        } else {
+          plan.warnings.push(
+            `Migration ${version} has no down SQL; only its history row would be removed and its schema changes would remain`
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * Run a plan inside a transaction that is always rolled back,
+   * then report the locks it took and the objects they cover
+   */
+  private async dryRun(
+    errorMessage: string,
+    build: (client: PoolClient, plan: MigrationPlan) => Promise<void>
+  ): Promise<ToolResponse<MigrationPlan>> {
+    if (!this.db) {
+      return this.dryRunUnavailable();
+    }
+
+    try {
+      const plan: MigrationPlan = {
+        dry_run: true,
+        would_succeed: false,
+        statements: [],
+        affected_objects: [],
+        locks: [],
+        versions_to_apply: [],
+        versions_to_remove: [],
+        warnings: [],
+        errors: [],
+      };
+
+      await this.db.withClient(async (client) => {
+        await client.query('BEGIN');
+        try {
+          // Never let a preview queue behind production traffic for long
+          await client.query("SET LOCAL lock_timeout = '5s'");
+          await client.query("SET LOCAL statement_timeout = '60s'");
+
+          await build(client, plan);
+
+          const { rows } = await client.query(DRY_RUN_LOCKS_SQL);
+          plan.locks = rows;
+          plan.affected_objects = Array.from(new Set(rows.map((row) => row.object as string)));
+        } finally {
+          await client.query('ROLLBACK').catch(() => undefined);
+        }
+      });
+
+      plan.would_succeed = plan.errors.length === 0;
+
+      return {
+        success: true,
+        data: plan,
+        message: plan.would_succeed
+          ? 'Dry run completed without errors. All changes were rolled back.'
+          : `Dry run found ${plan.errors.length} error(s). All changes were rolled back.`,
+      };
+    } catch (error) {
+      return this.handleError(error, errorMessage);
+    }
+  }
+
+  /**
+   * Execute each statement of a script under a savepoint, recording its outcome.
+   * Once a statement fails the remaining ones are reported as skipped, as in a real run.
+   */
+  private async executePlanned(
+    client: PoolClient,
+    plan: MigrationPlan,
+    version: string,
+    phase: 'up' | 'down',
+    sql: string
+  ): Promise<void> {
+    for (const statement of splitStatements(sql)) {
+      if (plan.errors.length > 0) {
+        plan.statements.push({ version, phase, sql: statement, skipped: true });
+        continue;
+      }
+
+      if (isTransactionControl(statement)) {
+        const error = TRANSACTION_CONTROL_ERROR;
+        plan.statements.push({ version, phase, sql: statement, error });
+        plan.errors.push(`${version} (${phase}): ${error}`);
+        continue;
+      }
+
+      await client.query('SAVEPOINT dry_run_statement');
+      try {
+        const results = await runQuery(client, statement);
+        const last = results[results.length - 1];
+        plan.statements.push({
+          version,
+          phase,
+          sql: statement,
+          command: last?.command,
+          row_count: last?.row_count,
+        });
+        await client.query('RELEASE SAVEPOINT dry_run_statement');
+      } catch (error) {
+        await client.query('ROLLBACK TO SAVEPOINT dry_run_statement');
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        plan.statements.push({
+          version,
+          phase,
+          sql: statement,
+          error: message,
+          error_details: describeDatabaseError(error),
+        });
+        plan.errors.push(`${version} (${phase}): ${message}`);
+      }
+    }
+  }
+
+  /**
+   * Response for dry runs requested without a direct database connection
+   */
+  private dryRunUnavailable(): ToolResponse<never> {
+    return databaseUnavailable('Dry run');
+  }
+
+  /**
+   * Find down SQL for several versions. Stored down SQL is read through `client`
+   * when given, so it comes from the same transaction as the versions.
+   */
+  private async findDownSQLs(versions: string[], client?: PoolClient): Promise<Map<string, string | undefined>> {
+    const fileDownSql = await this.migrations.readDownSQLs(versions);
+    const downSql = new Map<string, string | undefined>();
+    for (const version of versions) {
+      downSql.set(version, fileDownSql.get(version) || await this.findStoredDownSQL(version, client));
+    }
+    return downSql;
+  }
+
+  /**
+   * Find down SQL for a version: a paired .down.sql file first, then SQL stored in the database
+   */
+  private async findDownSQL(version: string): Promise<string | undefined> {
+    return (await this.findDownSQLs([version])).get(version);
+  }
+
+  private async findStoredDownSQL(version: string, client?: PoolClient): Promise<string | undefined> {
+    if (!this.db) {
+      return undefined;
+    }
+
+    const query = `SELECT down_sql FROM ${MIGRATION_ROLLBACKS_TABLE} WHERE version = $1`;
+    const [row] = client
+      ? (await client.query<{ down_sql: string }>(query, [version])).rows
+      : await this.readMigrationHistory<{ down_sql: string }>(query, [version]);
+    return row?.down_sql;
+  }
+
+  /**
+   * Execute migration SQL and record it in the migration history.
+   * The SQL, history row and stored down SQL share one transaction, guarded by
+   * an advisory lock so concurrent sessions cannot apply migrations at the same time.
+   */
+  private async applyMigration(
+    version: string,
+    name: string,
+    sql: string,
+    downSql?: string
+  ): Promise<MigrationApplyResult> {
+    // A COMMIT would end the transaction early, releasing the lock and leaving the history row behind
+    for (const [phase, script] of [['up', sql], ['down', downSql]] as const) {
+      const control = script ? findTransactionControl(script) : undefined;
+      if (control) {
+        return {
+          outcome: 'rejected',
+          error: `Migration ${name} was not applied: ${TRANSACTION_CONTROL_ERROR} (${phase} SQL: ${control})`,
+        };
+      }
+    }
+
+    return this.db!.transaction(async (client) => {
+      const lock = await this.tryMigrationLock(client);
+      if (!lock.acquired) {
+        return { outcome: 'lock_held', holderPid: lock.holderPid };
+      }
+
+      await client.query(MIGRATION_HISTORY_DDL);
+
+      // Same version, or the same name with identical SQL, means a repeated request
+      const { rows: existing } = await client.query(
+        `SELECT version, name FROM ${MIGRATION_HISTORY_TABLE}
+         WHERE version = $1 OR (name = $2 AND statements = $3::text[])
+         LIMIT 1`,
+        [version, name, [sql]]
+      );
+      if (existing.length > 0) {
+        return {
+          outcome: 'already_applied',
+          migration: {
+            version: existing[0].version,
+            name: existing[0].name || name,
+            status: 'applied',
+          },
+        };
+      }
+
+      await runQuery(client, sql);
+      await client.query(
+        `INSERT INTO ${MIGRATION_HISTORY_TABLE} (version, name, statements) VALUES ($1, $2, $3)`,
+        [version, name, [sql]]
+      );
+
+      if (downSql) {
+        await client.query(
+          `INSERT INTO ${MIGRATION_ROLLBACKS_TABLE} (version, name, down_sql) VALUES ($1, $2, $3)`,
+          [version, name, downSql]
+        );
+      }
+
+      return {
+        outcome: 'applied',
+        migration: {
+          version,
+          name,
+          executed_at: new Date().toISOString(),
+          status: 'applied',
+          sql,
+        },
+      };
+    });
+  }
+
+  /**
+   * Convert the outcome of applyMigration into a tool response
+   */
+  private toApplyResponse(
+    result: MigrationApplyResult,
+    successMessage: string,
+    lintFindings?: LintFinding[]
+  ): ToolResponse<Migration> {
+    switch (result.outcome) {
+      case 'applied':
+        return {
+          success: true,
+          data: { ...result.migration, lint_findings: lintFindings },
+          message: successMessage,
+        };
+      case 'already_applied':
+        return {
+          success: true,
+          data: result.migration,
+          message: `Migration ${result.migration.name} is already applied as version ${result.migration.version}; nothing was executed`,
+        };
+      case 'lock_held':
+        return this.lockHeldResponse(result.holderPid);
+      case 'rejected':
+        return { success: false, error: result.error };
+    }
+  }
+
+  /**
+   * Response for a migration refused because the linter found errors
+   */
+  private lintBlockedResponse(
+    version: string,
+    name: string,
+    sql: string,
+    lint: LintResult
+  ): ToolResponse<Migration> {
+    const errors = lint.findings.filter((finding) => finding.severity === 'error');
+    const summary = errors
+      .map((finding) => `${finding.rule} (${finding.object || `statement ${finding.statement_index + 1}`})`)
+      .join(', ');
+
+    return {
+      success: false,
+      error: `Migration ${name} was not applied: linter found ${errors.length} error(s): ${summary}. ` +
+             'Review lint_findings, or pass allow_unsafe: true to apply anyway.',
+      data: {
+        version,
+        name,
+        status: 'pending',
+        sql,
+        lint_findings: lint.findings,
+      },
+    };
+  }
+
+  /**
+   * Response for a migration attempt that lost the advisory lock race
+   */
+  private lockHeldResponse(holderPid?: number): ToolResponse<never> {
+    return {
+      success: false,
+      error: `Migration lock is held by another session${holderPid ? ` (pid ${holderPid})` : ''}. ` +
+             'Wait for the other migration to finish and try again.',
+    };
+  }
 
-      return {
-        success: true,
-        data: deployResult.data!,
-        message: `Migration ${name} deployed with rollback support`,
-      };
-    } catch (error) {
-      return this.handleError(error, 'Failed to create migration with rollback');
+  /**
+   * Try to take the transaction-scoped migration advisory lock.
+   * Reports the backend holding it when another session got there first.
+   */
+  private async tryMigrationLock(client: PoolClient): Promise<{ acquired: boolean; holderPid?: number }> {
+    const { rows } = await client.query(
+      'SELECT pg_try_advisory_xact_lock($1) AS acquired',
+      [MIGRATION_LOCK_KEY]
+    );
+    if (rows[0].acquired) {
+      return { acquired: true };
     }
+
+    // Single bigint keys show up as classid = 0, objid = key, objsubid = 1
+    const { rows: holders } = await client.query(
+      `SELECT pid FROM pg_locks
+       WHERE locktype = 'advisory' AND classid = 0 AND objid = $1 AND objsubid = 1 AND granted
+       LIMIT 1`,
+      [MIGRATION_LOCK_KEY]
+    );
+    return { acquired: false, holderPid: holders[0]?.pid };
   }
 
   /**
-   * Rollback a migration using its stored down SQL
+   * Read the applied migration history, newest first
    */
-  async rollbackMigrationWithDownSql(version: string): Promise<ToolResponse<void>> {
-    try {
-      // Get the down SQL for this migration
-      const { data: rollbackData, error: fetchError } = await this.client
-        .from('_migration_rollbacks')
-        .select('down_sql')
-        .eq('version', version)
-        .single();
+  private async fetchMigrationHistory(): Promise<MigrationHistoryEntry[]> {
+    if (this.db) {
+      const history = await this.readMigrationHistory<MigrationHistoryEntry>(
+        `SELECT version, name, statements FROM ${MIGRATION_HISTORY_TABLE} ORDER BY version DESC`
+      );
+      const stored = await this.readMigrationHistory<{ version: string }>(
+        `SELECT version FROM ${MIGRATION_ROLLBACKS_TABLE}`
+      );
+      const withDownSql = new Set(stored.map((row) => row.version));
 
-      if (fetchError) {
-        return {
-          success: false,
-          error: `No rollback SQL found for migration ${version}. Use rollbackMigration() with manual down SQL instead.`,
-        };
-      }
+      return history.map((entry) => ({ ...entry, has_down_sql: withDownSql.has(entry.version) }));
+    }
 
-      // Execute the down SQL
-      return await this.rollbackMigration(version, rollbackData.down_sql);
+    const { data, error } = await this.client
+      .from('supabase_migrations.schema_migrations')
+      .select('*')
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      version: row.version,
+      name: row.name,
+      statements: row.statements,
+    }));
+  }
+
+  /**
+   * Read from the migration tables, treating a missing table as empty history
+   */
+  private async readMigrationHistory<T = { version: string; name: string | null }>(
+    sql: string,
+    params?: unknown[]
+  ): Promise<T[]> {
+    try {
+      return await this.db!.rows<T>(sql, params);
     } catch (error) {
-      return this.handleError(error, `Failed to rollback migration ${version}`);
+      if (describeDatabaseError(error)?.code === UNDEFINED_TABLE) {
+        return [];
+      }
+      throw error;
     }
   }
 
@@ -587,12 +1431,14 @@ export class SupabaseManager {
   async createStorageBucket(
     id: string,
     isPublic: boolean = false,
-    fileSizeLimit?: number
+    fileSizeLimit?: number,
+    allowedMimeTypes?: string[]
   ): Promise<ToolResponse<StorageBucket>> {
     try {
       const { error } = await this.client.storage.createBucket(id, {
         public: isPublic,
         fileSizeLimit,
+        allowedMimeTypes,
       });
 
       if (error) throw error;
@@ -602,6 +1448,7 @@ export class SupabaseManager {
         name: id,
         public: isPublic,
         file_size_limit: fileSizeLimit,
+        allowed_mime_types: allowedMimeTypes,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
@@ -616,6 +1463,57 @@ export class SupabaseManager {
     }
   }
 
+  /**
+   * Change whether a bucket is public, its file size limit and allowed MIME types.
+   * Settings left undefined keep their value; null removes a limit.
+   */
+  async updateStorageBucket(
+    id: string,
+    changes: { public?: boolean; fileSizeLimit?: number | null; allowedMimeTypes?: string[] | null }
+  ): Promise<ToolResponse<StorageBucket>> {
+    try {
+      // Storage replaces every setting on update, so unchanged ones are sent as they are
+      const { data: current, error: getError } = await this.client.storage.getBucket(id);
+      if (getError) throw getError;
+
+      const { error } = await this.client.storage.updateBucket(id, {
+        public: changes.public ?? current.public,
+        fileSizeLimit: changes.fileSizeLimit !== undefined ? changes.fileSizeLimit : current.file_size_limit ?? null,
+        allowedMimeTypes: changes.allowedMimeTypes !== undefined ? changes.allowedMimeTypes : current.allowed_mime_types ?? null,
+      });
+      if (error) throw error;
+
+      const { data: updated, error: refreshError } = await this.client.storage.getBucket(id);
+      if (refreshError) throw refreshError;
+
+      return {
+        success: true,
+        data: updated as StorageBucket,
+        message: `Storage bucket ${id} updated successfully`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to update storage bucket ${id}`);
+    }
+  }
+
+  /**
+   * Delete every object in a bucket, keeping the bucket and its settings
+   */
+  async emptyStorageBucket(id: string): Promise<ToolResponse<void>> {
+    try {
+      const { error } = await this.client.storage.emptyBucket(id);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        message: `Storage bucket ${id} emptied successfully`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to empty storage bucket ${id}`);
+    }
+  }
+
   /**
    * Delete a storage bucket
    */
@@ -634,6 +1532,333 @@ export class SupabaseManager {
     }
   }
 
+  // ==================== Storage Objects ====================
+
+  /**
+   * List the files and folders directly under a prefix, one page at a time
+   */
+  async listStorageObjects(
+    bucket: string,
+    options: {
+      prefix?: string;
+      search?: string;
+      limit?: number;
+      offset?: number;
+      sortBy?: 'name' | 'created_at' | 'updated_at' | 'last_accessed_at';
+      order?: 'asc' | 'desc';
+    } = {}
+  ): Promise<ToolResponse<StorageObjectList>> {
+    const prefix = (options.prefix || '').replace(/^\/+|\/+$/g, '');
+    const limit = options.limit || 100;
+    const offset = options.offset || 0;
+    try {
+      const { data, error } = await this.client.storage.from(bucket).list(prefix, {
+        limit,
+        offset,
+        search: options.search,
+        sortBy: { column: options.sortBy || 'name', order: options.order || 'asc' },
+      });
+
+      if (error) throw error;
+
+      // Folders come back without an id or metadata
+      const objects: StorageObject[] = data.map((entry) => ({
+        name: entry.name,
+        path: prefix ? `${prefix}/${entry.name}` : entry.name,
+        is_folder: entry.id === null,
+        id: entry.id ?? undefined,
+        size: entry.metadata?.size,
+        mimetype: entry.metadata?.mimetype,
+        cache_control: entry.metadata?.cacheControl,
+        created_at: entry.created_at ?? undefined,
+        updated_at: entry.updated_at ?? undefined,
+      }));
+
+      return {
+        success: true,
+        data: { bucket, prefix, objects, offset, limit, has_more: objects.length === limit },
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to list objects in ${bucket}/${prefix}`);
+    }
+  }
+
+  /**
+   * Upload a local file or base64 content to a bucket
+   */
+  async uploadStorageObject(
+    bucket: string,
+    path: string,
+    source: { filePath?: string; base64?: string },
+    options: { contentType?: string; cacheControl?: string; upsert?: boolean } = {}
+  ): Promise<ToolResponse<StorageTransfer>> {
+    try {
+      const filePath = source.filePath ? resolve(source.filePath) : undefined;
+      const body = filePath ? await readFile(filePath) : Buffer.from(source.base64 || '', 'base64');
+      const contentType = options.contentType || contentTypeFor(filePath || path);
+
+      const { error } = await this.client.storage.from(bucket).upload(path, body, {
+        contentType,
+        cacheControl: options.cacheControl,
+        upsert: options.upsert ?? false,
+      });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: { bucket, path, file_path: filePath, size_bytes: body.length, content_type: contentType },
+        message: `Uploaded ${body.length} bytes to ${bucket}/${path}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to upload ${bucket}/${path}`);
+    }
+  }
+
+  /**
+   * Download an object to a local file, streaming it to disk
+   */
+  async downloadStorageObject(
+    bucket: string,
+    path: string,
+    outputPath: string,
+    overwrite: boolean = false
+  ): Promise<ToolResponse<StorageTransfer>> {
+    const filePath = resolve(outputPath);
+    if (existsSync(filePath) && !overwrite) {
+      return { success: false, error: `${filePath} already exists; pass overwrite to replace it` };
+    }
+
+    try {
+      const { data: info, error: infoError } = await this.client.storage.from(bucket).info(path);
+      if (infoError) throw infoError;
+
+      const { data, error } = await this.client.storage.from(bucket).download(path).asStream();
+      if (error) throw error;
+
+      await mkdir(dirname(filePath), { recursive: true });
+      let sizeBytes = 0;
+      const body = Readable.fromWeb(data as WebReadableStream<Uint8Array>).on('data', (chunk: Buffer) => {
+        sizeBytes += chunk.length;
+      });
+      await pipeline(body, createWriteStream(filePath));
+
+      return {
+        success: true,
+        data: {
+          bucket,
+          path,
+          file_path: filePath,
+          size_bytes: sizeBytes,
+          content_type: info.contentType || 'application/octet-stream',
+        },
+        message: `Downloaded ${bucket}/${path} to ${filePath}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to download ${bucket}/${path}`);
+    }
+  }
+
+  /**
+   * Get the size, content type and custom metadata of an object
+   */
+  async getStorageObjectInfo(bucket: string, path: string): Promise<ToolResponse<StorageObjectInfo>> {
+    try {
+      const { data, error } = await this.client.storage.from(bucket).info(path);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: {
+          bucket,
+          path,
+          id: data.id,
+          version: data.version,
+          size: data.size,
+          content_type: data.contentType,
+          cache_control: data.cacheControl,
+          etag: data.etag,
+          created_at: data.createdAt,
+          last_modified: data.lastModified,
+          metadata: data.metadata,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to get info for ${bucket}/${path}`);
+    }
+  }
+
+  /**
+   * Move an object, optionally into another bucket
+   */
+  async moveStorageObject(
+    bucket: string,
+    fromPath: string,
+    toPath: string,
+    destinationBucket?: string
+  ): Promise<ToolResponse<void>> {
+    const target = `${destinationBucket || bucket}/${toPath}`;
+    try {
+      const { error } = await this.client.storage.from(bucket).move(fromPath, toPath, { destinationBucket });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        message: `Moved ${bucket}/${fromPath} to ${target}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to move ${bucket}/${fromPath} to ${target}`);
+    }
+  }
+
+  /**
+   * Copy an object, optionally into another bucket
+   */
+  async copyStorageObject(
+    bucket: string,
+    fromPath: string,
+    toPath: string,
+    destinationBucket?: string
+  ): Promise<ToolResponse<void>> {
+    const target = `${destinationBucket || bucket}/${toPath}`;
+    try {
+      const { error } = await this.client.storage.from(bucket).copy(fromPath, toPath, { destinationBucket });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        message: `Copied ${bucket}/${fromPath} to ${target}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to copy ${bucket}/${fromPath} to ${target}`);
+    }
+  }
+
+  /**
+   * Delete objects in batches and report which paths did not exist
+   */
+  async deleteStorageObjects(bucket: string, paths: string[]): Promise<ToolResponse<StorageDeleteResult>> {
+    const deleted: string[] = [];
+    try {
+      for (let start = 0; start < paths.length; start += STORAGE_REMOVE_BATCH) {
+        const { data, error } = await this.client.storage
+          .from(bucket)
+          .remove(paths.slice(start, start + STORAGE_REMOVE_BATCH));
+
+        if (error) throw error;
+
+        deleted.push(...data.map((entry) => entry.name));
+      }
+
+      const removed = new Set(deleted);
+      return {
+        success: true,
+        data: { bucket, deleted, not_found: paths.filter((path) => !removed.has(path)) },
+        message: `Deleted ${deleted.length} of ${paths.length} objects from ${bucket}`,
+      };
+    } catch (error) {
+      const response = this.handleError(error, `Failed to delete objects from ${bucket}`);
+      // Earlier batches are already gone
+      return deleted.length > 0
+        ? { ...response, error: `${response.error} (after deleting ${deleted.length} objects)` }
+        : response;
+    }
+  }
+
+  // ==================== Storage URLs ====================
+
+  /**
+   * Create signed download URLs for objects in a private or public bucket
+   */
+  async createSignedUrls(
+    bucket: string,
+    paths: string[],
+    expiresIn: number,
+    download?: string | boolean
+  ): Promise<ToolResponse<StorageSignedUrl[]>> {
+    try {
+      const { data, error } = await this.client.storage.from(bucket).createSignedUrls(paths, expiresIn, { download });
+
+      if (error) throw error;
+
+      const urls: StorageSignedUrl[] = data.map((entry, index) => ({
+        path: entry.path || paths[index],
+        signed_url: entry.signedUrl || undefined,
+        expires_at: entry.signedUrl ? new Date(Date.now() + expiresIn * 1000).toISOString() : undefined,
+        error: entry.error || undefined,
+      }));
+      const failed = urls.filter((url) => url.error).length;
+
+      return {
+        success: failed < urls.length,
+        data: urls,
+        message: `Signed ${urls.length - failed} of ${urls.length} URL(s) in ${bucket} for ${expiresIn} seconds`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to sign URLs in ${bucket}`);
+    }
+  }
+
+  /**
+   * Create a URL that lets a client upload one object without other credentials.
+   * The Storage server fixes its lifetime; the expiry is read from the token.
+   */
+  async createSignedUploadUrl(
+    bucket: string,
+    path: string,
+    upsert: boolean = false
+  ): Promise<ToolResponse<StorageSignedUploadUrl>> {
+    try {
+      const { data, error } = await this.client.storage.from(bucket).createSignedUploadUrl(path, { upsert });
+
+      if (error) throw error;
+
+      const expiresAt = jwtExpiry(data.token);
+      return {
+        success: true,
+        data: { bucket, path: data.path, signed_url: data.signedUrl, token: data.token, expires_at: expiresAt },
+        message: `Signed upload URL for ${bucket}/${data.path}${expiresAt ? `, valid until ${expiresAt}` : ''}`,
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to sign an upload URL for ${bucket}/${path}`);
+    }
+  }
+
+  /**
+   * Public URLs of objects; only buckets marked public serve them
+   */
+  async getPublicUrls(
+    bucket: string,
+    paths: string[],
+    download?: string | boolean
+  ): Promise<ToolResponse<{ path: string; public_url: string }[]>> {
+    try {
+      const { data: details, error } = await this.client.storage.getBucket(bucket);
+
+      if (error) throw error;
+
+      if (!details.public) {
+        return {
+          success: false,
+          error: `Bucket ${bucket} is private and does not serve public URLs; create signed URLs instead`,
+        };
+      }
+
+      return {
+        success: true,
+        data: paths.map((path) => ({
+          path,
+          public_url: this.client.storage.from(bucket).getPublicUrl(path, { download }).data.publicUrl,
+        })),
+      };
+    } catch (error) {
+      return this.handleError(error, `Failed to get public URLs in ${bucket}`);
+    }
+  }
+
   // ==================== Auth Configuration ====================
 
   /**
@@ -763,10 +1988,61 @@ export class SupabaseManager {
         error: `${message}: ${error.response?.data?.message || error.message}`,
       };
     }
+    return databaseErrorResponse(error, message);
+  }
+}
+
+/**
+ * The first statement of a script that would end or start a transaction
+ */
+function findTransactionControl(sql: string): string | undefined {
+  return splitStatements(sql).find(isTransactionControl);
+}
+
+/**
+ * Refusal for a rollback that cannot run as planned: versions without down SQL
+ * (unless allowed) or down SQL that would end the transaction
+ */
+function refuseRollback(
+  steps: RollbackStep[],
+  downSql: Map<string, string | undefined>,
+  options: RollbackOptions,
+  scope: string
+): ToolResponse<RollbackResult> | undefined {
+  const missing = steps.map((step) => step.version).filter((version) => !downSql.get(version));
+  if (missing.length > 0 && !options.allowMissingDownSql) {
+    return {
+      success: false,
+      error: `Refusing to rollback${scope}: no down SQL found for ${missing.join(', ')}. ` +
+             'Add paired .down.sql files, or pass allow_missing_down_sql: true to remove only their history rows.',
+      data: {
+        rolledBack: [],
+        committed: false,
+        steps: steps.map((step) =>
+          missing.includes(step.version) ? { ...step, error: 'No down SQL found' } : step
+        ),
+      },
+    };
+  }
+
+  const withControl = steps
+    .map((step) => ({ step, control: findTransactionControl(downSql.get(step.version) || '') }))
+    .filter(({ control }) => control);
+  if (withControl.length > 0) {
     return {
       success: false,
-      error: `${message}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error: `Refusing to rollback${scope}: ${TRANSACTION_CONTROL_ERROR}. ` +
+             `Found in the down SQL of ${withControl.map(({ step }) => step.version).join(', ')}.`,
+      data: {
+        rolledBack: [],
+        committed: false,
+        steps: steps.map((step) => {
+          const found = withControl.find((entry) => entry.step === step);
+          return found ? { ...step, error: `${TRANSACTION_CONTROL_ERROR}: ${found.control}` } : step;
+        }),
+      },
     };
   }
-}
 
+  return undefined;
+}
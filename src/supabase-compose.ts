@@ -0,0 +1,667 @@
+/**
+ * docker-compose generation for the official self-hosted Supabase stack
+ * Builds the compose file Coolify runs as a service, leaving out the
+ * components a SupabaseDeploymentConfig disables
+ */
+
+import type { CoolifyService, SupabaseDeploymentConfig, SupabaseComponent, SupabaseCompose } from './types.js';
+
+// Pinned to the versions of the official supabase/docker compose file
+export const SUPABASE_IMAGES: Record<SupabaseComponent, string> = {
+  db: 'supabase/postgres:15.8.1.060',
+  kong: 'kong:2.8.1',
+  auth: 'supabase/gotrue:v2.177.0',
+  rest: 'postgrest/postgrest:v12.2.12',
+  realtime: 'supabase/realtime:v2.34.47',
+  storage: 'supabase/storage-api:v1.25.7',
+  imgproxy: 'darthsim/imgproxy:v3.8.0',
+  meta: 'supabase/postgres-meta:v0.91.0',
+  studio: 'supabase/studio:2025.06.30-sha-6f5982d',
+  functions: 'supabase/edge-runtime:v1.67.4',
+};
+
+// Postgres major versions with a published supabase/postgres image
+const POSTGRES_IMAGE_TAGS: Record<string, string> = {
+  '15': '15.8.1.060',
+};
+
+// The realtime tenant is derived from the first label of the request host
+const REALTIME_HOST = 'realtime-dev';
+
+// Secrets and settings the compose file reads from the Coolify environment
+export interface SupabaseComposeSecrets {
+  postgresPassword: string;
+  jwtSecret: string;
+  anonKey: string;
+  serviceRoleKey: string;
+  dashboardPassword: string;
+  secretKeyBase: string;
+}
+
+type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+type YamlMap = { [key: string]: YamlValue };
+
+// Compose references to the public API URL and the auth site URL
+interface PublicUrls {
+  api: string;
+  site: string;
+}
+
+/**
+ * Resolve which components a configuration deploys.
+ * Components other enabled ones depend on are kept, with a warning.
+ */
+export function resolveComponents(config: SupabaseDeploymentConfig): { components: SupabaseComponent[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const enabled = new Set<SupabaseComponent>(['db', 'kong']);
+
+  if (config.enable_auth !== false) enabled.add('auth');
+  if (config.enable_rest !== false) enabled.add('rest');
+  if (config.enable_realtime !== false) enabled.add('realtime');
+  if (config.enable_storage !== false) {
+    enabled.add('storage');
+    enabled.add('imgproxy');
+  }
+  if (config.enable_studio !== false) {
+    enabled.add('studio');
+    enabled.add('meta');
+  }
+  if (config.enable_functions !== false) enabled.add('functions');
+
+  if (!enabled.has('rest')) {
+    if (enabled.has('storage')) {
+      warnings.push('Storage authorizes requests through PostgREST; keeping rest enabled');
+      enabled.add('rest');
+    } else if (config.enable_graphql) {
+      warnings.push('GraphQL is served through PostgREST; keeping rest enabled');
+      enabled.add('rest');
+    }
+  }
+
+  const order = Object.keys(SUPABASE_IMAGES) as SupabaseComponent[];
+  return { components: order.filter((component) => enabled.has(component)), warnings };
+}
+
+/**
+ * Generate the compose file and the environment variables it expects
+ */
+export function generateSupabaseCompose(
+  name: string,
+  config: SupabaseDeploymentConfig,
+  secrets: SupabaseComposeSecrets
+): SupabaseCompose {
+  const { components, warnings } = resolveComponents(config);
+  const has = (component: SupabaseComponent) => components.includes(component);
+  const postgresTag = resolvePostgresTag(config.postgres_version || '15');
+  // Without a custom domain the stack is served on the FQDN Coolify generates for Kong
+  const urls: PublicUrls = {
+    api: config.custom_domain ? '${API_EXTERNAL_URL}' : '${SERVICE_FQDN_KONG}',
+    site: config.custom_domain || config.environment_variables?.SITE_URL ? '${SITE_URL}' : '${SERVICE_FQDN_KONG}',
+  };
+
+  const builders: Record<SupabaseComponent, () => YamlMap> = {
+    db: () => dbService(postgresTag),
+    kong: () => kongService(config, has),
+    auth: () => authService(urls),
+    rest: restService,
+    realtime: realtimeService,
+    storage: () => storageService(has('imgproxy')),
+    imgproxy: imgproxyService,
+    meta: metaService,
+    studio: () => studioService(name, urls),
+    functions: functionsService,
+  };
+
+  const services: YamlMap = {};
+  for (const component of components) {
+    const service = builders[component]();
+    service.restart = 'unless-stopped';
+    services[component === 'realtime' ? REALTIME_HOST : component] = service;
+  }
+
+  const volumes: YamlMap = { 'supabase-db-data': null };
+  if (has('storage')) volumes['supabase-storage-data'] = null;
+
+  const env: Record<string, string> = {
+    POSTGRES_PASSWORD: secrets.postgresPassword,
+    JWT_SECRET: secrets.jwtSecret,
+    JWT_EXPIRY: '3600',
+    ANON_KEY: secrets.anonKey,
+    SERVICE_ROLE_KEY: secrets.serviceRoleKey,
+    DASHBOARD_USERNAME: 'supabase',
+    DASHBOARD_PASSWORD: secrets.dashboardPassword,
+    SECRET_KEY_BASE: secrets.secretKeyBase,
+    ...(config.custom_domain ? { SITE_URL: config.custom_domain, API_EXTERNAL_URL: config.custom_domain } : {}),
+    PGRST_DB_SCHEMAS: config.enable_graphql ? 'public,storage,graphql_public' : 'public,storage',
+    DISABLE_SIGNUP: 'false',
+    ENABLE_EMAIL_AUTOCONFIRM: 'false',
+    FUNCTIONS_VERIFY_JWT: 'false',
+    ...config.environment_variables,
+  };
+
+  return {
+    compose: toYaml({ services, volumes }),
+    env,
+    components,
+    warnings,
+  };
+}
+
+/**
+ * Recover the configuration a stack was deployed with from its Coolify service:
+ * components from the compose services, the rest from its environment
+ */
+export function deploymentConfigFromService(
+  service: CoolifyService,
+  env: Record<string, string>
+): SupabaseDeploymentConfig {
+  const compose = service.docker_compose_raw || '';
+  const names = new Set(
+    compose ? composeServiceNames(compose) : (service.services || []).map((component) => component.name)
+  );
+  const postgresTag = compose.match(/supabase\/postgres:([\w.]+)/)?.[1];
+
+  return {
+    postgres_version: postgresTag,
+    enable_auth: names.has('auth'),
+    enable_rest: names.has('rest'),
+    enable_realtime: names.has(REALTIME_HOST),
+    enable_storage: names.has('storage'),
+    enable_studio: names.has('studio'),
+    enable_functions: names.has('functions'),
+    enable_graphql: (env.PGRST_DB_SCHEMAS || '').split(',').includes('graphql_public'),
+    custom_domain: env.API_EXTERNAL_URL || undefined,
+  };
+}
+
+// Keys of the top-level services map, as written by toYaml
+function composeServiceNames(compose: string): string[] {
+  const names: string[] = [];
+  let inServices = false;
+  for (const line of compose.split('\n')) {
+    if (/^\S/.test(line)) {
+      inServices = line.trim() === 'services:';
+    } else if (inServices) {
+      const match = line.match(/^ {2}([\w.-]+):/);
+      if (match) names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+function resolvePostgresTag(version: string): string {
+  if (POSTGRES_IMAGE_TAGS[version]) {
+    return POSTGRES_IMAGE_TAGS[version];
+  }
+  // Full image tags such as 15.8.1.060 are used as given
+  if (/^\d+\.\d+\.\d+(\.\d+)?$/.test(version)) {
+    return version;
+  }
+  throw new Error(
+    `Unsupported postgres_version ${version}; use ${Object.keys(POSTGRES_IMAGE_TAGS).join(', ')} or a full supabase/postgres image tag`
+  );
+}
+
+// ==================== Services ====================
+
+function dbService(tag: string): YamlMap {
+  return {
+    image: `supabase/postgres:${tag}`,
+    healthcheck: {
+      test: ['CMD', 'pg_isready', '-U', 'postgres', '-h', 'localhost'],
+      interval: '5s',
+      timeout: '5s',
+      retries: 10,
+    },
+    command: ['postgres', '-c', 'config_file=/etc/postgresql/postgresql.conf', '-c', 'log_min_messages=fatal'],
+    environment: {
+      POSTGRES_HOST: '/var/run/postgresql',
+      PGPORT: '5432',
+      POSTGRES_PORT: '5432',
+      PGPASSWORD: '${POSTGRES_PASSWORD}',
+      POSTGRES_PASSWORD: '${POSTGRES_PASSWORD}',
+      PGDATABASE: 'postgres',
+      POSTGRES_DB: 'postgres',
+      JWT_SECRET: '${JWT_SECRET}',
+      JWT_EXP: '${JWT_EXPIRY}',
+    },
+    volumes: [
+      'supabase-db-data:/var/lib/postgresql/data',
+      initScript('realtime.sql', '/docker-entrypoint-initdb.d/migrations/99-realtime.sql', REALTIME_SQL),
+      initScript('roles.sql', '/docker-entrypoint-initdb.d/init-scripts/99-roles.sql', ROLES_SQL),
+      initScript('jwt.sql', '/docker-entrypoint-initdb.d/init-scripts/99-jwt.sql', JWT_SQL),
+    ],
+  };
+}
+
+function kongService(config: SupabaseDeploymentConfig, has: (component: SupabaseComponent) => boolean): YamlMap {
+  return {
+    image: SUPABASE_IMAGES.kong,
+    depends_on: dependsOn(['auth', 'rest', 'studio'].filter((component) => has(component as SupabaseComponent))),
+    // kong.yml is a template; the entrypoint substitutes the keys before Kong starts
+    entrypoint: 'bash -c \'eval "echo \\"$$(cat ~/temp.yml)\\"" > ~/kong.yml && /docker-entrypoint.sh kong docker-start\'',
+    environment: {
+      SERVICE_FQDN_KONG_8000: config.custom_domain || null,
+      KONG_DATABASE: 'off',
+      KONG_DECLARATIVE_CONFIG: '/home/kong/kong.yml',
+      KONG_DNS_ORDER: 'LAST,A,CNAME',
+      KONG_PLUGINS: 'request-transformer,cors,key-auth,acl,basic-auth',
+      KONG_NGINX_PROXY_PROXY_BUFFER_SIZE: '160k',
+      KONG_NGINX_PROXY_PROXY_BUFFERS: '64 160k',
+      SUPABASE_ANON_KEY: '${ANON_KEY}',
+      SUPABASE_SERVICE_KEY: '${SERVICE_ROLE_KEY}',
+      DASHBOARD_USERNAME: '${DASHBOARD_USERNAME}',
+      DASHBOARD_PASSWORD: '${DASHBOARD_PASSWORD}',
+    },
+    volumes: [
+      {
+        type: 'bind',
+        source: './volumes/api/kong.yml',
+        target: '/home/kong/temp.yml',
+        read_only: true,
+        content: toYaml(kongConfig(config, has)),
+      },
+    ],
+  };
+}
+
+function authService(urls: PublicUrls): YamlMap {
+  return {
+    image: SUPABASE_IMAGES.auth,
+    depends_on: dependsOn([]),
+    healthcheck: {
+      test: ['CMD', 'wget', '--no-verbose', '--tries=1', '--spider', 'http://localhost:9999/health'],
+      interval: '5s',
+      timeout: '5s',
+      retries: 3,
+    },
+    environment: {
+      GOTRUE_API_HOST: '0.0.0.0',
+      GOTRUE_API_PORT: '9999',
+      API_EXTERNAL_URL: urls.api,
+      GOTRUE_DB_DRIVER: 'postgres',
+      GOTRUE_DB_DATABASE_URL: 'postgres://supabase_auth_admin:${POSTGRES_PASSWORD}@db:5432/postgres',
+      GOTRUE_SITE_URL: urls.site,
+      GOTRUE_URI_ALLOW_LIST: '${ADDITIONAL_REDIRECT_URLS:-}',
+      GOTRUE_DISABLE_SIGNUP: '${DISABLE_SIGNUP}',
+      GOTRUE_JWT_ADMIN_ROLES: 'service_role',
+      GOTRUE_JWT_AUD: 'authenticated',
+      GOTRUE_JWT_DEFAULT_GROUP_NAME: 'authenticated',
+      GOTRUE_JWT_EXP: '${JWT_EXPIRY}',
+      GOTRUE_JWT_SECRET: '${JWT_SECRET}',
+      GOTRUE_EXTERNAL_EMAIL_ENABLED: 'true',
+      GOTRUE_MAILER_AUTOCONFIRM: '${ENABLE_EMAIL_AUTOCONFIRM}',
+      GOTRUE_SMTP_ADMIN_EMAIL: '${SMTP_ADMIN_EMAIL:-}',
+      GOTRUE_SMTP_HOST: '${SMTP_HOST:-}',
+      GOTRUE_SMTP_PORT: '${SMTP_PORT:-587}',
+      GOTRUE_SMTP_USER: '${SMTP_USER:-}',
+      GOTRUE_SMTP_PASS: '${SMTP_PASS:-}',
+      GOTRUE_SMTP_SENDER_NAME: '${SMTP_SENDER_NAME:-}',
+      GOTRUE_MAILER_URLPATHS_INVITE: '/auth/v1/verify',
+      GOTRUE_MAILER_URLPATHS_CONFIRMATION: '/auth/v1/verify',
+      GOTRUE_MAILER_URLPATHS_RECOVERY: '/auth/v1/verify',
+      GOTRUE_MAILER_URLPATHS_EMAIL_CHANGE: '/auth/v1/verify',
+    },
+  };
+}
+
+function restService(): YamlMap {
+  return {
+    image: SUPABASE_IMAGES.rest,
+    depends_on: dependsOn([]),
+    command: ['postgrest'],
+    environment: {
+      PGRST_DB_URI: 'postgres://authenticator:${POSTGRES_PASSWORD}@db:5432/postgres',
+      PGRST_DB_SCHEMAS: '${PGRST_DB_SCHEMAS}',
+      PGRST_DB_ANON_ROLE: 'anon',
+      PGRST_JWT_SECRET: '${JWT_SECRET}',
+      PGRST_DB_USE_LEGACY_GUCS: 'false',
+      PGRST_APP_SETTINGS_JWT_SECRET: '${JWT_SECRET}',
+      PGRST_APP_SETTINGS_JWT_EXP: '${JWT_EXPIRY}',
+    },
+  };
+}
+
+function realtimeService(): YamlMap {
+  return {
+    image: SUPABASE_IMAGES.realtime,
+    depends_on: dependsOn([]),
+    environment: {
+      PORT: '4000',
+      DB_HOST: 'db',
+      DB_PORT: '5432',
+      DB_USER: 'supabase_admin',
+      DB_PASSWORD: '${POSTGRES_PASSWORD}',
+      DB_NAME: 'postgres',
+      DB_AFTER_CONNECT_QUERY: 'SET search_path TO _realtime',
+      DB_ENC_KEY: 'supabaserealtime',
+      API_JWT_SECRET: '${JWT_SECRET}',
+      SECRET_KEY_BASE: '${SECRET_KEY_BASE}',
+      ERL_AFLAGS: '-proto_dist inet_tcp',
+      DNS_NODES: "''",
+      RLIMIT_NOFILE: '10000',
+      APP_NAME: 'realtime',
+      SEED_SELF_HOST: 'true',
+      RUN_JANITOR: 'true',
+    },
+  };
+}
+
+function storageService(imageTransformation: boolean): YamlMap {
+  return {
+    image: SUPABASE_IMAGES.storage,
+    depends_on: dependsOn(['rest', ...(imageTransformation ? ['imgproxy'] : [])]),
+    environment: {
+      ANON_KEY: '${ANON_KEY}',
+      SERVICE_KEY: '${SERVICE_ROLE_KEY}',
+      POSTGREST_URL: 'http://rest:3000',
+      PGRST_JWT_SECRET: '${JWT_SECRET}',
+      DATABASE_URL: 'postgres://supabase_storage_admin:${POSTGRES_PASSWORD}@db:5432/postgres',
+      FILE_SIZE_LIMIT: '52428800',
+      STORAGE_BACKEND: 'file',
+      FILE_STORAGE_BACKEND_PATH: '/var/lib/storage',
+      TENANT_ID: 'stub',
+      REGION: 'stub',
+      GLOBAL_S3_BUCKET: 'stub',
+      ENABLE_IMAGE_TRANSFORMATION: imageTransformation ? 'true' : 'false',
+      ...(imageTransformation && { IMGPROXY_URL: 'http://imgproxy:5001' }),
+    },
+    volumes: ['supabase-storage-data:/var/lib/storage'],
+  };
+}
+
+function imgproxyService(): YamlMap {
+  return {
+    image: SUPABASE_IMAGES.imgproxy,
+    environment: {
+      IMGPROXY_BIND: ':5001',
+      IMGPROXY_LOCAL_FILESYSTEM_ROOT: '/',
+      IMGPROXY_USE_ETAG: 'true',
+      IMGPROXY_ENABLE_WEBP_DETECTION: 'true',
+    },
+    volumes: ['supabase-storage-data:/var/lib/storage'],
+  };
+}
+
+function metaService(): YamlMap {
+  return {
+    image: SUPABASE_IMAGES.meta,
+    depends_on: dependsOn([]),
+    environment: {
+      PG_META_PORT: '8080',
+      PG_META_DB_HOST: 'db',
+      PG_META_DB_PORT: '5432',
+      PG_META_DB_NAME: 'postgres',
+      PG_META_DB_USER: 'supabase_admin',
+      PG_META_DB_PASSWORD: '${POSTGRES_PASSWORD}',
+    },
+  };
+}
+
+function studioService(name: string, urls: PublicUrls): YamlMap {
+  return {
+    image: SUPABASE_IMAGES.studio,
+    depends_on: dependsOn(['meta']),
+    environment: {
+      STUDIO_PG_META_URL: 'http://meta:8080',
+      POSTGRES_PASSWORD: '${POSTGRES_PASSWORD}',
+      DEFAULT_ORGANIZATION_NAME: 'Default Organization',
+      DEFAULT_PROJECT_NAME: name,
+      SUPABASE_URL: 'http://kong:8000',
+      SUPABASE_PUBLIC_URL: urls.api,
+      SUPABASE_ANON_KEY: '${ANON_KEY}',
+      SUPABASE_SERVICE_KEY: '${SERVICE_ROLE_KEY}',
+      AUTH_JWT_SECRET: '${JWT_SECRET}',
+      NEXT_PUBLIC_ENABLE_LOGS: 'false',
+    },
+  };
+}
+
+function functionsService(): YamlMap {
+  return {
+    image: SUPABASE_IMAGES.functions,
+    depends_on: dependsOn([]),
+    command: ['start', '--main-service', '/home/deno/functions/main'],
+    environment: {
+      JWT_SECRET: '${JWT_SECRET}',
+      SUPABASE_URL: 'http://kong:8000',
+      SUPABASE_ANON_KEY: '${ANON_KEY}',
+      SUPABASE_SERVICE_ROLE_KEY: '${SERVICE_ROLE_KEY}',
+      SUPABASE_DB_URL: 'postgresql://postgres:${POSTGRES_PASSWORD}@db:5432/postgres',
+      VERIFY_JWT: '${FUNCTIONS_VERIFY_JWT}',
+    },
+    volumes: [
+      {
+        type: 'bind',
+        source: './volumes/functions/main/index.ts',
+        target: '/home/deno/functions/main/index.ts',
+        content: FUNCTIONS_MAIN,
+      },
+    ],
+  };
+}
+
+/**
+ * Every service but the database waits for it to accept connections
+ */
+function dependsOn(services: string[]): YamlMap {
+  const dependencies: YamlMap = { db: { condition: 'service_healthy' } };
+  for (const service of services) {
+    dependencies[service] = { condition: 'service_started' };
+  }
+  return dependencies;
+}
+
+/**
+ * Coolify writes bind mounts with inline content next to the compose file
+ */
+function initScript(file: string, target: string, content: string): YamlMap {
+  return { type: 'bind', source: `./volumes/db/${file}`, target, content };
+}
+
+// ==================== Kong ====================
+
+function kongConfig(config: SupabaseDeploymentConfig, has: (component: SupabaseComponent) => boolean): YamlMap {
+  const keyAuth = (hideCredentials: boolean): YamlMap => ({ name: 'key-auth', config: { hide_credentials: hideCredentials } });
+  const acl = (...allow: string[]): YamlMap => ({ name: 'acl', config: { hide_groups_header: true, allow } });
+  const route = (name: string, path: string, url: string, plugins: YamlValue[]): YamlMap => ({
+    name,
+    url,
+    routes: [{ name: `${name}-all`, strip_path: true, paths: [path] }],
+    plugins: [{ name: 'cors' }, ...plugins],
+  });
+
+  const services: YamlMap[] = [];
+
+  if (has('auth')) {
+    services.push(
+      route('auth-v1-open', '/auth/v1/verify', 'http://auth:9999/verify', []),
+      route('auth-v1-open-callback', '/auth/v1/callback', 'http://auth:9999/callback', []),
+      route('auth-v1-open-authorize', '/auth/v1/authorize', 'http://auth:9999/authorize', []),
+      route('auth-v1', '/auth/v1/', 'http://auth:9999/', [keyAuth(false), acl('admin', 'anon')])
+    );
+  }
+  if (has('rest')) {
+    services.push(route('rest-v1', '/rest/v1/', 'http://rest:3000/', [keyAuth(true), acl('admin', 'anon')]));
+  }
+  if (has('rest') && config.enable_graphql) {
+    services.push(
+      route('graphql-v1', '/graphql/v1', 'http://rest:3000/rpc/graphql', [
+        keyAuth(true),
+        { name: 'request-transformer', config: { add: { headers: ['Content-Profile:graphql_public'] } } },
+        acl('admin', 'anon'),
+      ])
+    );
+  }
+  if (has('realtime')) {
+    services.push(
+      route('realtime-v1-ws', '/realtime/v1/', `ws://${REALTIME_HOST}:4000/socket`, [keyAuth(false), acl('admin', 'anon')]),
+      route('realtime-v1-rest', '/realtime/v1/api', `http://${REALTIME_HOST}:4000/api`, [keyAuth(false), acl('admin', 'anon')])
+    );
+  }
+  if (has('storage')) {
+    // Storage checks the JWT itself so that signed URLs work without an API key
+    services.push(route('storage-v1', '/storage/v1/', 'http://storage:5000/', []));
+  }
+  if (has('functions')) {
+    services.push(route('functions-v1', '/functions/v1/', 'http://functions:9000/', []));
+  }
+  if (has('meta')) {
+    services.push(route('meta', '/pg/', 'http://meta:8080/', [keyAuth(false), acl('admin')]));
+  }
+  if (has('studio')) {
+    services.push(route('dashboard', '/', 'http://studio:3000/', [{ name: 'basic-auth', config: { hide_credentials: true } }]));
+  }
+
+  return {
+    _format_version: '2.1',
+    _transform: true,
+    consumers: [
+      { username: 'DASHBOARD' },
+      { username: 'anon', keyauth_credentials: [{ key: '$SUPABASE_ANON_KEY' }] },
+      { username: 'service_role', keyauth_credentials: [{ key: '$SUPABASE_SERVICE_KEY' }] },
+    ],
+    acls: [
+      { consumer: 'anon', group: 'anon' },
+      { consumer: 'service_role', group: 'admin' },
+    ],
+    basicauth_credentials: [
+      { consumer: 'DASHBOARD', username: '$DASHBOARD_USERNAME', password: '$DASHBOARD_PASSWORD' },
+    ],
+    services,
+  };
+}
+
+// ==================== Init Scripts ====================
+
+const REALTIME_SQL = `create schema if not exists _realtime;
+alter schema _realtime owner to supabase_admin;
+`;
+
+const ROLES_SQL = `\\set pgpass \`echo "$POSTGRES_PASSWORD"\`
+
+ALTER USER authenticator WITH PASSWORD :'pgpass';
+ALTER USER pgbouncer WITH PASSWORD :'pgpass';
+ALTER USER supabase_auth_admin WITH PASSWORD :'pgpass';
+ALTER USER supabase_functions_admin WITH PASSWORD :'pgpass';
+ALTER USER supabase_storage_admin WITH PASSWORD :'pgpass';
+`;
+
+const JWT_SQL = `\\set jwt_secret \`echo "$JWT_SECRET"\`
+\\set jwt_exp \`echo "$JWT_EXP"\`
+
+ALTER DATABASE postgres SET "app.settings.jwt_secret" TO :'jwt_secret';
+ALTER DATABASE postgres SET "app.settings.jwt_exp" TO :'jwt_exp';
+`;
+
+// Routes /functions/v1/<name> to a worker for /home/deno/functions/<name>
+const FUNCTIONS_MAIN = `import * as jose from 'https://deno.land/x/jose@v4.14.4/index.ts'
+
+const JWT_SECRET = Deno.env.get('JWT_SECRET')
+const VERIFY_JWT = Deno.env.get('VERIFY_JWT') === 'true'
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+async function isValidJwt(req: Request): Promise<boolean> {
+  const token = (req.headers.get('authorization') || '').replace(/^Bearer /i, '')
+  if (!token) return false
+  try {
+    await jose.jwtVerify(token, new TextEncoder().encode(JWT_SECRET))
+    return true
+  } catch {
+    return false
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'OPTIONS' && VERIFY_JWT && !(await isValidJwt(req))) {
+    return json({ msg: 'Invalid JWT' }, 401)
+  }
+
+  const serviceName = new URL(req.url).pathname.split('/')[1]
+  if (!serviceName) {
+    return json({ msg: 'missing function name in request' }, 400)
+  }
+
+  try {
+    const worker = await EdgeRuntime.userWorkers.create({
+      servicePath: '/home/deno/functions/' + serviceName,
+      memoryLimitMb: 150,
+      workerTimeoutMs: 60000,
+      noModuleCache: false,
+      importMapPath: null,
+      envVars: Object.entries(Deno.env.toObject()),
+    })
+    return await worker.fetch(req)
+  } catch (error) {
+    return json({ msg: String(error) }, 500)
+  }
+})
+`;
+
+// ==================== YAML ====================
+
+/**
+ * Serialize to block-style YAML. Strings are quoted only when a plain
+ * scalar would be misread, which keeps the Kong template free of double
+ * quotes for its shell substitution.
+ */
+export function toYaml(value: YamlMap): string {
+  return emit(value, 0).join('\n') + '\n';
+}
+
+function emit(value: YamlValue, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (!isCollection(item)) {
+        return [`${pad}- ${scalar(item)}`];
+      }
+      const [first, ...rest] = emit(item, indent + 2);
+      return [`${pad}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  return Object.entries(value as YamlMap).flatMap(([key, item]) => {
+    const label = `${pad}${scalar(key)}:`;
+    if (typeof item === 'string' && item.includes('\n')) {
+      const lines = item.replace(/\n$/, '').split('\n');
+      return [`${label} |`, ...lines.map((line) => (line ? `${pad}  ${line}` : ''))];
+    }
+    if (item === null) {
+      return [label];
+    }
+    if (!isCollection(item)) {
+      return [`${label} ${scalar(item)}`];
+    }
+    if (isEmpty(item)) {
+      return [`${label} ${Array.isArray(item) ? '[]' : '{}'}`];
+    }
+    return [label, ...emit(item, indent + 2)];
+  });
+}
+
+function isCollection(value: YamlValue): value is YamlValue[] | YamlMap {
+  return typeof value === 'object' && value !== null;
+}
+
+function isEmpty(value: YamlValue[] | YamlMap): boolean {
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0;
+}
+
+function scalar(value: YamlValue): string {
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  const plain =
+    /^[\w/.$][\w/.:${}\-, *=+@]*$/.test(value) &&
+    !/^(true|false|yes|no|on|off|null|~)$/i.test(value) &&
+    !/^[-+]?(\d[\d_]*)?(\.\d*)?([eE][-+]?\d+)?$/.test(value) &&
+    !value.includes(': ') &&
+    !value.endsWith(':') &&
+    !value.endsWith(' ');
+  return plain ? value : `'${value.replace(/'/g, "''")}'`;
+}
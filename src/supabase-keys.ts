@@ -0,0 +1,150 @@
+/**
+ * Supabase API key signing and verification
+ * The anon and service_role keys are HS256 JWTs signed with the instance's JWT_SECRET
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { SupabaseKeyRole, SupabaseKeyClaims, SupabaseKeys, KeyVerification } from './types.js';
+
+export interface SignKeyOptions {
+  /**
+   * Key lifetime in days; the official self-hosting guide uses five years
+   */
+  expiresInDays?: number;
+  issuer?: string;
+  /**
+   * Issue time; defaults to now
+   */
+  issuedAt?: Date;
+}
+
+export const DEFAULT_KEY_LIFETIME_DAYS = 5 * 365;
+
+const JWT_HEADER = { alg: 'HS256', typ: 'JWT' };
+
+/**
+ * Generate a random JWT secret that is safe to place in .env files unquoted
+ */
+export function generateJwtSecret(bytes: number = 48): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Generate a database password; hex stays valid unescaped inside connection URLs
+ */
+export function generateDatabasePassword(bytes: number = 24): string {
+  return randomBytes(bytes).toString('hex');
+}
+
+/**
+ * Sign an API key for a role
+ */
+export function signSupabaseKey(role: SupabaseKeyRole, secret: string, options: SignKeyOptions = {}): string {
+  const iat = Math.floor((options.issuedAt || new Date()).getTime() / 1000);
+  const claims: SupabaseKeyClaims = {
+    role,
+    iss: options.issuer || 'supabase',
+    iat,
+    exp: iat + Math.round((options.expiresInDays ?? DEFAULT_KEY_LIFETIME_DAYS) * 86400),
+  };
+
+  const unsigned = `${encodeSegment(JWT_HEADER)}.${encodeSegment(claims)}`;
+  return `${unsigned}.${sign(unsigned, secret)}`;
+}
+
+/**
+ * Sign both the anon and service_role keys with the same claims
+ */
+export function signSupabaseKeys(secret: string, options: SignKeyOptions = {}): SupabaseKeys {
+  const issuedAt = options.issuedAt || new Date();
+  const anonKey = signSupabaseKey('anon', secret, { ...options, issuedAt });
+
+  return {
+    anon_key: anonKey,
+    service_role_key: signSupabaseKey('service_role', secret, { ...options, issuedAt }),
+    expires_at: new Date(decodeClaims(anonKey).exp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Decode a key and check its signature, expiry and, optionally, its role.
+ * Malformed keys produce a result with errors rather than throwing.
+ */
+export function verifySupabaseKey(key: string, secret: string, expectedRole?: SupabaseKeyRole): KeyVerification {
+  const errors: string[] = [];
+  const parts = key.trim().split('.');
+
+  if (parts.length !== 3) {
+    return { valid: false, signature_valid: false, errors: ['Key is not a JWT: expected three dot-separated segments'] };
+  }
+
+  let header: Record<string, unknown>;
+  let claims: SupabaseKeyClaims;
+  try {
+    header = decodeSegment(parts[0]);
+    claims = decodeSegment(parts[1]) as unknown as SupabaseKeyClaims;
+  } catch {
+    return { valid: false, signature_valid: false, errors: ['Key header or payload is not base64url-encoded JSON'] };
+  }
+
+  if (header.alg !== 'HS256') {
+    errors.push(`Unsupported algorithm ${String(header.alg)}; Supabase keys use HS256`);
+  }
+
+  const expected = Buffer.from(sign(`${parts[0]}.${parts[1]}`, secret));
+  const actual = Buffer.from(parts[2]);
+  const signatureValid = expected.length === actual.length && timingSafeEqual(expected, actual);
+  if (!signatureValid) {
+    errors.push('Signature does not match the JWT secret');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp === 'number' && claims.exp <= now) {
+    errors.push(`Key expired at ${new Date(claims.exp * 1000).toISOString()}`);
+  }
+  if (expectedRole && claims.role !== expectedRole) {
+    errors.push(`Key role is ${claims.role ?? 'missing'}, expected ${expectedRole}`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    signature_valid: signatureValid,
+    role: claims.role,
+    claims,
+    issued_at: typeof claims.iat === 'number' ? new Date(claims.iat * 1000).toISOString() : undefined,
+    expires_at: typeof claims.exp === 'number' ? new Date(claims.exp * 1000).toISOString() : undefined,
+    errors,
+  };
+}
+
+/**
+ * Expiry of a JWT without verifying it, or undefined when it has none or is malformed
+ */
+export function jwtExpiry(token: string): string | undefined {
+  try {
+    const { exp } = decodeSegment(token.split('.')[1] || '');
+    return typeof exp === 'number' ? new Date(exp * 1000).toISOString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('JWT segment is not a JSON object');
+  }
+  return value;
+}
+
+function decodeClaims(key: string): SupabaseKeyClaims {
+  return decodeSegment(key.split('.')[1]) as unknown as SupabaseKeyClaims;
+}
@@ -0,0 +1,64 @@
+/**
+ * Database advisor tools registration
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SecurityAdvisor } from '../security-advisor.js';
+import { PerformanceAdvisor, QueryOrder } from '../performance-advisor.js';
+import { filterReport } from '../advisor.js';
+import { validateInput } from '../validation.js';
+import * as schemas from '../validation.js';
+import type { LintSeverity } from '../types.js';
+
+export function registerAdvisorTools(
+  server: Server,
+  security: SecurityAdvisor,
+  performance: PerformanceAdvisor,
+  toolHandlers: Map<string, (args: any) => Promise<any>>
+) {
+  toolHandlers.set(
+    'run_security_advisor',
+    async (args: { exposed_schemas?: string[]; min_severity?: LintSeverity }) => {
+      const validated = validateInput(schemas.runSecurityAdvisorSchema, args);
+      const result = await security.run({ exposedSchemas: validated.exposed_schemas });
+      if (result.success && result.data && validated.min_severity) {
+        return { ...result, data: filterReport(result.data, validated.min_severity) };
+      }
+      return result;
+    }
+  );
+
+  toolHandlers.set(
+    'run_performance_advisor',
+    async (args: {
+      min_rows?: number;
+      seq_scan_ratio?: number;
+      dead_tuple_ratio?: number;
+      min_severity?: LintSeverity;
+    }) => {
+      const validated = validateInput(schemas.runPerformanceAdvisorSchema, args);
+      const result = await performance.run({
+        minRows: validated.min_rows,
+        seqScanRatio: validated.seq_scan_ratio,
+        deadTupleRatio: validated.dead_tuple_ratio,
+      });
+      if (result.success && result.data && validated.min_severity) {
+        return { ...result, data: filterReport(result.data, validated.min_severity) };
+      }
+      return result;
+    }
+  );
+
+  toolHandlers.set('get_top_queries', async (args: { order_by?: QueryOrder; limit?: number }) => {
+    const validated = validateInput(schemas.getTopQueriesSchema, args);
+    return await performance.getTopQueries(validated.order_by, validated.limit);
+  });
+
+  toolHandlers.set('explain_query', async (args: { sql: string; params?: unknown[]; analyze?: boolean }) => {
+    const validated = validateInput(schemas.explainQuerySchema, args);
+    return await performance.explainQuery(validated.sql, {
+      params: validated.params,
+      analyze: validated.analyze,
+    });
+  });
+}
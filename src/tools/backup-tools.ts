@@ -0,0 +1,185 @@
+/**
+ * Database backup and restore tools registration
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { DatabaseBackups } from '../database-backup.js';
+import { DatabaseDumps } from '../database-dump.js';
+import { validateInput } from '../validation.js';
+import * as schemas from '../validation.js';
+import type { ToolContext } from '../types.js';
+
+const GIGABYTE = 1024 * 1024 * 1024;
+
+export function registerBackupTools(
+  server: Server,
+  backups: DatabaseBackups,
+  dumps: DatabaseDumps,
+  toolHandlers: Map<string, (args: any, context?: ToolContext) => Promise<any>>
+) {
+  // ==================== Scheduled Backups ====================
+
+  toolHandlers.set(
+    'configure_database_backup',
+    async (args: {
+      database_uuid?: string;
+      backup_uuid?: string;
+      frequency?: string;
+      enabled?: boolean;
+      databases_to_backup?: string;
+      dump_all?: boolean;
+      keep_local_count?: number;
+      keep_local_days?: number;
+      keep_local_max_gb?: number;
+      save_s3?: boolean;
+      s3_storage_uuid?: string;
+      keep_s3_count?: number;
+      keep_s3_days?: number;
+      keep_s3_max_gb?: number;
+    }) => {
+      const validated = validateInput(schemas.configureDatabaseBackupSchema, args);
+      const toBytes = (gigabytes?: number) => (gigabytes === undefined ? undefined : Math.round(gigabytes * GIGABYTE));
+
+      return await backups.configure(
+        validated.database_uuid,
+        {
+          frequency: validated.frequency || 'daily',
+          enabled: validated.enabled ?? true,
+          databases_to_backup: validated.databases_to_backup,
+          dump_all: validated.dump_all,
+          database_backup_retention_amount_locally: validated.keep_local_count,
+          database_backup_retention_days_locally: validated.keep_local_days,
+          database_backup_retention_max_storage_locally: toBytes(validated.keep_local_max_gb),
+          save_s3: validated.save_s3 ?? false,
+          s3_storage_uuid: validated.s3_storage_uuid,
+          database_backup_retention_amount_s3: validated.keep_s3_count,
+          database_backup_retention_days_s3: validated.keep_s3_days,
+          database_backup_retention_max_storage_s3: toBytes(validated.keep_s3_max_gb),
+        },
+        validated.backup_uuid
+      );
+    }
+  );
+
+  toolHandlers.set('list_database_backups', async (args: { database_uuid?: string }) => {
+    const validated = validateInput(schemas.listDatabaseBackupsSchema, args);
+    return await backups.list(validated.database_uuid);
+  });
+
+  toolHandlers.set(
+    'trigger_database_backup',
+    async (args: { database_uuid?: string; backup_uuid?: string; wait?: boolean; timeout_seconds?: number }, context?: ToolContext) => {
+      const validated = validateInput(schemas.triggerDatabaseBackupSchema, args);
+      return await backups.trigger(validated.database_uuid, {
+        backupUuid: validated.backup_uuid,
+        wait: validated.wait,
+        timeoutSeconds: validated.timeout_seconds,
+        context,
+      });
+    }
+  );
+
+  toolHandlers.set(
+    'list_backup_executions',
+    async (args: { database_uuid?: string; backup_uuid?: string; limit?: number }) => {
+      const validated = validateInput(schemas.listBackupExecutionsSchema, args);
+      return await backups.listExecutions(validated.database_uuid, validated.backup_uuid, validated.limit);
+    }
+  );
+
+  // ==================== Restore ====================
+
+  toolHandlers.set(
+    'restore_database_backup',
+    async (args: {
+      database_uuid?: string;
+      backup_uuid?: string;
+      execution_uuid: string;
+      file_path: string;
+      target: 'same' | 'new';
+      new_database_name?: string;
+      backup_first?: boolean;
+      confirm?: boolean;
+    }, context?: ToolContext) => {
+      const validated = validateInput(schemas.restoreDatabaseBackupSchema, args);
+      return await backups.restore(validated.database_uuid, {
+        backupUuid: validated.backup_uuid,
+        executionUuid: validated.execution_uuid,
+        filePath: validated.file_path,
+        target: validated.target,
+        newDatabaseName: validated.new_database_name,
+        backupFirst: validated.backup_first,
+        context,
+      });
+    }
+  );
+
+  // ==================== Logical Dumps ====================
+
+  toolHandlers.set(
+    'dump_database',
+    async (args: {
+      output_path: string;
+      engine?: 'pg_dump' | 'supabase';
+      format?: 'custom' | 'plain';
+      schema_only?: boolean;
+      data_only?: boolean;
+      schemas?: string[];
+      exclude_schemas?: string[];
+      tables?: string[];
+      exclude_tables?: string[];
+      include_managed_schemas?: boolean;
+      overwrite?: boolean;
+      database_url?: string;
+      timeout_seconds?: number;
+    }) => {
+      const validated = validateInput(schemas.dumpDatabaseSchema, args);
+      return await dumps.dump({
+        outputPath: validated.output_path,
+        engine: validated.engine,
+        format: validated.format,
+        schemaOnly: validated.schema_only,
+        dataOnly: validated.data_only,
+        schemas: validated.schemas,
+        excludeSchemas: validated.exclude_schemas,
+        tables: validated.tables,
+        excludeTables: validated.exclude_tables,
+        includeManagedSchemas: validated.include_managed_schemas,
+        overwrite: validated.overwrite,
+        databaseUrl: validated.database_url,
+        timeoutMs: (validated.timeout_seconds || 3600) * 1000,
+      });
+    }
+  );
+
+  toolHandlers.set(
+    'restore_database',
+    async (args: {
+      file_path: string;
+      database_url?: string;
+      clean?: boolean;
+      schema_only?: boolean;
+      data_only?: boolean;
+      schemas?: string[];
+      tables?: string[];
+      single_transaction?: boolean;
+      expected_sha256?: string;
+      timeout_seconds?: number;
+      confirm?: boolean;
+    }) => {
+      const validated = validateInput(schemas.restoreDatabaseSchema, args);
+      return await dumps.restore({
+        filePath: validated.file_path,
+        databaseUrl: validated.database_url,
+        clean: validated.clean,
+        schemaOnly: validated.schema_only,
+        dataOnly: validated.data_only,
+        schemas: validated.schemas,
+        tables: validated.tables,
+        singleTransaction: validated.single_transaction ?? true,
+        expectedSha256: validated.expected_sha256,
+        timeoutMs: (validated.timeout_seconds || 3600) * 1000,
+      });
+    }
+  );
+}
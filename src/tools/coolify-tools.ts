@@ -3,13 +3,46 @@
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { CoolifyClient } from '../coolify-client.js';
+import { CoolifyClient, parseDeploymentLogs } from '../coolify-client.js';
+import { ApplicationRollback } from '../application-rollback.js';
+import { diffEnv, maskEnvVar } from '../env-diff.js';
+import { generateDatabasePassword } from '../supabase-keys.js';
+import {
+  ToolContext,
+  CreateCoolifyApplicationInput,
+  CreateCoolifyDatabaseInput,
+  CoolifyEnvVarInput,
+  CoolifyResourceTarget,
+  UpdateCoolifyDatabaseInput,
+} from '../types.js';
+import { validateInput } from '../validation.js';
+import * as schemas from '../validation.js';
+
+// Deployments in any other state have already stopped
+const CANCELLABLE_DEPLOYMENT_STATUSES = ['queued', 'in_progress'];
+
+type CreateDatabaseArgs = CoolifyResourceTarget & Partial<CreateCoolifyDatabaseInput> & { version?: string };
+
+/**
+ * Coolify matches the environment by name first, so the name is dropped when a uuid is given
+ */
+function resourceTarget(input: CoolifyResourceTarget): CoolifyResourceTarget {
+  return {
+    project_uuid: input.project_uuid,
+    server_uuid: input.server_uuid,
+    environment_name: input.environment_uuid ? undefined : input.environment_name || 'production',
+    environment_uuid: input.environment_uuid,
+    destination_uuid: input.destination_uuid,
+  };
+}
 
 export function registerCoolifyTools(
   server: Server,
   coolify: CoolifyClient,
-  toolHandlers: Map<string, (args: any) => Promise<any>>
+  toolHandlers: Map<string, (args: any, context?: ToolContext) => Promise<any>>
 ) {
+  const rollback = new ApplicationRollback(coolify);
+
   // ==================== Application Management ====================
 
   toolHandlers.set('list_coolify_applications', async () => {
@@ -21,6 +54,25 @@ export function registerCoolifyTools(
     return await coolify.getApplication(uuid);
   });
 
+  toolHandlers.set('create_coolify_application', async (args: CreateCoolifyApplicationInput) => {
+    const validated = validateInput(schemas.createCoolifyApplicationSchema, args);
+    const {
+      git_repository,
+      git_branch,
+      build_pack,
+      docker_registry_image_name,
+      docker_registry_image_tag,
+      ...common
+    } = validated;
+    return await coolify.createApplication({
+      ...common,
+      ...resourceTarget(validated),
+      ...(validated.source === 'public'
+        ? { git_repository, git_branch: git_branch || 'main', build_pack: build_pack || 'nixpacks' }
+        : { docker_registry_image_name, docker_registry_image_tag: docker_registry_image_tag || 'latest' }),
+    });
+  });
+
   toolHandlers.set(
     'update_coolify_application_env',
     async (args: { uuid: string; env: Record<string, string> }) => {
@@ -29,9 +81,9 @@ export function registerCoolifyTools(
     }
   );
 
-  toolHandlers.set('deploy_coolify_application', async (args: { uuid: string }) => {
-    const { uuid } = args;
-    return await coolify.deployApplication(uuid);
+  toolHandlers.set('deploy_coolify_application', async (args: { uuid: string; force?: boolean }) => {
+    const { uuid, force = false } = args;
+    return await coolify.deployApplication(uuid, force);
   });
 
   toolHandlers.set('start_coolify_application', async (args: { uuid: string }) => {
@@ -49,6 +101,286 @@ export function registerCoolifyTools(
     return await coolify.restartApplication(uuid);
   });
 
+  // ==================== Environment Variables ====================
+
+  toolHandlers.set(
+    'list_coolify_application_envs',
+    async (args: { uuid: string; show_secrets?: boolean }) => {
+      const validated = validateInput(schemas.listCoolifyApplicationEnvsSchema, args);
+      const result = await coolify.listApplicationEnvs(validated.uuid);
+      if (!result.success || !result.data || validated.show_secrets) {
+        return result;
+      }
+      return {
+        success: true,
+        data: result.data.map(maskEnvVar),
+      };
+    }
+  );
+
+  toolHandlers.set(
+    'create_coolify_application_env',
+    async (args: { uuid: string } & CoolifyEnvVarInput) => {
+      const { uuid, ...variable } = validateInput(schemas.coolifyApplicationEnvVarSchema, args);
+      return await coolify.createApplicationEnv(uuid, variable);
+    }
+  );
+
+  toolHandlers.set(
+    'update_coolify_application_env_var',
+    async (args: { uuid: string } & CoolifyEnvVarInput) => {
+      const { uuid, ...variable } = validateInput(schemas.coolifyApplicationEnvVarSchema, args);
+      return await coolify.updateApplicationEnvVar(uuid, variable);
+    }
+  );
+
+  toolHandlers.set(
+    'delete_coolify_application_env',
+    async (args: { uuid: string; key: string; is_preview?: boolean }) => {
+      const validated = validateInput(schemas.deleteCoolifyApplicationEnvSchema, args);
+      const current = await coolify.listApplicationEnvs(validated.uuid);
+      if (!current.success || !current.data) {
+        return current;
+      }
+      const variable = current.data.find(
+        (candidate) => candidate.key === validated.key && !!candidate.is_preview === !!validated.is_preview
+      );
+      if (!variable) {
+        return {
+          success: false,
+          error: `Environment variable ${validated.key} not found${validated.is_preview ? ' among preview variables' : ''}`,
+        };
+      }
+      return await coolify.deleteApplicationEnv(validated.uuid, variable.uuid);
+    }
+  );
+
+  toolHandlers.set(
+    'upsert_coolify_application_envs',
+    async (args: { uuid: string; variables: CoolifyEnvVarInput[]; prune?: boolean; dry_run?: boolean }) => {
+      const validated = validateInput(schemas.upsertCoolifyApplicationEnvsSchema, args);
+      const current = await coolify.listApplicationEnvs(validated.uuid);
+      if (!current.success || !current.data) {
+        return current;
+      }
+
+      const diff = diffEnv(current.data, validated.variables, validated.prune);
+      if (validated.dry_run) {
+        return {
+          success: true,
+          data: diff,
+          message: `Would add ${diff.added}, change ${diff.changed} and remove ${diff.removed} variables`,
+        };
+      }
+
+      // Only differing variables are sent, so repeating the same call is a no-op
+      const pending = new Set(
+        diff.entries
+          .filter((entry) => entry.change === 'added' || entry.change === 'changed')
+          .map((entry) => `${entry.key}:${entry.is_preview}`)
+      );
+      const upserts = validated.variables.filter((variable) => pending.has(`${variable.key}:${!!variable.is_preview}`));
+      if (upserts.length > 0) {
+        const result = await coolify.upsertApplicationEnvs(validated.uuid, upserts);
+        if (!result.success) {
+          return { ...result, data: diff };
+        }
+      }
+
+      const removals = diff.entries.filter((entry) => entry.change === 'removed');
+      for (const entry of removals) {
+        const variable = current.data.find(
+          (candidate) => candidate.key === entry.key && !!candidate.is_preview === entry.is_preview
+        );
+        const result = variable ? await coolify.deleteApplicationEnv(validated.uuid, variable.uuid) : undefined;
+        if (result && !result.success) {
+          return { ...result, data: diff };
+        }
+      }
+
+      return {
+        success: true,
+        data: diff,
+        message: upserts.length + removals.length === 0
+          ? 'Environment variables already up to date'
+          : `Added ${diff.added}, changed ${diff.changed} and removed ${diff.removed} variables; redeploy to apply them`,
+      };
+    }
+  );
+
+  toolHandlers.set(
+    'env_diff',
+    async (args: { uuid: string; variables: CoolifyEnvVarInput[]; include_removed?: boolean }) => {
+      const validated = validateInput(schemas.envDiffSchema, args);
+      const current = await coolify.listApplicationEnvs(validated.uuid);
+      if (!current.success || !current.data) {
+        return current;
+      }
+
+      const diff = diffEnv(current.data, validated.variables, validated.include_removed);
+      return {
+        success: true,
+        data: diff,
+        message: `${diff.added} added, ${diff.changed} changed, ${diff.unchanged} unchanged, ${diff.removed} removed`,
+      };
+    }
+  );
+
+  // ==================== Deployments ====================
+
+  toolHandlers.set(
+    'list_coolify_deployments',
+    async (args: { uuid: string; limit?: number; offset?: number }) => {
+      const validated = validateInput(schemas.listCoolifyDeploymentsSchema, args);
+      const result = await coolify.listApplicationDeployments(
+        validated.uuid,
+        validated.offset || 0,
+        validated.limit || 20
+      );
+      if (!result.success || !result.data) {
+        return result;
+      }
+
+      // Build logs are only returned by get_coolify_deployment
+      return {
+        success: true,
+        data: {
+          count: result.data.count,
+          deployments: result.data.deployments.map(({ logs: _logs, ...deployment }) => deployment),
+        },
+      };
+    }
+  );
+
+  toolHandlers.set('get_coolify_deployment', async (args: { uuid: string; log_lines?: number }) => {
+    const validated = validateInput(schemas.getCoolifyDeploymentSchema, args);
+    const result = await coolify.getDeployment(validated.uuid);
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    const { logs, ...deployment } = result.data;
+    const lines = parseDeploymentLogs(logs);
+    return {
+      success: true,
+      data: {
+        ...deployment,
+        log_line_count: lines.length,
+        log: lines.slice(-(validated.log_lines || 200)),
+      },
+    };
+  });
+
+  toolHandlers.set('cancel_coolify_deployment', async (args: { uuid: string }) => {
+    const validated = validateInput(schemas.cancelCoolifyDeploymentSchema, args);
+    const current = await coolify.getDeployment(validated.uuid);
+    if (!current.success || !current.data) {
+      return current;
+    }
+    if (!CANCELLABLE_DEPLOYMENT_STATUSES.includes(current.data.status)) {
+      return {
+        success: false,
+        error: `Deployment ${validated.uuid} is ${current.data.status} and can no longer be cancelled`,
+      };
+    }
+    return await coolify.cancelDeployment(validated.uuid);
+  });
+
+  toolHandlers.set(
+    'rollback_coolify_application',
+    async (args: {
+      uuid: string;
+      commit?: string;
+      image_tag?: string;
+      wait_for_ready?: boolean;
+      timeout_seconds?: number;
+      dry_run?: boolean;
+    }, context?: ToolContext) => {
+      const validated = validateInput(schemas.rollbackCoolifyApplicationSchema, args);
+      return await rollback.rollback(validated.uuid, {
+        commit: validated.commit,
+        imageTag: validated.image_tag,
+        waitForReady: validated.wait_for_ready,
+        timeoutSeconds: validated.timeout_seconds,
+        dryRun: validated.dry_run,
+        context,
+      });
+    }
+  );
+
+  // ==================== Projects & Environments ====================
+
+  toolHandlers.set('get_coolify_team', async () => {
+    return await coolify.getCurrentTeam();
+  });
+
+  toolHandlers.set('list_coolify_projects', async () => {
+    return await coolify.listProjects();
+  });
+
+  toolHandlers.set('get_coolify_project', async (args: { project_uuid: string }) => {
+    const validated = validateInput(schemas.coolifyProjectSchema, args);
+    return await coolify.getProject(validated.project_uuid);
+  });
+
+  toolHandlers.set('create_coolify_project', async (args: { name: string; description?: string }) => {
+    const validated = validateInput(schemas.createCoolifyProjectSchema, args);
+    return await coolify.createProject(validated.name, validated.description);
+  });
+
+  toolHandlers.set('list_coolify_environments', async (args: { project_uuid: string }) => {
+    const validated = validateInput(schemas.coolifyProjectSchema, args);
+    return await coolify.listEnvironments(validated.project_uuid);
+  });
+
+  toolHandlers.set('get_coolify_environment', async (args: { project_uuid: string; environment: string }) => {
+    const validated = validateInput(schemas.getCoolifyEnvironmentSchema, args);
+    return await coolify.getEnvironment(validated.project_uuid, validated.environment);
+  });
+
+  toolHandlers.set('create_coolify_environment', async (args: { project_uuid: string; name: string }) => {
+    const validated = validateInput(schemas.createCoolifyEnvironmentSchema, args);
+    return await coolify.createEnvironment(validated.project_uuid, validated.name);
+  });
+
+  // ==================== Servers ====================
+
+  toolHandlers.set('list_coolify_servers', async () => {
+    return await coolify.listServers();
+  });
+
+  toolHandlers.set('get_coolify_server', async (args: { uuid: string }) => {
+    const validated = validateInput(schemas.coolifyServerSchema, args);
+    const result = await coolify.getServer(validated.uuid);
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    const { is_reachable, is_usable, validation_logs } = result.data;
+    return {
+      success: true,
+      data: {
+        ...result.data,
+        validation: {
+          valid: !!is_reachable && !!is_usable,
+          is_reachable: !!is_reachable,
+          is_usable: !!is_usable,
+          logs: validation_logs || undefined,
+        },
+      },
+    };
+  });
+
+  toolHandlers.set('list_coolify_server_resources', async (args: { uuid: string }) => {
+    const validated = validateInput(schemas.coolifyServerSchema, args);
+    return await coolify.listServerResources(validated.uuid);
+  });
+
+  toolHandlers.set('validate_coolify_server', async (args: { uuid: string }) => {
+    const validated = validateInput(schemas.coolifyServerSchema, args);
+    return await coolify.validateServer(validated.uuid);
+  });
+
   // ==================== Service Management ====================
 
   toolHandlers.set('list_coolify_services', async () => {
@@ -81,6 +413,92 @@ export function registerCoolifyTools(
     return await coolify.getDatabase(uuid);
   });
 
+  toolHandlers.set(
+    'create_coolify_postgres_database',
+    async (args: CreateDatabaseArgs) => {
+      const { version, postgres_user, postgres_password, postgres_db, ...validated } = validateInput(
+        schemas.createCoolifyPostgresSchema,
+        args
+      );
+      const credentials = {
+        postgres_user: postgres_user || 'postgres',
+        postgres_password: postgres_password || generateDatabasePassword(),
+        postgres_db: postgres_db || 'postgres',
+      };
+
+      const result = await coolify.createDatabase('postgresql', {
+        ...validated,
+        ...resourceTarget(validated),
+        image: validated.image || `postgres:${version || '16'}-alpine`,
+        ...credentials,
+      });
+      if (!result.success || !result.data) {
+        return result;
+      }
+      return {
+        success: true,
+        data: { ...result.data, credentials },
+        message: `${result.message}. Save the credentials securely!`,
+      };
+    }
+  );
+
+  toolHandlers.set(
+    'create_coolify_redis_database',
+    async (args: CreateDatabaseArgs) => {
+      const { version, redis_password, ...validated } = validateInput(schemas.createCoolifyRedisSchema, args);
+      const credentials = {
+        redis_password: redis_password || generateDatabasePassword(),
+      };
+
+      const result = await coolify.createDatabase('redis', {
+        ...validated,
+        ...resourceTarget(validated),
+        image: validated.image || `redis:${version || '7.2'}-alpine`,
+        ...credentials,
+      });
+      if (!result.success || !result.data) {
+        return result;
+      }
+      return {
+        success: true,
+        data: { ...result.data, credentials },
+        message: `${result.message}. Save the credentials securely!`,
+      };
+    }
+  );
+
+  toolHandlers.set('update_coolify_database', async (args: { uuid: string } & UpdateCoolifyDatabaseInput) => {
+    const { uuid, ...settings } = validateInput(schemas.updateCoolifyDatabaseSchema, args);
+    const result = await coolify.updateDatabase(uuid, settings);
+    return result.success
+      ? { ...result, message: `${result.message}; restart it to apply the new settings` }
+      : result;
+  });
+
+  toolHandlers.set('start_coolify_database', async (args: { uuid: string }) => {
+    const validated = validateInput(schemas.coolifyDatabaseActionSchema, args);
+    return await coolify.startDatabase(validated.uuid);
+  });
+
+  toolHandlers.set('stop_coolify_database', async (args: { uuid: string }) => {
+    const validated = validateInput(schemas.coolifyDatabaseActionSchema, args);
+    return await coolify.stopDatabase(validated.uuid);
+  });
+
+  toolHandlers.set('restart_coolify_database', async (args: { uuid: string }) => {
+    const validated = validateInput(schemas.coolifyDatabaseActionSchema, args);
+    return await coolify.restartDatabase(validated.uuid);
+  });
+
+  toolHandlers.set(
+    'delete_coolify_database',
+    async (args: { uuid: string; delete_volumes?: boolean; confirm: true }) => {
+      const validated = validateInput(schemas.deleteCoolifyDatabaseSchema, args);
+      return await coolify.deleteDatabase(validated.uuid, validated.delete_volumes);
+    }
+  );
+
   // ==================== Logs ====================
 
   toolHandlers.set('get_coolify_logs', async (args: { uuid: string; lines?: number }) => {
@@ -5,88 +5,145 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { CoolifyClient } from '../coolify-client.js';
 import { SupabaseManager } from '../supabase-client.js';
-import { SupabaseDeploymentConfig } from '../types.js';
+import { SupabaseDeploymentConfig, ToolContext } from '../types.js';
+import { generateJwtSecret, generateDatabasePassword, signSupabaseKeys, verifySupabaseKey } from '../supabase-keys.js';
+import { generateSupabaseCompose, deploymentConfigFromService } from '../supabase-compose.js';
+import { SecretRotator } from '../secret-rotation.js';
+import { DeploymentWaiter } from '../deployment-waiter.js';
+import { envToRecord } from '../env-diff.js';
+import { validateInput } from '../validation.js';
+import * as schemas from '../validation.js';
 
 export function registerDeploymentTools(
   server: Server,
   coolify: CoolifyClient,
   supabase: SupabaseManager,
-  toolHandlers: Map<string, (args: any) => Promise<any>>
+  toolHandlers: Map<string, (args: any, context?: ToolContext) => Promise<any>>
 ) {
+  const rotator = new SecretRotator(coolify, supabase);
+  const waiter = new DeploymentWaiter(coolify);
+
   /**
    * Deploy a complete Supabase instance on Coolify
    */
   toolHandlers.set(
     'deploy_supabase_to_coolify',
-    async (args: { name: string; config?: SupabaseDeploymentConfig }) => {
-      const { name, config = {} } = args;
+    async (args: {
+      name: string;
+      config?: SupabaseDeploymentConfig;
+      project_uuid: string;
+      server_uuid: string;
+      environment_name?: string;
+      environment_uuid?: string;
+      destination_uuid?: string;
+      wait_for_ready?: boolean;
+      timeout_seconds?: number;
+    }, context?: ToolContext) => {
+      const validated = validateInput(schemas.deploySupabaseToCoolifySchema, args);
+      const { name, config = {} } = validated;
 
       try {
-        // Step 1: Create the main Supabase application
-        const appResult = await coolify.createApplication({
+        // Step 1: Generate credentials and the compose definition of the stack
+        const jwtSecret = generateJwtSecret();
+        const keys = signSupabaseKeys(jwtSecret);
+        const stack = generateSupabaseCompose(name, config, {
+          postgresPassword: generateDatabasePassword(),
+          jwtSecret,
+          anonKey: keys.anon_key,
+          serviceRoleKey: keys.service_role_key,
+          dashboardPassword: generateDatabasePassword(12),
+          secretKeyBase: generateJwtSecret(64),
+        });
+
+        // Step 2: Create the Coolify service
+        const serviceResult = await coolify.createService({
           name: `${name}-supabase`,
           description: 'Self-hosted Supabase instance',
-          build_pack: 'docker',
-          git_repository: 'https://github.com/supabase/supabase',
-          git_branch: 'master',
+          project_uuid: validated.project_uuid,
+          server_uuid: validated.server_uuid,
+          // Coolify matches the environment by name first, so the name is dropped when a uuid is given
+          environment_name: validated.environment_uuid ? undefined : validated.environment_name || 'production',
+          environment_uuid: validated.environment_uuid,
+          destination_uuid: validated.destination_uuid,
+          docker_compose: stack.compose,
         });
 
-        if (!appResult.success || !appResult.data) {
+        if (!serviceResult.success || !serviceResult.data) {
           return {
             success: false,
-            error: 'Failed to create Supabase application',
+            error: serviceResult.error || 'Failed to create Supabase service',
           };
         }
 
-        const appUuid = appResult.data.uuid;
-
-        // Step 2: Configure environment variables
-        const envVars: Record<string, string> = {
-          POSTGRES_VERSION: config.postgres_version || '15',
-          POSTGRES_PASSWORD: generateSecurePassword(),
-          JWT_SECRET: generateSecurePassword(64),
-          ANON_KEY: generateSupabaseKey('anon'),
-          SERVICE_ROLE_KEY: generateSupabaseKey('service_role'),
-          SITE_URL: config.custom_domain || process.env.SUPABASE_URL || `https://${name}.coolify.app`,
-          ENABLE_REALTIME: config.enable_realtime !== false ? 'true' : 'false',
-          ENABLE_STORAGE: config.enable_storage !== false ? 'true' : 'false',
-          ENABLE_AUTH: config.enable_auth !== false ? 'true' : 'false',
-          ENABLE_REST: config.enable_rest !== false ? 'true' : 'false',
-          ENABLE_GRAPHQL: config.enable_graphql !== false ? 'true' : 'false',
-          ...config.environment_variables,
-        };
+        const serviceUuid = serviceResult.data.uuid;
 
-        const envResult = await coolify.updateApplicationEnv(appUuid, envVars);
+        // Step 3: Configure environment variables
+        const envResult = await coolify.updateServiceEnv(serviceUuid, stack.env);
         if (!envResult.success) {
           return {
             success: false,
-            error: 'Failed to configure environment variables',
+            error: envResult.error || 'Failed to configure environment variables',
+            data: { uuid: serviceUuid },
           };
         }
 
-        // Step 3: Deploy the application
-        const deployResult = await coolify.deployApplication(appUuid);
-        if (!deployResult.success) {
+        // Step 4: Start the stack
+        const startResult = await coolify.startService(serviceUuid);
+        if (!startResult.success) {
           return {
             success: false,
-            error: 'Failed to deploy Supabase',
+            error: startResult.error || 'Failed to start Supabase',
+            data: { uuid: serviceUuid },
           };
         }
 
-        return {
-          success: true,
-          data: {
-            uuid: appUuid,
-            name,
-            status: 'deploying',
-            credentials: {
-              postgres_password: envVars.POSTGRES_PASSWORD,
-              jwt_secret: envVars.JWT_SECRET,
-              anon_key: envVars.ANON_KEY,
-              service_role_key: envVars.SERVICE_ROLE_KEY,
-            },
+        const deployment = {
+          uuid: serviceUuid,
+          name,
+          status: 'deploying',
+          components: stack.components,
+          domains: serviceResult.data.domains,
+          warnings: stack.warnings,
+          credentials: {
+            postgres_password: stack.env.POSTGRES_PASSWORD,
+            jwt_secret: stack.env.JWT_SECRET,
+            anon_key: stack.env.ANON_KEY,
+            service_role_key: stack.env.SERVICE_ROLE_KEY,
+            keys_expire_at: keys.expires_at,
+            dashboard_username: stack.env.DASHBOARD_USERNAME,
+            dashboard_password: stack.env.DASHBOARD_PASSWORD,
           },
-          message: 'Supabase deployment started successfully. Save the credentials securely!',
+        };
+
+        // Kong is served on the custom domain or on the FQDN Coolify generated for it
+        const publicUrl = config.custom_domain || serviceResult.data.domains?.[0];
+        if (!validated.wait_for_ready || !publicUrl) {
+          return {
+            success: true,
+            data: deployment,
+            message: validated.wait_for_ready
+              ? 'Supabase deployment started, but Coolify reported no domain to probe for readiness. Save the credentials securely!'
+              : 'Supabase deployment started successfully. Save the credentials securely!',
+          };
+        }
+
+        // Step 5: Wait until every component answers through the gateway
+        const readiness = await waiter.waitForService(serviceUuid, {
+          url: publicUrl,
+          serviceRoleKey: stack.env.SERVICE_ROLE_KEY,
+          dashboard: { username: stack.env.DASHBOARD_USERNAME, password: stack.env.DASHBOARD_PASSWORD },
+          components: stack.components,
+          deploymentUuid: startResult.data?.deployment_uuid,
+          timeoutSeconds: validated.timeout_seconds,
+          context,
+        });
+
+        return {
+          success: readiness.ready,
+          data: { ...deployment, status: readiness.ready ? 'ready' : 'not_ready', readiness },
+          ...(readiness.ready
+            ? { message: `Supabase is ready after ${readiness.elapsed_seconds}s. Save the credentials securely!` }
+            : { error: `Supabase did not become ready: ${readiness.error}. The service was left running for inspection` }),
         };
       } catch (error) {
         return {
@@ -98,73 +155,103 @@ export function registerDeploymentTools(
   );
 
   /**
-   * Update an existing Supabase deployment
+   * Update an existing Supabase deployment: regenerate its compose file from the
+   * deployed configuration merged with the changes, then restart the service
    */
   toolHandlers.set(
     'update_supabase_deployment',
     async (args: { uuid: string; config: Partial<SupabaseDeploymentConfig> }) => {
-      const { uuid, config } = args;
+      const validated = validateInput(schemas.updateSupabaseDeploymentSchema, args);
+      const { uuid, config } = validated;
 
       try {
-        // Get current application
-        const appResult = await coolify.getApplication(uuid);
-        if (!appResult.success || !appResult.data) {
+        const [serviceResult, envResult] = await Promise.all([coolify.getService(uuid), coolify.listServiceEnvs(uuid)]);
+        if (!serviceResult.success || !serviceResult.data) {
           return {
             success: false,
-            error: 'Application not found',
+            error: serviceResult.error || `Supabase service ${uuid} not found`,
+          };
+        }
+        if (!envResult.success || !envResult.data) {
+          return {
+            success: false,
+            error: envResult.error || `Failed to read the environment of ${uuid}`,
           };
         }
 
-        // Update environment variables
-        const currentEnv = appResult.data.environment || {};
-        const updatedEnv: Record<string, string> = {
-          ...currentEnv,
+        const currentEnv = envToRecord(envResult.data);
+        const missing = ['POSTGRES_PASSWORD', 'JWT_SECRET', 'ANON_KEY', 'SERVICE_ROLE_KEY', 'DASHBOARD_PASSWORD', 'SECRET_KEY_BASE']
+          .filter((key) => !currentEnv[key]);
+        if (missing.length > 0) {
+          return {
+            success: false,
+            error: `Service ${uuid} is not a Supabase stack deployed by this server; missing ${missing.join(', ')}`,
+          };
+        }
+
+        const merged: SupabaseDeploymentConfig = {
+          ...deploymentConfigFromService(serviceResult.data, currentEnv),
+          ...config,
         };
+        const stack = generateSupabaseCompose(serviceResult.data.name.replace(/-supabase$/, ''), merged, {
+          postgresPassword: currentEnv.POSTGRES_PASSWORD,
+          jwtSecret: currentEnv.JWT_SECRET,
+          anonKey: currentEnv.ANON_KEY,
+          serviceRoleKey: currentEnv.SERVICE_ROLE_KEY,
+          dashboardPassword: currentEnv.DASHBOARD_PASSWORD,
+          secretKeyBase: currentEnv.SECRET_KEY_BASE,
+        });
 
-        if (config.postgres_version) {
-          updatedEnv.POSTGRES_VERSION = config.postgres_version;
-        }
-        if (config.enable_realtime !== undefined) {
-          updatedEnv.ENABLE_REALTIME = config.enable_realtime ? 'true' : 'false';
-        }
-        if (config.enable_storage !== undefined) {
-          updatedEnv.ENABLE_STORAGE = config.enable_storage ? 'true' : 'false';
-        }
-        if (config.enable_auth !== undefined) {
-          updatedEnv.ENABLE_AUTH = config.enable_auth ? 'true' : 'false';
-        }
-        if (config.enable_rest !== undefined) {
-          updatedEnv.ENABLE_REST = config.enable_rest ? 'true' : 'false';
-        }
+        // Variables already set keep their value unless this update changes them
+        const envUpdates: Record<string, string> = Object.fromEntries(
+          Object.entries(stack.env).filter(([key]) => currentEnv[key] === undefined)
+        );
         if (config.enable_graphql !== undefined) {
-          updatedEnv.ENABLE_GRAPHQL = config.enable_graphql ? 'true' : 'false';
+          envUpdates.PGRST_DB_SCHEMAS = stack.env.PGRST_DB_SCHEMAS;
         }
         if (config.custom_domain) {
-          updatedEnv.SITE_URL = config.custom_domain;
-        }
-        if (config.environment_variables) {
-          Object.assign(updatedEnv, config.environment_variables);
+          envUpdates.SITE_URL = config.custom_domain;
+          envUpdates.API_EXTERNAL_URL = config.custom_domain;
         }
+        Object.assign(envUpdates, config.environment_variables);
 
-        const envResult = await coolify.updateApplicationEnv(uuid, updatedEnv);
-        if (!envResult.success) {
+        const composeResult = await coolify.updateServiceCompose(uuid, stack.compose);
+        if (!composeResult.success) {
           return {
             success: false,
-            error: 'Failed to update configuration',
+            error: composeResult.error || 'Failed to update the compose definition',
           };
         }
 
+        if (Object.keys(envUpdates).length > 0) {
+          const updateResult = await coolify.updateServiceEnv(uuid, envUpdates);
+          if (!updateResult.success) {
+            return {
+              success: false,
+              error: updateResult.error || 'Failed to update configuration',
+            };
+          }
+        }
+
         // Restart to apply changes
-        const restartResult = await coolify.restartApplication(uuid);
+        const restartResult = await coolify.restartService(uuid);
         if (!restartResult.success) {
           return {
             success: false,
-            error: 'Failed to restart application',
+            error: restartResult.error || 'Failed to restart the Supabase service',
           };
         }
 
         return {
           success: true,
+          data: {
+            uuid,
+            config: merged,
+            components: stack.components,
+            updated_env: Object.keys(envUpdates),
+            warnings: stack.warnings,
+            deployment_uuid: restartResult.data?.deployment_uuid,
+          },
           message: 'Supabase deployment updated successfully',
         };
       } catch (error) {
@@ -183,24 +270,26 @@ export function registerDeploymentTools(
     const { uuid } = args;
 
     try {
-      // Get application details
-      const appResult = await coolify.getApplication(uuid);
-      if (!appResult.success || !appResult.data) {
+      // Deployments are Coolify services; older ones were created as applications
+      const serviceResult = await coolify.getService(uuid);
+      const appResult = serviceResult.success ? undefined : await coolify.getApplication(uuid);
+      const resource = serviceResult.data || appResult?.data;
+      if (!resource) {
         return {
           success: false,
-          error: 'Application not found',
+          error: 'Deployment not found',
         };
       }
 
       // Check Supabase health
       const healthResult = await supabase.checkHealth();
-      
+
       return {
         success: true,
         data: {
-          application: appResult.data,
+          ...(serviceResult.data ? { service: serviceResult.data } : { application: appResult?.data }),
           health: healthResult.success ? healthResult.data : [],
-          status: appResult.data.status,
+          status: resource.status,
         },
       };
     } catch (error) {
@@ -210,31 +299,67 @@ export function registerDeploymentTools(
       };
     }
   });
-}
 
-/**
- * Generate a secure random password
- */
-function generateSecurePassword(length: number = 32): string {
-  const charset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*';
-  let password = '';
-  const array = new Uint8Array(length);
-  crypto.getRandomValues(array);
-  for (let i = 0; i < length; i++) {
-    password += charset[array[i] % charset.length];
-  }
-  return password;
-}
+  /**
+   * Sign anon and service_role keys with an existing JWT secret
+   */
+  toolHandlers.set(
+    'generate_supabase_keys',
+    async (args: { jwt_secret: string; expires_in_days?: number; issuer?: string }) => {
+      const validated = validateInput(schemas.generateSupabaseKeysSchema, args);
+      const keys = signSupabaseKeys(validated.jwt_secret, {
+        expiresInDays: validated.expires_in_days,
+        issuer: validated.issuer,
+      });
 
-/**
- * Generate a Supabase API key (simplified version)
- * In production, this should use proper JWT generation
- */
-function generateSupabaseKey(role: string): string {
-  // This is a simplified placeholder. In production, you should:
-  // 1. Use a proper JWT library
-  // 2. Sign with the JWT_SECRET
-  // 3. Include proper claims
-  return `eyJ${Buffer.from(role).toString('base64')}.${generateSecurePassword(32)}`;
-}
+      return {
+        success: true,
+        data: keys,
+        message: `Signed anon and service_role keys valid until ${keys.expires_at}`,
+      };
+    }
+  );
+
+  /**
+   * Decode a key and check it against a JWT secret and role
+   */
+  toolHandlers.set(
+    'verify_supabase_key',
+    async (args: { key: string; jwt_secret: string; role?: 'anon' | 'service_role' }) => {
+      const validated = validateInput(schemas.verifySupabaseKeySchema, args);
+      const verification = verifySupabaseKey(validated.key, validated.jwt_secret, validated.role);
 
+      return {
+        success: true,
+        data: verification,
+        message: verification.valid
+          ? `Key is a valid ${verification.role} key`
+          : `Key is invalid: ${verification.errors.join('; ')}`,
+      };
+    }
+  );
+
+  /**
+   * Rotate JWT_SECRET, the API keys and optionally POSTGRES_PASSWORD
+   */
+  toolHandlers.set(
+    'rotate_supabase_secrets',
+    async (args: {
+      uuid: string;
+      rotate_postgres_password?: boolean;
+      supabase_url?: string;
+      timeout_seconds?: number;
+      expires_in_days?: number;
+      dry_run?: boolean;
+    }) => {
+      const validated = validateInput(schemas.rotateSupabaseSecretsSchema, args);
+      return await rotator.rotate(validated.uuid, {
+        rotatePostgresPassword: validated.rotate_postgres_password,
+        supabaseUrl: validated.supabase_url,
+        timeoutSeconds: validated.timeout_seconds,
+        expiresInDays: validated.expires_in_days,
+        dryRun: validated.dry_run,
+      });
+    }
+  );
+}
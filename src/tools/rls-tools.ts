@@ -0,0 +1,131 @@
+/**
+ * Row Level Security tools registration
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { RLSManager } from '../rls-manager.js';
+import { StoragePolicies } from '../storage-policies.js';
+import { validateInput } from '../validation.js';
+import * as schemas from '../validation.js';
+import type { PolicyCommand } from '../types.js';
+
+export function registerRLSTools(
+  server: Server,
+  rls: RLSManager,
+  storagePolicies: StoragePolicies,
+  toolHandlers: Map<string, (args: any) => Promise<any>>
+) {
+  toolHandlers.set('list_rls_tables', async (args: { schemas?: string[] }) => {
+    const validated = validateInput(schemas.listRLSTablesSchema, args);
+    return await rls.listTables(validated.schemas);
+  });
+
+  toolHandlers.set(
+    'set_table_rls',
+    async (args: { schema?: string; table: string; enabled?: boolean; forced?: boolean }) => {
+      const validated = validateInput(schemas.setTableRLSSchema, args);
+      return await rls.setTableRLS(validated.schema || 'public', validated.table, {
+        enabled: validated.enabled,
+        forced: validated.forced,
+      });
+    }
+  );
+
+  toolHandlers.set('list_rls_policies', async (args: { schemas?: string[]; table?: string }) => {
+    const validated = validateInput(schemas.listRLSPoliciesSchema, args);
+    return await rls.listPolicies(validated.schemas, validated.table);
+  });
+
+  toolHandlers.set(
+    'create_rls_policy',
+    async (args: {
+      schema?: string;
+      table: string;
+      name: string;
+      command?: PolicyCommand;
+      permissive?: boolean;
+      roles?: string[];
+      using?: string;
+      with_check?: string;
+    }) => {
+      const validated = validateInput(schemas.createRLSPolicySchema, args);
+      return await rls.createPolicy({
+        schema: validated.schema || 'public',
+        table: validated.table,
+        name: validated.name,
+        command: validated.command,
+        permissive: validated.permissive,
+        roles: validated.roles,
+        using: validated.using,
+        withCheck: validated.with_check,
+      });
+    }
+  );
+
+  toolHandlers.set(
+    'alter_rls_policy',
+    async (args: {
+      schema?: string;
+      table: string;
+      name: string;
+      new_name?: string;
+      roles?: string[];
+      using?: string;
+      with_check?: string;
+    }) => {
+      const validated = validateInput(schemas.alterRLSPolicySchema, args);
+      return await rls.alterPolicy(validated.schema || 'public', validated.table, validated.name, {
+        newName: validated.new_name,
+        roles: validated.roles,
+        using: validated.using,
+        withCheck: validated.with_check,
+      });
+    }
+  );
+
+  toolHandlers.set('drop_rls_policy', async (args: { schema?: string; table: string; name: string }) => {
+    const validated = validateInput(schemas.dropRLSPolicySchema, args);
+    return await rls.dropPolicy(validated.schema || 'public', validated.table, validated.name);
+  });
+
+  toolHandlers.set(
+    'test_rls_policy',
+    async (args: { role: 'anon' | 'authenticated'; claims?: Record<string, unknown>; sql: string; params?: unknown[] }) => {
+      const validated = validateInput(schemas.testRLSPolicySchema, args);
+      return await rls.testPolicy({
+        role: validated.role,
+        claims: validated.claims,
+        sql: validated.sql,
+        params: validated.params,
+      });
+    }
+  );
+
+  // ==================== Storage Policies ====================
+
+  toolHandlers.set('list_storage_policies', async (args: { bucket: string }) => {
+    const validated = validateInput(schemas.listStoragePoliciesSchema, args);
+    return await storagePolicies.listBucketPolicies(validated.bucket);
+  });
+
+  toolHandlers.set(
+    'apply_storage_policy_template',
+    async (args: {
+      bucket: string;
+      template: 'owner_folder' | 'authenticated_read' | 'public_read';
+      dry_run?: boolean;
+      replace?: boolean;
+    }) => {
+      const validated = validateInput(schemas.applyStoragePolicyTemplateSchema, args);
+      return await storagePolicies.applyTemplate(validated.bucket, validated.template, {
+        dryRun: validated.dry_run,
+        replace: validated.replace,
+      });
+    }
+  );
+
+  toolHandlers.set('drop_storage_policies', async (args: { bucket: string; names: string[] }) => {
+    const validated = validateInput(schemas.dropStoragePoliciesSchema, args);
+    return await storagePolicies.dropBucketPolicies(validated.bucket, validated.names);
+  });
+}
@@ -0,0 +1,45 @@
+/**
+ * Schema introspection tools registration
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SchemaInspector, renderSchemaDDL, renderTableDDL } from '../schema-inspector.js';
+import { validateInput } from '../validation.js';
+import * as schemas from '../validation.js';
+
+export function registerSchemaTools(
+  server: Server,
+  inspector: SchemaInspector,
+  toolHandlers: Map<string, (args: any) => Promise<any>>
+) {
+  toolHandlers.set('list_schemas', async (args: { include_system?: boolean }) => {
+    const validated = validateInput(schemas.listSchemasSchema, args);
+    return await inspector.listSchemas(validated.include_system);
+  });
+
+  toolHandlers.set(
+    'inspect_schema',
+    async (args: { schema?: string; objects?: string[]; include_definitions?: boolean; format?: string }) => {
+      const validated = validateInput(schemas.inspectSchemaSchema, args);
+      const result = await inspector.inspectSchema(validated.schema, {
+        objects: validated.objects,
+        includeDefinitions: validated.include_definitions,
+      });
+
+      if (result.success && result.data && validated.format === 'ddl') {
+        return { success: true, data: renderSchemaDDL(result.data) };
+      }
+      return result;
+    }
+  );
+
+  toolHandlers.set('describe_table', async (args: { schema?: string; table: string; format?: string }) => {
+    const validated = validateInput(schemas.describeTableSchema, args);
+    const result = await inspector.describeTable(validated.table, validated.schema);
+
+    if (result.success && result.data && validated.format === 'ddl') {
+      return { success: true, data: renderTableDDL(result.data) };
+    }
+    return result;
+  });
+}
@@ -4,11 +4,16 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { SupabaseCLI } from '../supabase-cli.js';
+import { DatabaseBackups } from '../database-backup.js';
+import { validateInput } from '../validation.js';
+import * as schemas from '../validation.js';
+import type { ToolContext } from '../types.js';
 
 export function registerSupabaseCLITools(
   server: Server,
   supabaseCLI: SupabaseCLI,
-  toolHandlers: Map<string, (args: any) => Promise<any>>
+  backups: DatabaseBackups,
+  toolHandlers: Map<string, (args: any, context?: ToolContext) => Promise<any>>
 ) {
   // ==================== CLI Status & Setup ====================
 
@@ -51,9 +56,19 @@ export function registerSupabaseCLITools(
     return await supabaseCLI.dbPush();
   });
 
-  toolHandlers.set('supabase_db_reset', async () => {
-    return await supabaseCLI.dbReset();
-  });
+  toolHandlers.set(
+    'supabase_db_reset',
+    async (args: { backup_first?: boolean; backup_database_uuid?: string }, context?: ToolContext) => {
+      const validated = validateInput(schemas.supabaseDbResetSchema, args);
+      if (validated.backup_first) {
+        const backup = await backups.backupBeforeChange(validated.backup_database_uuid, 'supabase_db_reset', context);
+        if (!backup.success) {
+          return backup;
+        }
+      }
+      return await supabaseCLI.dbReset();
+    }
+  );
 
   // ==================== Migration Management ====================
 
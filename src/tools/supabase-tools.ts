@@ -4,13 +4,21 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { SupabaseManager } from '../supabase-client.js';
+import { DatabaseMonitor } from '../database-monitor.js';
+import { DatabaseBackups } from '../database-backup.js';
+import { StorageUsageReporter } from '../storage-usage.js';
+import type { ToolContext } from '../types.js';
 import { validateInput } from '../validation.js';
+import { lintMigration } from '../sql-linter.js';
 import * as schemas from '../validation.js';
 
 export function registerSupabaseTools(
   server: Server,
   supabase: SupabaseManager,
-  toolHandlers: Map<string, (args: any) => Promise<any>>
+  monitor: DatabaseMonitor,
+  backups: DatabaseBackups,
+  storageUsage: StorageUsageReporter,
+  toolHandlers: Map<string, (args: any, context?: ToolContext) => Promise<any>>
 ) {
   // ==================== Migration Tools ====================
 
@@ -18,9 +26,29 @@ export function registerSupabaseTools(
     return await supabase.listMigrations();
   });
 
-  toolHandlers.set('deploy_migration', async (args: { sql: string; name: string }) => {
-    const validated = validateInput(schemas.deployMigrationSchema, args);
-    return await supabase.deployMigration(validated.sql, validated.name);
+  toolHandlers.set(
+    'deploy_migration',
+    async (args: { sql: string; name: string; dry_run?: boolean; allow_unsafe?: boolean }) => {
+      const validated = validateInput(schemas.deployMigrationSchema, args);
+      if (validated.dry_run) {
+        return await supabase.planMigration(validated.sql, validated.name);
+      }
+      return await supabase.deployMigration(validated.sql, validated.name, {
+        allowUnsafe: validated.allow_unsafe,
+      });
+    }
+  );
+
+  toolHandlers.set('lint_migration', async (args: { sql: string; exposed_schemas?: string[] }) => {
+    const validated = validateInput(schemas.lintMigrationSchema, args);
+    const result = lintMigration(validated.sql, { exposedSchemas: validated.exposed_schemas });
+    return {
+      success: true,
+      data: result,
+      message: result.passed
+        ? `No blocking issues (${result.summary.warnings} warning(s))`
+        : `Found ${result.summary.errors} error(s) and ${result.summary.warnings} warning(s)`,
+    };
   });
 
   toolHandlers.set('execute_sql', async (args: { sql: string }) => {
@@ -70,17 +98,143 @@ export function registerSupabaseTools(
 
   toolHandlers.set(
     'create_storage_bucket',
-    async (args: { id: string; public?: boolean; file_size_limit?: number }) => {
+    async (args: { id: string; public?: boolean; file_size_limit?: number; allowed_mime_types?: string[] }) => {
       const validated = validateInput(schemas.createStorageBucketSchema, args);
-      return await supabase.createStorageBucket(validated.id, validated.public, validated.file_size_limit);
+      return await supabase.createStorageBucket(
+        validated.id,
+        validated.public,
+        validated.file_size_limit,
+        validated.allowed_mime_types
+      );
+    }
+  );
+
+  toolHandlers.set(
+    'update_storage_bucket',
+    async (args: { id: string; public?: boolean; file_size_limit?: number | null; allowed_mime_types?: string[] | null }) => {
+      const validated = validateInput(schemas.updateStorageBucketSchema, args);
+      return await supabase.updateStorageBucket(validated.id, {
+        public: validated.public,
+        fileSizeLimit: validated.file_size_limit,
+        allowedMimeTypes: validated.allowed_mime_types,
+      });
     }
   );
 
+  toolHandlers.set('empty_storage_bucket', async (args: { id: string; confirm: boolean }) => {
+    const validated = validateInput(schemas.emptyStorageBucketSchema, args);
+    return await supabase.emptyStorageBucket(validated.id);
+  });
+
   toolHandlers.set('delete_storage_bucket', async (args: { id: string }) => {
     const { id } = args;
     return await supabase.deleteStorageBucket(id);
   });
 
+  toolHandlers.set(
+    'list_storage_objects',
+    async (args: {
+      bucket: string;
+      prefix?: string;
+      search?: string;
+      limit?: number;
+      offset?: number;
+      sort_by?: 'name' | 'created_at' | 'updated_at' | 'last_accessed_at';
+      order?: 'asc' | 'desc';
+    }) => {
+      const validated = validateInput(schemas.listStorageObjectsSchema, args);
+      return await supabase.listStorageObjects(validated.bucket, {
+        prefix: validated.prefix,
+        search: validated.search,
+        limit: validated.limit,
+        offset: validated.offset,
+        sortBy: validated.sort_by,
+        order: validated.order,
+      });
+    }
+  );
+
+  toolHandlers.set(
+    'upload_storage_object',
+    async (args: {
+      bucket: string;
+      path: string;
+      file_path?: string;
+      base64?: string;
+      content_type?: string;
+      cache_control?: string;
+      upsert?: boolean;
+    }) => {
+      const validated = validateInput(schemas.uploadStorageObjectSchema, args);
+      return await supabase.uploadStorageObject(
+        validated.bucket,
+        validated.path,
+        { filePath: validated.file_path, base64: validated.base64 },
+        { contentType: validated.content_type, cacheControl: validated.cache_control, upsert: validated.upsert }
+      );
+    }
+  );
+
+  toolHandlers.set(
+    'download_storage_object',
+    async (args: { bucket: string; path: string; output_path: string; overwrite?: boolean }) => {
+      const validated = validateInput(schemas.downloadStorageObjectSchema, args);
+      return await supabase.downloadStorageObject(validated.bucket, validated.path, validated.output_path, validated.overwrite);
+    }
+  );
+
+  toolHandlers.set('get_storage_object_info', async (args: { bucket: string; path: string }) => {
+    const validated = validateInput(schemas.storageObjectSchema, args);
+    return await supabase.getStorageObjectInfo(validated.bucket, validated.path);
+  });
+
+  toolHandlers.set(
+    'move_storage_object',
+    async (args: { bucket: string; from_path: string; to_path: string; destination_bucket?: string }) => {
+      const validated = validateInput(schemas.transferStorageObjectSchema, args);
+      return await supabase.moveStorageObject(validated.bucket, validated.from_path, validated.to_path, validated.destination_bucket);
+    }
+  );
+
+  toolHandlers.set(
+    'copy_storage_object',
+    async (args: { bucket: string; from_path: string; to_path: string; destination_bucket?: string }) => {
+      const validated = validateInput(schemas.transferStorageObjectSchema, args);
+      return await supabase.copyStorageObject(validated.bucket, validated.from_path, validated.to_path, validated.destination_bucket);
+    }
+  );
+
+  toolHandlers.set('delete_storage_objects', async (args: { bucket: string; paths: string[] }) => {
+    const validated = validateInput(schemas.deleteStorageObjectsSchema, args);
+    return await supabase.deleteStorageObjects(validated.bucket, validated.paths);
+  });
+
+  toolHandlers.set(
+    'create_signed_urls',
+    async (args: { bucket: string; paths: string[]; expires_in?: number; download?: string | boolean }) => {
+      const validated = validateInput(schemas.createSignedUrlsSchema, args);
+      return await supabase.createSignedUrls(validated.bucket, validated.paths, validated.expires_in || 3600, validated.download);
+    }
+  );
+
+  toolHandlers.set('create_signed_upload_url', async (args: { bucket: string; path: string; upsert?: boolean }) => {
+    const validated = validateInput(schemas.createSignedUploadUrlSchema, args);
+    return await supabase.createSignedUploadUrl(validated.bucket, validated.path, validated.upsert);
+  });
+
+  toolHandlers.set(
+    'get_public_urls',
+    async (args: { bucket: string; paths: string[]; download?: string | boolean }) => {
+      const validated = validateInput(schemas.getPublicUrlsSchema, args);
+      return await supabase.getPublicUrls(validated.bucket, validated.paths, validated.download);
+    }
+  );
+
+  toolHandlers.set('storage_usage_report', async (args: { bucket?: string; top_prefixes?: number }) => {
+    const validated = validateInput(schemas.storageUsageReportSchema, args);
+    return await storageUsage.report({ bucket: validated.bucket, topPrefixes: validated.top_prefixes });
+  });
+
   // ==================== Auth Tools ====================
 
   toolHandlers.set('get_auth_config', async () => {
@@ -106,34 +260,154 @@ export function registerSupabaseTools(
     return await supabase.getRealtimeConfig();
   });
 
-  // ==================== Migration Rollback Tools ====================
+  toolHandlers.set(
+    'list_database_activity',
+    async (args: { include_idle?: boolean; include_system?: boolean }) => {
+      const validated = validateInput(schemas.listDatabaseActivitySchema, args);
+      return await monitor.listActivity({
+        includeIdle: validated.include_idle,
+        includeSystem: validated.include_system,
+      });
+    }
+  );
 
-  toolHandlers.set('rollback_migration', async (args: { version: string; down_sql?: string }) => {
-    const { version, down_sql } = args;
-    return await supabase.rollbackMigration(version, down_sql);
+  toolHandlers.set('get_blocking_tree', async () => {
+    return await monitor.getBlockingTree();
   });
 
-  toolHandlers.set('rollback_to_version', async (args: { version: string }) => {
-    const { version } = args;
-    return await supabase.rollbackToVersion(version);
+  toolHandlers.set('list_long_running_queries', async (args: { min_duration_seconds?: number }) => {
+    const validated = validateInput(schemas.listLongRunningQueriesSchema, args);
+    return await monitor.listLongRunning(validated.min_duration_seconds);
+  });
+
+  toolHandlers.set('get_connection_stats', async () => {
+    return await monitor.getConnectionStats();
   });
 
-  toolHandlers.set('rollback_last_migrations', async (args: { count?: number }) => {
-    const { count = 1 } = args;
-    return await supabase.rollbackLastMigrations(count);
+  toolHandlers.set('cancel_backend', async (args: { pid: number }) => {
+    const validated = validateInput(schemas.cancelBackendSchema, args);
+    return await monitor.cancelBackend(validated.pid);
   });
 
+  toolHandlers.set('terminate_backend', async (args: { pid: number; confirm: boolean }) => {
+    const validated = validateInput(schemas.terminateBackendSchema, args);
+    return await monitor.terminateBackend(validated.pid);
+  });
+
+  // ==================== Migration Rollback Tools ====================
+
+  toolHandlers.set(
+    'rollback_migration',
+    async (args: {
+      version: string;
+      down_sql?: string;
+      dry_run?: boolean;
+      backup_first?: boolean;
+      backup_database_uuid?: string;
+    }, context?: ToolContext) => {
+      const validated = validateInput(schemas.rollbackMigrationSchema, args);
+      if (validated.dry_run) {
+        return await supabase.planRollbackMigration(validated.version, validated.down_sql);
+      }
+      if (validated.backup_first) {
+        const backup = await backups.backupBeforeChange(validated.backup_database_uuid, 'rollback_migration', context);
+        if (!backup.success) {
+          return backup;
+        }
+      }
+      return await supabase.rollbackMigration(validated.version, validated.down_sql);
+    }
+  );
+
+  toolHandlers.set(
+    'rollback_to_version',
+    async (args: {
+      version: string;
+      dry_run?: boolean;
+      allow_missing_down_sql?: boolean;
+      backup_first?: boolean;
+      backup_database_uuid?: string;
+    }, context?: ToolContext) => {
+      const validated = validateInput(schemas.rollbackToVersionSchema, args);
+      if (validated.dry_run) {
+        return await supabase.planRollbackToVersion(validated.version);
+      }
+      if (validated.backup_first) {
+        const backup = await backups.backupBeforeChange(validated.backup_database_uuid, 'rollback_to_version', context);
+        if (!backup.success) {
+          return backup;
+        }
+      }
+      return await supabase.rollbackToVersion(validated.version, {
+        allowMissingDownSql: validated.allow_missing_down_sql,
+      });
+    }
+  );
+
+  toolHandlers.set(
+    'rollback_last_migrations',
+    async (args: {
+      count?: number;
+      dry_run?: boolean;
+      allow_missing_down_sql?: boolean;
+      backup_first?: boolean;
+      backup_database_uuid?: string;
+    }, context?: ToolContext) => {
+      const validated = validateInput(schemas.rollbackLastMigrationsSchema, args);
+      if (validated.dry_run) {
+        return await supabase.planRollbackLastMigrations(validated.count);
+      }
+      if (validated.backup_first) {
+        const backup = await backups.backupBeforeChange(validated.backup_database_uuid, 'rollback_last_migrations', context);
+        if (!backup.success) {
+          return backup;
+        }
+      }
+      return await supabase.rollbackLastMigrations(validated.count, {
+        allowMissingDownSql: validated.allow_missing_down_sql,
+      });
+    }
+  );
+
   toolHandlers.set(
     'create_migration_with_rollback',
-    async (args: { name: string; up_sql: string; down_sql: string }) => {
+    async (args: { name: string; up_sql: string; down_sql: string; dry_run?: boolean; allow_unsafe?: boolean }) => {
       const validated = validateInput(schemas.createMigrationWithRollbackSchema, args);
-      return await supabase.createMigrationWithRollback(validated.name, validated.up_sql, validated.down_sql);
+      if (validated.dry_run) {
+        return await supabase.planMigration(validated.up_sql, validated.name, validated.down_sql);
+      }
+      return await supabase.createMigrationWithRollback(
+        validated.name,
+        validated.up_sql,
+        validated.down_sql,
+        { allowUnsafe: validated.allow_unsafe }
+      );
     }
   );
 
-  toolHandlers.set('rollback_migration_with_down_sql', async (args: { version: string }) => {
-    const { version } = args;
-    return await supabase.rollbackMigrationWithDownSql(version);
-  });
+  toolHandlers.set(
+    'rollback_migration_with_down_sql',
+    async (args: {
+      version: string;
+      dry_run?: boolean;
+      backup_first?: boolean;
+      backup_database_uuid?: string;
+    }, context?: ToolContext) => {
+      const validated = validateInput(schemas.rollbackMigrationWithDownSqlSchema, args);
+      if (validated.dry_run) {
+        return await supabase.planRollbackMigrationWithDownSql(validated.version);
+      }
+      if (validated.backup_first) {
+        const backup = await backups.backupBeforeChange(
+          validated.backup_database_uuid,
+          'rollback_migration_with_down_sql',
+          context
+        );
+        if (!backup.success) {
+          return backup;
+        }
+      }
+      return await supabase.rollbackMigrationWithDownSql(validated.version);
+    }
+  );
 }
-
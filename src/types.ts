@@ -19,9 +19,58 @@ export interface CoolifyApplication {
   build_pack?: string;
   git_repository?: string;
   git_branch?: string;
+  // Commit to build; HEAD follows the branch
+  git_commit_sha?: string;
+  ports_exposes?: string;
+  docker_registry_image_name?: string;
+  docker_registry_image_tag?: string;
+  health_check_path?: string;
   environment?: Record<string, string>;
 }
 
+export interface CoolifyEnvVarFlags {
+  // Available while building the image, not only at runtime
+  is_build_time?: boolean;
+  // Applies to preview deployments instead of the main one
+  is_preview?: boolean;
+  // Stored verbatim, without interpolating other variables
+  is_literal?: boolean;
+  is_multiline?: boolean;
+  is_shown_once?: boolean;
+}
+
+export interface CoolifyEnvVar extends CoolifyEnvVarFlags {
+  uuid: string;
+  key: string;
+  value: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CoolifyEnvVarInput extends CoolifyEnvVarFlags {
+  key: string;
+  value: string;
+}
+
+export interface EnvDiffEntry {
+  key: string;
+  is_preview: boolean;
+  change: 'added' | 'changed' | 'unchanged' | 'removed';
+  // Secret-looking values are masked
+  current?: string;
+  desired?: string;
+  value_changed: boolean;
+  flags_changed: string[];
+}
+
+export interface EnvDiff {
+  entries: EnvDiffEntry[];
+  added: number;
+  changed: number;
+  unchanged: number;
+  removed: number;
+}
+
 export interface CoolifyDatabase {
   id: string;
   uuid: string;
@@ -33,15 +82,181 @@ export interface CoolifyDatabase {
   public_port?: number;
 }
 
+export interface CreateCoolifyDatabaseInput extends CoolifyResourceTarget {
+  name?: string;
+  description?: string;
+  image: string;
+  // Publish the database port on the server
+  is_public?: boolean;
+  public_port?: number;
+  postgres_user?: string;
+  postgres_password?: string;
+  postgres_db?: string;
+  redis_password?: string;
+  limits_memory?: string;
+  limits_cpus?: string;
+  instant_deploy?: boolean;
+}
+
+export type UpdateCoolifyDatabaseInput = Partial<
+  Omit<CreateCoolifyDatabaseInput, keyof CoolifyResourceTarget | 'instant_deploy'>
+>;
+
+export interface CoolifyBackupExecution {
+  uuid: string;
+  // running, success or failed
+  status: string;
+  message?: string | null;
+  filename?: string | null;
+  // Bytes
+  size?: number | null;
+  database_name?: string | null;
+  s3_uploaded?: boolean | null;
+  created_at?: string;
+  updated_at?: string;
+  finished_at?: string | null;
+}
+
+export interface CoolifyBackupSettings {
+  // Cron expression or one of every_minute, hourly, daily, weekly, monthly, yearly
+  frequency?: string;
+  enabled?: boolean;
+  save_s3?: boolean;
+  s3_storage_uuid?: string;
+  // Comma-separated database names; defaults to the database's own
+  databases_to_backup?: string;
+  dump_all?: boolean;
+  database_backup_retention_amount_locally?: number;
+  database_backup_retention_days_locally?: number;
+  database_backup_retention_max_storage_locally?: number;
+  database_backup_retention_amount_s3?: number;
+  database_backup_retention_days_s3?: number;
+  database_backup_retention_max_storage_s3?: number;
+  // Run a backup right away
+  backup_now?: boolean;
+}
+
+export interface CoolifyScheduledBackup extends Omit<CoolifyBackupSettings, 'backup_now' | 's3_storage_uuid'> {
+  uuid: string;
+  s3_storage_id?: number | null;
+  executions?: CoolifyBackupExecution[];
+}
+
 export interface CoolifyService {
   id: string;
   uuid: string;
   name: string;
   type: string;
   status: string;
+  // Plain YAML of the compose definition the service runs
+  docker_compose_raw?: string;
   services?: CoolifyServiceComponent[];
 }
 
+export interface CoolifyDeployment {
+  id?: number;
+  deployment_uuid: string;
+  application_id?: string;
+  application_name?: string;
+  server_name?: string;
+  // queued, in_progress, finished, failed or cancelled-by-user
+  status: string;
+  commit?: string | null;
+  commit_message?: string | null;
+  is_webhook?: boolean;
+  force_rebuild?: boolean;
+  rollback?: boolean;
+  // JSON-encoded array of build log entries
+  logs?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CoolifyTeam {
+  id: number;
+  name: string;
+  description?: string;
+}
+
+export interface CoolifyProject {
+  id?: number;
+  uuid: string;
+  name: string;
+  description?: string;
+  environments?: CoolifyEnvironment[];
+}
+
+export interface CoolifyEnvironment {
+  id?: number;
+  uuid?: string;
+  name: string;
+  description?: string;
+  project_id?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CoolifyServer {
+  id?: number;
+  uuid: string;
+  name: string;
+  description?: string;
+  ip: string;
+  port?: number;
+  user?: string;
+  // Set by the last validation: SSH works and Docker is installed
+  is_reachable?: boolean;
+  is_usable?: boolean;
+  validation_logs?: string | null;
+  proxy?: Record<string, unknown>;
+  settings?: Record<string, unknown>;
+}
+
+export interface CoolifyServerResource {
+  id?: number;
+  uuid: string;
+  name: string;
+  // application, service or one of the standalone database types
+  type: string;
+  status: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Where a new Coolify resource is created; the environment is picked by name or uuid
+ */
+export interface CoolifyResourceTarget {
+  project_uuid: string;
+  server_uuid: string;
+  environment_name?: string;
+  environment_uuid?: string;
+  // Docker network on the server, when it has more than one
+  destination_uuid?: string;
+}
+
+export interface CreateCoolifyServiceInput extends CoolifyResourceTarget {
+  name: string;
+  description?: string;
+  docker_compose: string;
+  instant_deploy?: boolean;
+}
+
+export interface CreateCoolifyApplicationInput extends CoolifyResourceTarget {
+  // public builds a public git repository, dockerimage runs a registry image
+  source: 'public' | 'dockerimage';
+  name?: string;
+  description?: string;
+  git_repository?: string;
+  git_branch?: string;
+  build_pack?: string;
+  docker_registry_image_name?: string;
+  docker_registry_image_tag?: string;
+  ports_exposes: string;
+  domains?: string;
+  instant_deploy?: boolean;
+}
+
 export interface CoolifyServiceComponent {
   name: string;
   image: string;
@@ -57,6 +272,7 @@ export interface SupabaseConfig {
   projectId?: string;
   projectRef?: string;
   functionsUrl?: string;
+  migrationsDir?: string;
 }
 
 export interface SupabaseDatabaseConfig {
@@ -67,12 +283,401 @@ export interface SupabaseDatabaseConfig {
   password: string;
 }
 
+export interface SQLColumn {
+  name: string;
+  data_type: string;
+  data_type_id: number;
+  table_id?: number;
+}
+
+export interface SQLStatementResult {
+  command: string;
+  rows: Record<string, unknown>[];
+  columns: SQLColumn[];
+  row_count: number | null;
+}
+
+export interface SQLExecutionResult extends SQLStatementResult {
+  statements?: SQLStatementResult[];
+}
+
+export interface DatabaseErrorDetails {
+  code?: string;
+  severity?: string;
+  position?: number;
+  detail?: string;
+  hint?: string;
+  where?: string;
+  schema?: string;
+  table?: string;
+  column?: string;
+  constraint?: string;
+}
+
 export interface Migration {
   version: string;
   name: string;
   executed_at?: string;
-  status: 'pending' | 'applied' | 'failed';
+  status: 'pending' | 'applied' | 'failed' | 'modified' | 'missing_on_disk';
   sql?: string;
+  checksum?: string;
+  applied_checksum?: string;
+  file_path?: string;
+  has_down_sql?: boolean;
+  lint_findings?: LintFinding[];
+}
+
+export interface MigrationFile {
+  version: string;
+  name: string;
+  path: string;
+  down_path?: string;
+  checksum: string;
+}
+
+export interface MigrationHistoryEntry {
+  version: string;
+  name?: string | null;
+  statements?: string[] | null;
+  has_down_sql?: boolean;
+}
+
+export interface RollbackStep {
+  version: string;
+  name?: string;
+  // aborted: its down SQL ran, but a later failure rolled the whole transaction back
+  status: 'rolled_back' | 'history_only' | 'failed' | 'aborted' | 'not_run';
+  error?: string;
+  error_details?: DatabaseErrorDetails;
+}
+
+export interface RollbackResult {
+  rolledBack: string[];
+  committed: boolean;
+  steps: RollbackStep[];
+}
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface LintFinding {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+  statement_index: number;
+  statement: string;
+  object?: string;
+  suggestion?: string;
+}
+
+export interface LintResult {
+  passed: boolean;
+  findings: LintFinding[];
+  summary: {
+    errors: number;
+    warnings: number;
+    info: number;
+  };
+}
+
+export interface PlannedStatement {
+  version: string;
+  phase: 'up' | 'down';
+  sql: string;
+  command?: string;
+  row_count?: number | null;
+  error?: string;
+  error_details?: DatabaseErrorDetails;
+  skipped?: boolean;
+}
+
+export interface PlannedLock {
+  object: string;
+  lock_type: string;
+  mode: string;
+}
+
+export interface MigrationPlan {
+  dry_run: true;
+  would_succeed: boolean;
+  statements: PlannedStatement[];
+  affected_objects: string[];
+  locks: PlannedLock[];
+  versions_to_apply: string[];
+  versions_to_remove: string[];
+  warnings: string[];
+  errors: string[];
+  lint_findings?: LintFinding[];
+}
+
+// Schema Introspection Types
+export interface SchemaInfo {
+  name: string;
+  owner: string;
+  table_count: number;
+  comment?: string | null;
+}
+
+export interface ColumnInfo {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default?: string | null;
+  identity?: 'always' | 'by_default';
+  generated?: string;
+  comment?: string | null;
+}
+
+export interface ConstraintInfo {
+  name: string;
+  type: 'primary_key' | 'foreign_key' | 'unique' | 'check' | 'exclusion' | 'trigger';
+  columns: string[];
+  definition: string;
+  references?: string;
+}
+
+export interface IndexInfo {
+  name: string;
+  definition: string;
+  method: string;
+  unique: boolean;
+  primary: boolean;
+  // Created implicitly by a primary key, unique or exclusion constraint
+  constraint_backed: boolean;
+  size_bytes: number;
+}
+
+export interface TriggerInfo {
+  name: string;
+  definition: string;
+  function: string;
+  enabled: boolean;
+}
+
+export interface TableInfo {
+  schema: string;
+  name: string;
+  kind: 'table' | 'partitioned_table';
+  rls_enabled: boolean;
+  rls_forced: boolean;
+  // Planner estimate; null until the table has been analyzed
+  estimated_rows: number | null;
+  total_bytes: number;
+  comment?: string | null;
+  columns: ColumnInfo[];
+  constraints: ConstraintInfo[];
+  indexes: IndexInfo[];
+  triggers: TriggerInfo[];
+}
+
+export interface ViewInfo {
+  schema: string;
+  name: string;
+  materialized: boolean;
+  options: string[];
+  comment?: string | null;
+  columns: ColumnInfo[];
+  definition: string;
+}
+
+export interface FunctionInfo {
+  schema: string;
+  name: string;
+  arguments: string;
+  returns: string | null;
+  language: string;
+  kind: 'function' | 'procedure' | 'window';
+  volatility: 'immutable' | 'stable' | 'volatile';
+  security_definer: boolean;
+  config: string[];
+  comment?: string | null;
+  definition?: string;
+}
+
+export interface EnumInfo {
+  schema: string;
+  name: string;
+  values: string[];
+}
+
+// bigint values are kept as strings to avoid precision loss
+export interface SequenceInfo {
+  schema: string;
+  name: string;
+  data_type: string;
+  start_value: string;
+  increment_by: string;
+  min_value: string;
+  max_value: string;
+  cycle: boolean;
+  last_value: string | null;
+  owned_by: string | null;
+}
+
+export interface SchemaSnapshot {
+  schema: string;
+  tables: TableInfo[];
+  views: ViewInfo[];
+  functions: FunctionInfo[];
+  enums: EnumInfo[];
+  sequences: SequenceInfo[];
+}
+
+// Row Level Security Types
+export interface RLSTableStatus {
+  schema: string;
+  table: string;
+  rls_enabled: boolean;
+  // FORCE ROW LEVEL SECURITY also applies policies to the table owner
+  rls_forced: boolean;
+  policy_count: number;
+}
+
+export type PolicyCommand = 'ALL' | 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface RLSPolicy {
+  schema: string;
+  table: string;
+  name: string;
+  permissive: boolean;
+  roles: string[];
+  command: PolicyCommand;
+  using: string | null;
+  with_check: string | null;
+}
+
+export interface PolicyTestResult {
+  role: string;
+  claims: Record<string, unknown>;
+  // false when the query was rejected with insufficient_privilege (42501)
+  allowed: boolean;
+  command?: string;
+  rows?: Record<string, unknown>[];
+  row_count?: number | null;
+  error?: string;
+  error_details?: DatabaseErrorDetails;
+  // Test queries always run in a transaction that is rolled back
+  rolled_back: true;
+}
+
+// Advisor Types
+export interface AdvisorFinding {
+  rule: string;
+  severity: LintSeverity;
+  category: 'security' | 'performance';
+  object: string;
+  message: string;
+  // SQL that fixes the finding, ready for deploy_migration
+  remediation_sql?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AdvisorReport {
+  findings: AdvisorFinding[];
+  summary: {
+    errors: number;
+    warnings: number;
+    info: number;
+  };
+  // Checks that could not run, for example for lack of privileges
+  skipped_checks: { rule: string; error: string }[];
+  generated_at: string;
+}
+
+export interface QueryStatistic {
+  query: string;
+  role: string | null;
+  calls: number;
+  total_time_ms: number;
+  mean_time_ms: number;
+  rows: number;
+  percent_of_total_time: number;
+  // Share of shared buffer reads served from cache; null when nothing was read
+  cache_hit_ratio: number | null;
+}
+
+export interface PlanNodeSummary {
+  node_type: string;
+  relation?: string;
+  index?: string;
+  // Time spent in this node itself, excluding its children, across all loops
+  exclusive_time_ms?: number;
+  total_time_ms?: number;
+  estimated_rows: number;
+  actual_rows?: number;
+  loops?: number;
+  rows_removed_by_filter?: number;
+}
+
+export interface ExplainResult {
+  analyzed: boolean;
+  // The statement ran inside a transaction that was rolled back
+  rolled_back: true;
+  planning_time_ms?: number;
+  execution_time_ms?: number;
+  total_cost: number;
+  estimated_rows: number;
+  actual_rows?: number;
+  buffers?: {
+    shared_hit: number;
+    shared_read: number;
+    hit_ratio: number | null;
+  };
+  hot_nodes: PlanNodeSummary[];
+  warnings: string[];
+  plan: unknown;
+}
+
+// Database Activity Types
+export interface DatabaseBackend {
+  pid: number;
+  database: string | null;
+  role: string | null;
+  application_name: string;
+  client_addr: string | null;
+  backend_type: string;
+  state: string | null;
+  wait_event_type: string | null;
+  wait_event: string | null;
+  // Seconds since the current query, transaction and state began
+  query_seconds: number | null;
+  transaction_seconds: number | null;
+  state_seconds: number | null;
+  query: string;
+  blocked_by: number[];
+}
+
+export interface WaitingLock {
+  locktype: string;
+  mode: string;
+  relation: string | null;
+}
+
+export interface BlockingNode {
+  backend: DatabaseBackend;
+  waiting_for: WaitingLock[];
+  blocking: BlockingNode[];
+  // Set on a root standing in for a deadlock: the pids waiting on each other
+  deadlock_cycle?: number[];
+}
+
+export interface ConnectionGroup {
+  name: string;
+  total: number;
+  active: number;
+  idle: number;
+  idle_in_transaction: number;
+  // Per-role connection limit; -1 means unlimited
+  limit?: number;
+}
+
+export interface ConnectionStats {
+  max_connections: number;
+  reserved_connections: number;
+  total: number;
+  available: number;
+  percent_used: number;
+  by_role: ConnectionGroup[];
+  by_application: ConnectionGroup[];
 }
 
 export interface EdgeFunction {
@@ -103,6 +708,107 @@ export interface StorageBucket {
   updated_at: string;
 }
 
+export interface StorageObject {
+  name: string;
+  // Path from the bucket root, prefix included
+  path: string;
+  is_folder: boolean;
+  id?: string;
+  size?: number;
+  mimetype?: string;
+  cache_control?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface StorageObjectList {
+  bucket: string;
+  prefix: string;
+  objects: StorageObject[];
+  offset: number;
+  limit: number;
+  // Another page may follow when the page came back full
+  has_more: boolean;
+}
+
+export interface StorageObjectInfo {
+  bucket: string;
+  path: string;
+  id: string;
+  version?: string;
+  size?: number;
+  content_type?: string;
+  cache_control?: string;
+  etag?: string;
+  created_at?: string;
+  last_modified?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface StorageTransfer {
+  bucket: string;
+  path: string;
+  file_path?: string;
+  size_bytes: number;
+  content_type: string;
+}
+
+export interface StorageDeleteResult {
+  bucket: string;
+  deleted: string[];
+  // Requested paths Storage did not report as deleted, usually because they did not exist
+  not_found: string[];
+}
+
+export interface StorageSignedUrl {
+  path: string;
+  signed_url?: string;
+  expires_at?: string;
+  // Set when Storage could not sign this path, e.g. because it does not exist
+  error?: string;
+}
+
+export interface StorageSignedUploadUrl {
+  bucket: string;
+  path: string;
+  signed_url: string;
+  token: string;
+  expires_at?: string;
+}
+
+export interface StorageUsage {
+  prefix: string;
+  object_count: number;
+  total_bytes: number;
+}
+
+export interface StorageBucketUsage {
+  bucket: string;
+  object_count: number;
+  total_bytes: number;
+  // Top-level prefixes in the bucket; only the largest are listed
+  prefix_count: number;
+  prefixes: StorageUsage[];
+}
+
+export interface StorageUsageReport {
+  buckets: StorageBucketUsage[];
+  total_objects: number;
+  total_bytes: number;
+}
+
+export type StoragePolicyTemplate = 'owner_folder' | 'authenticated_read' | 'public_read';
+
+export interface StoragePolicyPlan {
+  bucket: string;
+  template: StoragePolicyTemplate;
+  policies: string[];
+  // Existing policies with the same names, dropped first when replace is set
+  replaced: string[];
+  sql: string;
+  applied: boolean;
+}
+
 export interface SupabaseAuthConfig {
   site_url?: string;
   jwt_secret?: string;
@@ -137,6 +843,7 @@ export interface ToolResponse<T = unknown> {
   data?: T;
   error?: string;
   message?: string;
+  details?: DatabaseErrorDetails;
 }
 
 // Deployment Configuration
@@ -147,10 +854,189 @@ export interface SupabaseDeploymentConfig {
   enable_auth?: boolean;
   enable_rest?: boolean;
   enable_graphql?: boolean;
+  enable_studio?: boolean;
+  enable_functions?: boolean;
   custom_domain?: string;
   environment_variables?: Record<string, string>;
 }
 
+export type SupabaseComponent =
+  | 'db'
+  | 'kong'
+  | 'auth'
+  | 'rest'
+  | 'realtime'
+  | 'storage'
+  | 'imgproxy'
+  | 'meta'
+  | 'studio'
+  | 'functions';
+
+export interface SupabaseCompose {
+  compose: string;
+  // Values for the variables the compose file references
+  env: Record<string, string>;
+  components: SupabaseComponent[];
+  warnings: string[];
+}
+
+// Supabase Key Types
+export type SupabaseKeyRole = 'anon' | 'service_role';
+
+export interface SupabaseKeyClaims {
+  role: string;
+  iss: string;
+  // Seconds since the Unix epoch
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+export interface SupabaseKeys {
+  anon_key: string;
+  service_role_key: string;
+  expires_at: string;
+}
+
+export interface KeyVerification {
+  valid: boolean;
+  signature_valid: boolean;
+  role?: string;
+  claims?: SupabaseKeyClaims;
+  issued_at?: string;
+  expires_at?: string;
+  errors: string[];
+}
+
+export interface KeyCheck {
+  check: string;
+  url: string;
+  passed: boolean;
+  status?: number;
+  expected_status: number;
+  error?: string;
+}
+
+export interface SecretRotationStep {
+  step: string;
+  status: 'done' | 'failed' | 'skipped';
+  message?: string;
+}
+
+export interface RotatedCredentials {
+  jwt_secret: string;
+  anon_key: string;
+  service_role_key: string;
+  postgres_password?: string;
+  keys_expire_at?: string;
+}
+
+export interface SecretRotationResult {
+  // Environment variables that were (or would be) replaced
+  rotated: string[];
+  rolled_back: boolean;
+  steps: SecretRotationStep[];
+  verification: KeyCheck[];
+  altered_roles: string[];
+  // The new values, once applied and not rolled back
+  credentials?: RotatedCredentials;
+}
+
+// Deployment Readiness Types
+export interface EndpointProbe {
+  component: SupabaseComponent;
+  url: string;
+  healthy: boolean;
+  status?: number;
+  error?: string;
+}
+
+export interface DeploymentReadiness {
+  ready: boolean;
+  elapsed_seconds: number;
+  deployment_status?: string;
+  service_status?: string;
+  endpoints: EndpointProbe[];
+  // Last lines of the Coolify build log, or of the container output when no
+  // deployment was followed, on failure or timeout
+  log_tail?: string[];
+  error?: string;
+}
+
+export interface ApplicationReadiness {
+  ready: boolean;
+  elapsed_seconds: number;
+  deployment_status?: string;
+  // Coolify container status, e.g. running:healthy or exited:unhealthy
+  application_status?: string;
+  health_check?: {
+    url: string;
+    healthy: boolean;
+    status?: number;
+    error?: string;
+  };
+  // Last lines of the Coolify build log, on failure or timeout
+  log_tail?: string[];
+  // Last lines of the container output, on failure or timeout
+  runtime_log_tail?: string[];
+  error?: string;
+}
+
+// Application Rollback Types
+export interface ApplicationRollbackResult {
+  application_uuid: string;
+  strategy: 'commit' | 'image_tag';
+  // Commit or image tag in production before the rollback
+  from?: string;
+  to: string;
+  // Earlier deployment that built the target commit
+  source_deployment_uuid?: string;
+  deployment_uuid?: string;
+  // The application stays pinned to the target until git_commit_sha is set back to HEAD
+  pinned: boolean;
+  dry_run: boolean;
+  readiness?: ApplicationReadiness;
+}
+
+// Backup & Restore Types
+export interface BackupExecutionSummary extends CoolifyBackupExecution {
+  database_uuid: string;
+  backup_uuid: string;
+}
+
+export interface DumpRestoreResult {
+  file_path: string;
+  // custom for pg_dump archives, sql for plain (optionally gzipped) scripts
+  format: 'custom' | 'sql';
+  target_database: string;
+  created_database: boolean;
+  duration_ms: number;
+  // Warnings and errors printed by pg_restore or psql
+  output: string[];
+  pre_restore_backup?: BackupExecutionSummary;
+}
+
+export interface DumpSummary {
+  file_path: string;
+  engine: 'pg_dump' | 'supabase' | 'pg_restore' | 'psql';
+  format: 'custom' | 'plain';
+  database: string;
+  size_bytes: number;
+  sha256: string;
+  duration_ms: number;
+  excluded_schemas?: string[];
+  // Warnings printed by the client binary
+  output: string[];
+}
+
+// Tool Execution Context
+export interface ToolContext {
+  /**
+   * Send an MCP progress notification; a no-op unless the request carried a progressToken
+   */
+  reportProgress(progress: number, total?: number, message?: string): Promise<void>;
+}
+
 // Health Check Types
 export interface HealthCheck {
   service: string;
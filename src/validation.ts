@@ -8,45 +8,234 @@ import { z } from 'zod';
 // ==================== Common Schemas ====================
 
 const uuidSchema = z.string().uuid('Invalid UUID format');
+// Coolify resource ids are short cuid-style strings rather than RFC 4122 UUIDs
+const coolifyUuidSchema = z.string().regex(/^[a-zA-Z0-9-]+$/, 'Invalid Coolify UUID');
 const versionSchema = z.string().regex(/^\d{14}$/, 'Version must be 14 digits (YYYYMMDDHHMMSS)');
 const nameSchema = z.string().min(1, 'Name cannot be empty').max(100, 'Name too long');
 const sqlSchema = z.string().min(1, 'SQL cannot be empty');
 const urlSchema = z.string().url('Invalid URL format');
+// Project, environment and server a new Coolify resource is created in
+const coolifyTargetFields = {
+  project_uuid: coolifyUuidSchema,
+  server_uuid: coolifyUuidSchema,
+  environment_name: z.string().min(1).default('production'),
+  environment_uuid: coolifyUuidSchema.optional(),
+  destination_uuid: coolifyUuidSchema.optional(),
+};
 
 // ==================== Migration Schemas ====================
 
 export const deployMigrationSchema = z.object({
   sql: sqlSchema,
   name: nameSchema,
+  dry_run: z.boolean().default(false),
+  allow_unsafe: z.boolean().default(false),
 });
 
 export const createMigrationWithRollbackSchema = z.object({
   name: nameSchema,
   up_sql: sqlSchema,
   down_sql: sqlSchema,
+  dry_run: z.boolean().default(false),
+  allow_unsafe: z.boolean().default(false),
 });
 
 export const rollbackMigrationSchema = z.object({
   version: versionSchema,
   down_sql: sqlSchema.optional(),
+  dry_run: z.boolean().default(false),
+  backup_first: z.boolean().default(false),
+  backup_database_uuid: coolifyUuidSchema.optional(),
 });
 
 export const rollbackToVersionSchema = z.object({
   version: versionSchema,
+  dry_run: z.boolean().default(false),
+  allow_missing_down_sql: z.boolean().default(false),
+  backup_first: z.boolean().default(false),
+  backup_database_uuid: coolifyUuidSchema.optional(),
 });
 
 export const rollbackLastMigrationsSchema = z.object({
   count: z.number().int().min(1).max(100).default(1),
+  dry_run: z.boolean().default(false),
+  allow_missing_down_sql: z.boolean().default(false),
+  backup_first: z.boolean().default(false),
+  backup_database_uuid: coolifyUuidSchema.optional(),
+});
+
+export const rollbackMigrationWithDownSqlSchema = z.object({
+  version: versionSchema,
+  dry_run: z.boolean().default(false),
+  backup_first: z.boolean().default(false),
+  backup_database_uuid: coolifyUuidSchema.optional(),
 });
 
 export const getMigrationStatusSchema = z.object({
   version: versionSchema,
 });
 
+export const lintMigrationSchema = z.object({
+  sql: sqlSchema,
+  exposed_schemas: z.array(z.string().min(1)).optional(),
+});
+
 export const executeSQLSchema = z.object({
   sql: sqlSchema,
 });
 
+// ==================== Schema Introspection Schemas ====================
+
+const identifierSchema = z.string().min(1, 'Name cannot be empty').max(63, 'Postgres identifiers are at most 63 characters');
+const schemaFormatSchema = z.enum(['json', 'ddl']).default('json');
+
+export const listSchemasSchema = z.object({
+  include_system: z.boolean().default(false),
+});
+
+export const inspectSchemaSchema = z.object({
+  schema: identifierSchema.default('public'),
+  objects: z.array(z.enum(['tables', 'views', 'functions', 'enums', 'sequences'])).min(1).optional(),
+  include_definitions: z.boolean().default(false),
+  format: schemaFormatSchema,
+});
+
+export const describeTableSchema = z.object({
+  schema: identifierSchema.default('public'),
+  table: identifierSchema,
+  format: schemaFormatSchema,
+});
+
+// ==================== Row Level Security Schemas ====================
+
+const policyCommandSchema = z.enum(['ALL', 'SELECT', 'INSERT', 'UPDATE', 'DELETE']);
+const policyExpressionSchema = z.string().min(1, 'Expression cannot be empty');
+
+export const listRLSTablesSchema = z.object({
+  schemas: z.array(identifierSchema).min(1).default(['public']),
+});
+
+export const setTableRLSSchema = z.object({
+  schema: identifierSchema.default('public'),
+  table: identifierSchema,
+  enabled: z.boolean().optional(),
+  forced: z.boolean().optional(),
+}).refine((data) => data.enabled !== undefined || data.forced !== undefined, {
+  message: 'Provide enabled, forced or both',
+});
+
+export const listRLSPoliciesSchema = z.object({
+  schemas: z.array(identifierSchema).min(1).default(['public']),
+  table: identifierSchema.optional(),
+});
+
+export const createRLSPolicySchema = z.object({
+  schema: identifierSchema.default('public'),
+  table: identifierSchema,
+  name: identifierSchema,
+  command: policyCommandSchema.default('ALL'),
+  permissive: z.boolean().default(true),
+  roles: z.array(z.string().min(1)).min(1).default(['public']),
+  using: policyExpressionSchema.optional(),
+  with_check: policyExpressionSchema.optional(),
+}).refine((data) => data.using || data.with_check, {
+  message: 'Provide a USING expression, a WITH CHECK expression or both',
+}).refine((data) => !(data.command === 'INSERT' && data.using), {
+  message: 'INSERT policies only accept a WITH CHECK expression',
+}).refine((data) => !(['SELECT', 'DELETE'].includes(data.command) && data.with_check), {
+  message: 'SELECT and DELETE policies only accept a USING expression',
+});
+
+export const alterRLSPolicySchema = z.object({
+  schema: identifierSchema.default('public'),
+  table: identifierSchema,
+  name: identifierSchema,
+  new_name: identifierSchema.optional(),
+  roles: z.array(z.string().min(1)).min(1).optional(),
+  using: policyExpressionSchema.optional(),
+  with_check: policyExpressionSchema.optional(),
+}).refine((data) => data.new_name || data.roles || data.using || data.with_check, {
+  message: 'Provide at least one of new_name, roles, using or with_check',
+});
+
+export const dropRLSPolicySchema = z.object({
+  schema: identifierSchema.default('public'),
+  table: identifierSchema,
+  name: identifierSchema,
+});
+
+export const listStoragePoliciesSchema = z.object({
+  bucket: z.string().min(1),
+});
+
+export const applyStoragePolicyTemplateSchema = z.object({
+  bucket: z.string().min(1),
+  template: z.enum(['owner_folder', 'authenticated_read', 'public_read']),
+  dry_run: z.boolean().default(false),
+  replace: z.boolean().default(false),
+});
+
+export const dropStoragePoliciesSchema = z.object({
+  bucket: z.string().min(1),
+  names: z.array(z.string().min(1)).min(1),
+});
+
+export const testRLSPolicySchema = z.object({
+  role: z.enum(['anon', 'authenticated']),
+  claims: z.record(z.string(), z.unknown()).optional(),
+  sql: sqlSchema,
+  params: z.array(z.unknown()).optional(),
+});
+
+// ==================== Advisor Schemas ====================
+
+export const runSecurityAdvisorSchema = z.object({
+  exposed_schemas: z.array(identifierSchema).min(1).optional(),
+  min_severity: z.enum(['error', 'warning', 'info']).default('info'),
+});
+
+export const runPerformanceAdvisorSchema = z.object({
+  min_rows: z.number().int().min(0).default(10000),
+  seq_scan_ratio: z.number().min(0).max(1).default(0.5),
+  dead_tuple_ratio: z.number().min(0).max(1).default(0.2),
+  min_severity: z.enum(['error', 'warning', 'info']).default('info'),
+});
+
+export const getTopQueriesSchema = z.object({
+  order_by: z.enum(['total_time', 'mean_time', 'calls']).default('total_time'),
+  limit: z.number().int().min(1).max(100).default(20),
+});
+
+export const explainQuerySchema = z.object({
+  sql: sqlSchema,
+  params: z.array(z.unknown()).optional(),
+  analyze: z.boolean().default(true),
+});
+
+// ==================== Database Activity Schemas ====================
+
+export const listDatabaseActivitySchema = z.object({
+  include_idle: z.boolean().default(false),
+  include_system: z.boolean().default(false),
+});
+
+export const listLongRunningQueriesSchema = z.object({
+  min_duration_seconds: z.number().min(0).default(60),
+});
+
+const backendPidSchema = z.number().int().positive();
+
+export const cancelBackendSchema = z.object({
+  pid: backendPidSchema,
+});
+
+export const terminateBackendSchema = z.object({
+  pid: backendPidSchema,
+  confirm: z.literal(true, {
+    errorMap: () => ({ message: 'Terminating a backend rolls back its open transaction; set confirm to true' }),
+  }),
+});
+
 // ==================== Edge Function Schemas ====================
 
 export const deployEdgeFunctionSchema = z.object({
@@ -71,16 +260,115 @@ export const invokeEdgeFunctionSchema = z.object({
 
 // ==================== Storage Schemas ====================
 
+// MIME types such as image/png, or a wildcard subtype such as image/*
+const mimeTypeSchema = z.string().regex(/^[\w.+-]+\/(\*|[\w.+-]+)$/, 'Must be a MIME type such as image/png or image/*');
+
 export const createStorageBucketSchema = z.object({
   id: z.string().min(1).max(63).regex(/^[a-z0-9-]+$/, 'Bucket ID must be lowercase alphanumeric with hyphens'),
   public: z.boolean().default(false),
   file_size_limit: z.number().int().min(0).optional(),
+  allowed_mime_types: z.array(mimeTypeSchema).min(1).optional(),
+});
+
+export const updateStorageBucketSchema = z.object({
+  id: z.string().min(1),
+  public: z.boolean().optional(),
+  file_size_limit: z.number().int().min(0).nullable().optional(),
+  allowed_mime_types: z.array(mimeTypeSchema).min(1).nullable().optional(),
+}).refine(
+  (input) => input.public !== undefined || input.file_size_limit !== undefined || input.allowed_mime_types !== undefined,
+  { message: 'Provide at least one of public, file_size_limit or allowed_mime_types' }
+);
+
+export const emptyStorageBucketSchema = z.object({
+  id: z.string().min(1),
+  confirm: z.literal(true, {
+    errorMap: () => ({ message: 'Emptying a bucket deletes all of its objects; set confirm to true' }),
+  }),
+});
+
+export const storageUsageReportSchema = z.object({
+  bucket: z.string().min(1).optional(),
+  top_prefixes: z.number().int().min(1).max(500).default(20),
 });
 
 export const deleteStorageBucketSchema = z.object({
   id: z.string().min(1),
 });
 
+const storagePathSchema = z.string().min(1).refine((path) => !path.startsWith('/'), {
+  message: 'Object paths are relative to the bucket and must not start with /',
+});
+
+export const listStorageObjectsSchema = z.object({
+  bucket: z.string().min(1),
+  prefix: z.string().default(''),
+  search: z.string().optional(),
+  limit: z.number().int().min(1).max(1000).default(100),
+  offset: z.number().int().min(0).default(0),
+  sort_by: z.enum(['name', 'created_at', 'updated_at', 'last_accessed_at']).default('name'),
+  order: z.enum(['asc', 'desc']).default('asc'),
+});
+
+export const uploadStorageObjectSchema = z.object({
+  bucket: z.string().min(1),
+  path: storagePathSchema,
+  file_path: z.string().min(1).optional(),
+  base64: z.string().regex(/^[A-Za-z0-9+/=\s]*$/, 'Must be base64 encoded').optional(),
+  content_type: z.string().min(1).optional(),
+  cache_control: z.string().min(1).optional(),
+  upsert: z.boolean().default(false),
+}).refine((input) => (input.file_path === undefined) !== (input.base64 === undefined), {
+  message: 'Provide exactly one of file_path or base64',
+  path: ['file_path'],
+});
+
+export const downloadStorageObjectSchema = z.object({
+  bucket: z.string().min(1),
+  path: storagePathSchema,
+  output_path: z.string().min(1),
+  overwrite: z.boolean().default(false),
+});
+
+export const storageObjectSchema = z.object({
+  bucket: z.string().min(1),
+  path: storagePathSchema,
+});
+
+export const transferStorageObjectSchema = z.object({
+  bucket: z.string().min(1),
+  from_path: storagePathSchema,
+  to_path: storagePathSchema,
+  destination_bucket: z.string().min(1).optional(),
+});
+
+export const deleteStorageObjectsSchema = z.object({
+  bucket: z.string().min(1),
+  paths: z.array(storagePathSchema).min(1),
+});
+
+// Download file name, or true to download under the object's own name
+const downloadNameSchema = z.union([z.boolean(), z.string().min(1)]).optional();
+
+export const createSignedUrlsSchema = z.object({
+  bucket: z.string().min(1),
+  paths: z.array(storagePathSchema).min(1).max(1000),
+  expires_in: z.number().int().min(1).max(60 * 60 * 24 * 365).default(3600),
+  download: downloadNameSchema,
+});
+
+export const createSignedUploadUrlSchema = z.object({
+  bucket: z.string().min(1),
+  path: storagePathSchema,
+  upsert: z.boolean().default(false),
+});
+
+export const getPublicUrlsSchema = z.object({
+  bucket: z.string().min(1),
+  paths: z.array(storagePathSchema).min(1),
+  download: downloadNameSchema,
+});
+
 // ==================== Auth Schemas ====================
 
 export const updateAuthConfigSchema = z.object({
@@ -116,6 +404,276 @@ export const getCoolifyLogsSchema = z.object({
   lines: z.number().int().min(1).max(10000).default(100),
 });
 
+export const listCoolifyDeploymentsSchema = z.object({
+  uuid: coolifyUuidSchema,
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0),
+});
+
+export const getCoolifyDeploymentSchema = z.object({
+  uuid: coolifyUuidSchema,
+  log_lines: z.number().int().min(1).max(10000).default(200),
+});
+
+export const cancelCoolifyDeploymentSchema = z.object({
+  uuid: coolifyUuidSchema,
+});
+
+export const createCoolifyApplicationSchema = z.object({
+  ...coolifyTargetFields,
+  source: z.enum(['public', 'dockerimage']),
+  name: nameSchema.optional(),
+  description: z.string().max(500).optional(),
+  git_repository: urlSchema.optional(),
+  git_branch: z.string().min(1).default('main'),
+  build_pack: z.enum(['nixpacks', 'static', 'dockerfile', 'dockercompose']).default('nixpacks'),
+  docker_registry_image_name: z.string().min(1).optional(),
+  docker_registry_image_tag: z.string().min(1).default('latest'),
+  ports_exposes: z.string().regex(/^\d+(,\d+)*$/, 'Ports must be comma-separated numbers'),
+  domains: z.string().optional(),
+  instant_deploy: z.boolean().default(false),
+}).refine(
+  (input) => (input.source === 'public' ? !!input.git_repository : !!input.docker_registry_image_name),
+  { message: 'public applications need git_repository; dockerimage applications need docker_registry_image_name' }
+);
+
+const envKeySchema = z.string().min(1).max(255).regex(/^[A-Za-z_][A-Za-z0-9_.-]*$/, 'Invalid environment variable name');
+
+const envVarFlagFields = {
+  is_build_time: z.boolean().optional(),
+  is_preview: z.boolean().optional(),
+  is_literal: z.boolean().optional(),
+  is_multiline: z.boolean().optional(),
+  is_shown_once: z.boolean().optional(),
+};
+
+const envVarSchema = z.object({
+  key: envKeySchema,
+  value: z.string(),
+  ...envVarFlagFields,
+});
+
+// Coolify keeps a main and a preview variable per key
+const envVarListSchema = z.array(envVarSchema).min(1).max(500).refine(
+  (variables) => new Set(variables.map((variable) => `${variable.key}:${!!variable.is_preview}`)).size === variables.length,
+  { message: 'Each key may appear once per preview flag' }
+);
+
+export const listCoolifyApplicationEnvsSchema = z.object({
+  uuid: coolifyUuidSchema,
+  show_secrets: z.boolean().default(false),
+});
+
+export const coolifyApplicationEnvVarSchema = z.object({
+  uuid: coolifyUuidSchema,
+  ...envVarSchema.shape,
+});
+
+export const deleteCoolifyApplicationEnvSchema = z.object({
+  uuid: coolifyUuidSchema,
+  key: envKeySchema,
+  is_preview: z.boolean().default(false),
+});
+
+export const upsertCoolifyApplicationEnvsSchema = z.object({
+  uuid: coolifyUuidSchema,
+  variables: envVarListSchema,
+  prune: z.boolean().default(false),
+  dry_run: z.boolean().default(false),
+});
+
+export const envDiffSchema = z.object({
+  uuid: coolifyUuidSchema,
+  variables: envVarListSchema,
+  include_removed: z.boolean().default(false),
+});
+
+const databaseSettingFields = {
+  name: nameSchema.optional(),
+  description: z.string().max(500).optional(),
+  image: z.string().min(1).optional(),
+  is_public: z.boolean().optional(),
+  public_port: z.number().int().min(1024).max(65535).optional(),
+  limits_memory: z.string().regex(/^\d+[bkmg]?$/i, 'Memory limit like 512m or 2g').optional(),
+  limits_cpus: z.string().regex(/^\d+(\.\d+)?$/, 'CPU limit like 0.5 or 2').optional(),
+};
+
+const publicPortRequired = {
+  check: (input: { is_public?: boolean; public_port?: number }) => !input.is_public || input.public_port !== undefined,
+  message: { message: 'public_port is required when is_public is true', path: ['public_port'] },
+};
+
+export const createCoolifyPostgresSchema = z.object({
+  ...coolifyTargetFields,
+  ...databaseSettingFields,
+  version: z.string().regex(/^\d+(\.\d+)*$/, 'Version like 16 or 15.6').default('16'),
+  postgres_user: z.string().regex(/^[a-z_][a-z0-9_]{0,62}$/, 'Invalid Postgres user name').default('postgres'),
+  postgres_password: z.string().min(12, 'Password must be at least 12 characters').optional(),
+  postgres_db: z.string().regex(/^[a-z_][a-z0-9_]{0,62}$/, 'Invalid database name').default('postgres'),
+  instant_deploy: z.boolean().default(false),
+}).refine(publicPortRequired.check, publicPortRequired.message);
+
+export const createCoolifyRedisSchema = z.object({
+  ...coolifyTargetFields,
+  ...databaseSettingFields,
+  version: z.string().regex(/^\d+(\.\d+)*$/, 'Version like 7 or 7.2').default('7.2'),
+  redis_password: z.string().min(12, 'Password must be at least 12 characters').optional(),
+  instant_deploy: z.boolean().default(false),
+}).refine(publicPortRequired.check, publicPortRequired.message);
+
+export const updateCoolifyDatabaseSchema = z.object({
+  uuid: coolifyUuidSchema,
+  ...databaseSettingFields,
+}).refine(
+  ({ uuid: _uuid, ...settings }) => Object.values(settings).some((value) => value !== undefined),
+  { message: 'Provide at least one setting to update' }
+).refine(publicPortRequired.check, publicPortRequired.message);
+
+export const coolifyDatabaseActionSchema = z.object({
+  uuid: coolifyUuidSchema,
+});
+
+export const deleteCoolifyDatabaseSchema = z.object({
+  uuid: coolifyUuidSchema,
+  delete_volumes: z.boolean().default(false),
+  confirm: z.literal(true, {
+    errorMap: () => ({ message: 'Deleting a database removes its container; set confirm to true' }),
+  }),
+});
+
+export const createCoolifyProjectSchema = z.object({
+  name: nameSchema,
+  description: z.string().max(500).optional(),
+});
+
+export const coolifyProjectSchema = z.object({
+  project_uuid: coolifyUuidSchema,
+});
+
+export const getCoolifyEnvironmentSchema = z.object({
+  project_uuid: coolifyUuidSchema,
+  environment: z.string().min(1),
+});
+
+export const createCoolifyEnvironmentSchema = z.object({
+  project_uuid: coolifyUuidSchema,
+  name: z.string().min(1).max(100).regex(/^[a-zA-Z0-9_-]+$/, 'Environment names use letters, digits, hyphens and underscores'),
+});
+
+export const coolifyServerSchema = z.object({
+  uuid: coolifyUuidSchema,
+});
+
+export const rollbackCoolifyApplicationSchema = z.object({
+  uuid: coolifyUuidSchema,
+  commit: z.string().regex(/^[0-9a-f]{7,40}$/i, 'Commit must be a 7-40 character hex SHA').optional(),
+  image_tag: z.string().min(1).max(128).optional(),
+  wait_for_ready: z.boolean().default(true),
+  timeout_seconds: z.number().int().min(30).max(3600).default(600),
+  dry_run: z.boolean().default(false),
+});
+
+// ==================== Backup Schemas ====================
+
+const retentionCountSchema = z.number().int().min(0).max(1000);
+
+export const configureDatabaseBackupSchema = z.object({
+  database_uuid: coolifyUuidSchema.optional(),
+  backup_uuid: coolifyUuidSchema.optional(),
+  frequency: z.string().min(1).default('daily'),
+  enabled: z.boolean().default(true),
+  databases_to_backup: z.string().min(1).optional(),
+  dump_all: z.boolean().optional(),
+  keep_local_count: retentionCountSchema.optional(),
+  keep_local_days: retentionCountSchema.optional(),
+  keep_local_max_gb: z.number().min(0).optional(),
+  save_s3: z.boolean().default(false),
+  s3_storage_uuid: coolifyUuidSchema.optional(),
+  keep_s3_count: retentionCountSchema.optional(),
+  keep_s3_days: retentionCountSchema.optional(),
+  keep_s3_max_gb: z.number().min(0).optional(),
+}).refine((input) => !input.save_s3 || !!input.s3_storage_uuid, {
+  message: 's3_storage_uuid is required when save_s3 is true',
+  path: ['s3_storage_uuid'],
+});
+
+export const listDatabaseBackupsSchema = z.object({
+  database_uuid: coolifyUuidSchema.optional(),
+});
+
+export const triggerDatabaseBackupSchema = z.object({
+  database_uuid: coolifyUuidSchema.optional(),
+  backup_uuid: coolifyUuidSchema.optional(),
+  wait: z.boolean().default(true),
+  timeout_seconds: z.number().int().min(30).max(7200).default(900),
+});
+
+export const listBackupExecutionsSchema = z.object({
+  database_uuid: coolifyUuidSchema.optional(),
+  backup_uuid: coolifyUuidSchema.optional(),
+  limit: z.number().int().min(1).max(200).default(20),
+});
+
+export const restoreDatabaseBackupSchema = z.object({
+  database_uuid: coolifyUuidSchema.optional(),
+  backup_uuid: coolifyUuidSchema.optional(),
+  execution_uuid: coolifyUuidSchema,
+  file_path: z.string().min(1),
+  target: z.enum(['same', 'new']),
+  new_database_name: z.string().regex(/^[a-z_][a-z0-9_]{0,62}$/, 'Invalid database name').optional(),
+  backup_first: z.boolean().default(true),
+  confirm: z.boolean().default(false),
+}).refine((input) => input.target !== 'new' || !!input.new_database_name, {
+  message: 'new_database_name is required when target is new',
+  path: ['new_database_name'],
+}).refine((input) => input.target !== 'same' || input.confirm, {
+  message: 'Restoring over the current database replaces its data; set confirm to true',
+  path: ['confirm'],
+});
+
+const databaseUrlSchema = z.string().regex(/^postgres(ql)?:\/\//, 'Must be a postgres:// or postgresql:// URL');
+// pg_dump patterns: names, schema-qualified names and * wildcards
+const dumpPatternListSchema = z.array(z.string().min(1)).optional();
+
+export const dumpDatabaseSchema = z.object({
+  output_path: z.string().min(1),
+  engine: z.enum(['pg_dump', 'supabase']).default('pg_dump'),
+  format: z.enum(['custom', 'plain']).default('custom'),
+  schema_only: z.boolean().default(false),
+  data_only: z.boolean().default(false),
+  schemas: dumpPatternListSchema,
+  exclude_schemas: dumpPatternListSchema,
+  tables: dumpPatternListSchema,
+  exclude_tables: dumpPatternListSchema,
+  include_managed_schemas: z.boolean().default(false),
+  overwrite: z.boolean().default(false),
+  database_url: databaseUrlSchema.optional(),
+  timeout_seconds: z.number().int().min(30).max(14400).default(3600),
+}).refine((input) => !(input.schema_only && input.data_only), {
+  message: 'schema_only and data_only cannot both be set',
+  path: ['data_only'],
+});
+
+export const restoreDatabaseSchema = z.object({
+  file_path: z.string().min(1),
+  database_url: databaseUrlSchema.optional(),
+  clean: z.boolean().default(false),
+  schema_only: z.boolean().default(false),
+  data_only: z.boolean().default(false),
+  schemas: dumpPatternListSchema,
+  tables: dumpPatternListSchema,
+  single_transaction: z.boolean().default(true),
+  expected_sha256: z.string().regex(/^[a-fA-F0-9]{64}$/, 'Must be a hex SHA-256 checksum').optional(),
+  timeout_seconds: z.number().int().min(30).max(14400).default(3600),
+  confirm: z.boolean().default(false),
+}).refine((input) => !(input.schema_only && input.data_only), {
+  message: 'schema_only and data_only cannot both be set',
+  path: ['data_only'],
+}).refine((input) => input.confirm, {
+  message: 'Restoring writes into the target database; set confirm to true',
+  path: ['confirm'],
+});
+
 // ==================== Supabase CLI Schemas ====================
 
 export const supabaseInitSchema = z.object({
@@ -143,6 +701,11 @@ export const supabaseGenTypesSchema = z.object({
   output: z.string().default('types/supabase.ts'),
 });
 
+export const supabaseDbResetSchema = z.object({
+  backup_first: z.boolean().default(false),
+  backup_database_uuid: coolifyUuidSchema.optional(),
+});
+
 export const supabaseCLIExecuteSchema = z.object({
   command: z.string().min(1),
 });
@@ -158,13 +721,18 @@ export const deploySupabaseToCoolifySchema = z.object({
     enable_auth: z.boolean().default(true),
     enable_rest: z.boolean().default(true),
     enable_graphql: z.boolean().default(false),
+    enable_studio: z.boolean().default(true),
+    enable_functions: z.boolean().default(true),
     custom_domain: urlSchema.optional(),
     environment_variables: z.record(z.string(), z.string()).optional(),
   }).optional(),
+  ...coolifyTargetFields,
+  wait_for_ready: z.boolean().default(false),
+  timeout_seconds: z.number().int().min(30).max(3600).default(600),
 });
 
 export const updateSupabaseDeploymentSchema = z.object({
-  uuid: uuidSchema,
+  uuid: coolifyUuidSchema,
   config: z.object({
     postgres_version: z.string().optional(),
     enable_realtime: z.boolean().optional(),
@@ -172,6 +740,8 @@ export const updateSupabaseDeploymentSchema = z.object({
     enable_auth: z.boolean().optional(),
     enable_rest: z.boolean().optional(),
     enable_graphql: z.boolean().optional(),
+    enable_studio: z.boolean().optional(),
+    enable_functions: z.boolean().optional(),
     custom_domain: urlSchema.optional(),
     environment_variables: z.record(z.string(), z.string()).optional(),
   }),
@@ -181,6 +751,31 @@ export const getDeploymentStatusSchema = z.object({
   uuid: uuidSchema,
 });
 
+const jwtSecretSchema = z.string().min(32, 'JWT secret must be at least 32 characters');
+
+const supabaseKeyRoleSchema = z.enum(['anon', 'service_role']);
+
+export const generateSupabaseKeysSchema = z.object({
+  jwt_secret: jwtSecretSchema,
+  expires_in_days: z.number().int().min(1).max(36500).optional(),
+  issuer: z.string().min(1).optional(),
+});
+
+export const verifySupabaseKeySchema = z.object({
+  key: z.string().min(1),
+  jwt_secret: jwtSecretSchema,
+  role: supabaseKeyRoleSchema.optional(),
+});
+
+export const rotateSupabaseSecretsSchema = z.object({
+  uuid: coolifyUuidSchema,
+  rotate_postgres_password: z.boolean().default(false),
+  supabase_url: urlSchema.optional(),
+  timeout_seconds: z.number().int().min(10).max(1800).default(180),
+  expires_in_days: z.number().int().min(1).max(36500).optional(),
+  dry_run: z.boolean().default(false),
+});
+
 // ==================== Validation Helper ====================
 
 /**